@@ -18,6 +18,28 @@ export const VALID_COLORS = [
   'pastel-gray'     // Archive/Completed
 ] as const;
 
+export type NM3Color = typeof VALID_COLORS[number];
+
+// Display values for the palette, used by exporters that render the scene themselves
+export const COLOR_HEX: Record<NM3Color, string> = {
+  'pastel-pink': '#FFB3C6',
+  'pastel-blue': '#A7C7E7',
+  'pastel-green': '#B5E8B0',
+  'pastel-yellow': '#FDFD96',
+  'pastel-purple': '#C3B1E1',
+  'pastel-orange': '#FFD1A1',
+  'pastel-mint': '#AAF0D1',
+  'pastel-lavender': '#E6E6FA',
+  'pastel-peach': '#FFDAB9',
+  'pastel-sky': '#B0E0F6',
+  'pastel-rose': '#F4C2C2',
+  'pastel-lime': '#D4F5A3',
+  'pastel-coral': '#F8B195',
+  'pastel-lilac': '#DCC6E0',
+  'pastel-cream': '#FFF5D1',
+  'pastel-gray': '#CFCFC4'
+};
+
 // Exactly 5 allowed geometric types
 export const VALID_SHAPES = [
   'sphere',   // Atomic concepts, single ideas
@@ -33,6 +55,9 @@ export const LINK_TYPES = [
   'enables', 'requires', 'questions', 'answers', 'exemplifies'
 ] as const;
 
+// Camera field of view in degrees when a document does not set one
+export const DEFAULT_FOV = 75;
+
 export function isValidColor(color: string): boolean {
   return VALID_COLORS.includes(color as any);
 }
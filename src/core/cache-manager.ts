@@ -73,8 +73,9 @@ export class CacheManager {
   }
 
   // Transform cache methods
-  getCachedTransform(markdown: string): NM3Document | undefined {
-    const key = this.hashMarkdown(markdown);
+  // `variant` distinguishes transforms of the same markdown with different options
+  getCachedTransform(markdown: string, variant: string = ''): NM3Document | undefined {
+    const key = this.hashMarkdown(markdown + variant);
     const cached = this.transformCache.get(key);
     
     if (cached) {
@@ -86,8 +87,8 @@ export class CacheManager {
     return undefined;
   }
 
-  setCachedTransform(markdown: string, document: NM3Document): void {
-    const key = this.hashMarkdown(markdown);
+  setCachedTransform(markdown: string, document: NM3Document, variant: string = ''): void {
+    const key = this.hashMarkdown(markdown + variant);
     this.transformCache.set(key, document);
   }
 
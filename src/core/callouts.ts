@@ -0,0 +1,147 @@
+// Callouts
+// Obsidian `> [!WARNING]` callouts and MkDocs `!!! note` admonitions, and the colors and shapes they stand for
+
+import { TokenizerExtension } from 'marked';
+import { NM3Color, VALID_COLORS, VALID_SHAPES } from '../constants/validation.js';
+
+export const CALLOUT_KINDS = [
+  'note', 'abstract', 'info', 'todo', 'tip', 'success', 'question',
+  'warning', 'failure', 'danger', 'bug', 'example', 'quote'
+] as const;
+export type CalloutKind = typeof CALLOUT_KINDS[number];
+
+export interface Callout {
+  kind: CalloutKind;
+  /** Type as written, lowercased: `caution` for `> [!CAUTION]`, which is a warning */
+  type: string;
+  title: string;
+  /** Body without the marker line, quote markers or indentation */
+  content: string;
+}
+
+export interface CalloutStyle {
+  color?: NM3Color;
+  shape?: typeof VALID_SHAPES[number];
+}
+
+/** Style overrides keyed by kind (`warning`) or by type as written (`caution`, or a custom type) */
+export type CalloutStyles = Record<string, CalloutStyle>;
+
+// Obsidian's aliases; MkDocs uses the same names
+const ALIASES: Record<string, CalloutKind> = {
+  summary: 'abstract', tldr: 'abstract',
+  hint: 'tip', important: 'tip',
+  check: 'success', done: 'success',
+  help: 'question', faq: 'question',
+  caution: 'warning', attention: 'warning',
+  fail: 'failure', missing: 'failure',
+  error: 'danger',
+  cite: 'quote',
+};
+
+export const DEFAULT_CALLOUT_STYLES: Record<CalloutKind, Required<CalloutStyle>> = {
+  note: { color: 'pastel-blue', shape: 'sphere' },
+  abstract: { color: 'pastel-cream', shape: 'pyramid' },
+  info: { color: 'pastel-sky', shape: 'sphere' },
+  todo: { color: 'pastel-mint', shape: 'cylinder' },
+  tip: { color: 'pastel-green', shape: 'sphere' },
+  success: { color: 'pastel-green', shape: 'sphere' },
+  question: { color: 'pastel-yellow', shape: 'sphere' },
+  warning: { color: 'pastel-orange', shape: 'pyramid' },
+  failure: { color: 'pastel-pink', shape: 'pyramid' },
+  danger: { color: 'pastel-pink', shape: 'pyramid' },
+  bug: { color: 'pastel-pink', shape: 'cube' },
+  example: { color: 'pastel-lavender', shape: 'cube' },
+  quote: { color: 'pastel-peach', shape: 'sphere' },
+};
+
+const OBSIDIAN_MARKER = /^\[!([\w-]+)\][+-]?[ \t]*(.*)$/;
+const ADMONITION = /^(?:!!!|\?\?\?\+?)[ \t]+([\w-]+)(?:[ \t]+"([^"]*)")?[ \t]*(?:\n|$)((?:(?:[ \t]*\n)*(?: {4}|\t)[^\n]*(?:\n|$))*)/;
+
+/**
+ * marked extension that reads MkDocs admonitions as `admonition` tokens.
+ * Without it, the header becomes a paragraph and the indented body a code
+ * block or part of that paragraph.
+ */
+export const admonitionExtension: TokenizerExtension = {
+  name: 'admonition',
+  level: 'block',
+  start(src: string) {
+    return src.match(/^(?:!!!|\?\?\?)[ \t]/m)?.index;
+  },
+  tokenizer(src: string) {
+    const match = src.match(ADMONITION);
+    if (!match) return undefined;
+    return {
+      type: 'admonition',
+      raw: match[0],
+      calloutType: match[1],
+      title: match[2],
+      text: match[3].replace(/^(?: {4}|\t)/gm, '').trim(),
+    };
+  },
+};
+
+/**
+ * Kind for a callout type; types without a known name are notes, as in Obsidian
+ */
+export function calloutKind(type: string): CalloutKind {
+  const name = type.toLowerCase();
+  return (CALLOUT_KINDS as readonly string[]).includes(name) ? name as CalloutKind : ALIASES[name] ?? 'note';
+}
+
+/**
+ * Callout for a `blockquote` or `admonition` token, or null for a plain quote
+ */
+export function parseCallout(token: any): Callout | null {
+  if (token.type === 'admonition') {
+    return createCallout(token.calloutType, token.title ?? '', token.text);
+  }
+  if (token.type !== 'blockquote') {
+    return null;
+  }
+
+  const lines = token.raw.trim().split('\n').map((line: string) => line.replace(/^ {0,3}> ?/, ''));
+  const marker = lines[0].match(OBSIDIAN_MARKER);
+  if (!marker) {
+    return null;
+  }
+  return createCallout(marker[1], marker[2], lines.slice(1).join('\n'));
+}
+
+/**
+ * Color and shape for a callout: an override for its type as written, then
+ * for its kind, then the default for its kind
+ */
+export function calloutStyle(callout: Callout, overrides: CalloutStyles = {}): Required<CalloutStyle> {
+  return {
+    ...DEFAULT_CALLOUT_STYLES[callout.kind],
+    ...overrides[callout.kind],
+    ...overrides[callout.type],
+  };
+}
+
+/**
+ * Throws on style overrides with colors or shapes outside the NM3 palette
+ */
+export function checkCalloutStyles(overrides: CalloutStyles = {}): void {
+  for (const [type, style] of Object.entries(overrides)) {
+    if (style.color !== undefined && !VALID_COLORS.includes(style.color)) {
+      throw new Error(`Invalid color "${style.color}" for callout "${type}". Expected one of: ${VALID_COLORS.join(', ')}`);
+    }
+    if (style.shape !== undefined && !VALID_SHAPES.includes(style.shape)) {
+      throw new Error(`Invalid shape "${style.shape}" for callout "${type}". Expected one of: ${VALID_SHAPES.join(', ')}`);
+    }
+  }
+}
+
+function createCallout(type: string, title: string, content: string): Callout {
+  const name = type.toLowerCase();
+  return {
+    kind: calloutKind(name),
+    type: name,
+    // Untitled callouts show their type, as both Obsidian and MkDocs do
+    title: title.trim() || name.charAt(0).toUpperCase() + name.slice(1),
+    content: content.trim(),
+  };
+}
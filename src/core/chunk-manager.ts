@@ -1,6 +1,16 @@
 import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
+import { FileRoots, PathAccessError } from './file-roots.js';
+import { Compression, COMPRESSIONS, NM3Compressor } from './nm3-compression.js';
+
+/**
+ * `text` cuts at line breaks near the chunk size; `elements` cuts between
+ * <meta>/<camera>/<node>/<link> elements and wraps every chunk as a
+ * well-formed <nm3-chunk> document
+ */
+export const CHUNK_MODES = ['text', 'elements'] as const;
+export type ChunkMode = typeof CHUNK_MODES[number];
 
 export interface ChunkMetadata {
   chunkId: string;
@@ -9,6 +19,8 @@ export interface ChunkMetadata {
   hash: string;
   startOffset: number;
   endOffset: number;
+  /** Bytes of the chunk file, after compression */
+  storedSize?: number;
 }
 
 export interface ChunkManifest {
@@ -21,6 +33,56 @@ export interface ChunkManifest {
   outputPath: string;
   sourceHash: string;
   workingDirectory?: string;
+  /** Missing in manifests written before element chunks existed, meaning `text` */
+  mode?: ChunkMode;
+  /** How chunk files are stored; missing means `none`. Hashes and sizes are of the uncompressed text */
+  compression?: Compression;
+}
+
+export interface ChunkContent {
+  metadata: ChunkMetadata;
+  totalChunks: number;
+  mode: ChunkMode;
+  content: string;
+}
+
+interface ChunkPiece {
+  /** Span of the original document this chunk reproduces */
+  raw: string;
+  /** What is written to the chunk file */
+  content: string;
+}
+
+interface ElementUnit {
+  start: number;
+  end: number;
+  section: 'head' | 'nodes' | 'links';
+}
+
+export interface ChunkStatus {
+  exists: boolean;
+  chunksPresent: number;
+  totalChunks: number;
+  missingChunks: string[];
+  /** Present, but with a different hash or size than the manifest records */
+  corruptChunks: string[];
+  compression: Compression;
+  /** UTF-8 bytes of the intact chunks once decompressed */
+  rawSize: number;
+  /** Bytes of the chunk files present on disk */
+  storedSize: number;
+}
+
+export interface ChunkSession {
+  documentId: string;
+  manifestPath: string;
+  /** File name the session assembles to */
+  outputPath: string;
+  created: Date;
+  ageMs: number;
+  totalChunks: number;
+  /** Bytes on disk, manifest included */
+  size: number;
 }
 
 export interface ChunkResult {
@@ -30,20 +92,67 @@ export interface ChunkResult {
   manifest: ChunkManifest;
 }
 
+/** Directory names `generateDocumentId` produces: `doc-<timestamp>-<random>` */
+const SESSION_DIRECTORY = /^doc-(\d+)-[a-z0-9]+$/;
+
+/**
+ * Chunk Manager
+ *
+ * Manifests are only read from inside the chunk directory, and assembled
+ * files are only written inside `outputRoots` (default: the working
+ * directory), whatever a manifest or caller asks for.
+ *
+ * An element chunk keeps consecutive elements of one section verbatim and
+ * carries the text between sections (XML declaration, container tags,
+ * indentation) escaped in its `before`/`after` attributes:
+ *
+ *   <nm3-chunk seq="3" section="nodes" before="&#10;    "><nodes><node ...>...</node>
+ *       <node ...>...</node></nodes></nm3-chunk>
+ *
+ * Unwrapping and concatenating the chunks gives back the exact document.
+ *
+ * Chunk files can be stored gzip or brotli compressed (`chunk-001.xml.gz`,
+ * `chunk-001.xml.br`); the manifest describes the uncompressed text either way.
+ *
+ * Every chunked document is a session directory under the chunk directory.
+ * Sessions are removed after assembly (unless kept) or once they are older
+ * than the TTL given to `startCleanup`. Only `doc-<timestamp>-<id>`
+ * directories holding a readable manifest for that id count as sessions;
+ * anything else in the chunk directory is never listed or removed.
+ */
 export class ChunkManager {
   private readonly chunkSize: number;
   private readonly tempDir: string;
+  private readonly chunkRoots: FileRoots;
+  private readonly outputRoots: FileRoots;
+  private readonly compressor = new NM3Compressor();
+  private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(chunkSize: number = 30000, tempDir?: string) {
+  constructor(chunkSize: number = 30000, tempDir?: string, outputRoots: FileRoots = new FileRoots()) {
     this.chunkSize = chunkSize;
-    this.tempDir = tempDir || path.join(process.cwd(), 'temp', 'chunks');
+    this.tempDir = path.resolve(tempDir || path.join(process.cwd(), 'temp', 'chunks'));
+    this.chunkRoots = new FileRoots([this.tempDir]);
+    this.outputRoots = outputRoots;
   }
 
   async chunkXML(
     xml: string,
     outputName: string = 'output.nm3',
-    workingDirectory?: string
+    workingDirectory?: string,
+    mode: ChunkMode = 'text',
+    compression: Compression = 'none'
   ): Promise<ChunkResult> {
+    if (!CHUNK_MODES.includes(mode)) {
+      throw new Error(`Unknown chunk mode "${mode}". Expected one of: ${CHUNK_MODES.join(', ')}`);
+    }
+    if (!COMPRESSIONS.includes(compression)) {
+      throw new Error(`Unknown compression "${compression}". Expected one of: ${COMPRESSIONS.join(', ')}`);
+    }
+    this.checkFileName(outputName);
+    if (workingDirectory) {
+      workingDirectory = await this.outputRoots.resolve(workingDirectory);
+    }
+
     // Create unique document ID
     const documentId = this.generateDocumentId();
     
@@ -51,10 +160,10 @@ export class ChunkManager {
     const docTempDir = path.join(this.tempDir, documentId);
     await fs.mkdir(docTempDir, { recursive: true });
 
-    console.error(`📦 Chunking XML (${xml.length} chars) into ${this.chunkSize} char segments...`);
+    console.error(`📦 Chunking XML (${xml.length} chars) into ${this.chunkSize} char ${mode === 'elements' ? 'element groups' : 'segments'}...`);
 
     // Split into chunks with XML-aware boundaries
-    const chunks = this.splitXMLIntoChunks(xml);
+    const chunks = this.split(xml, mode, this.chunkSize);
     
     console.error(`   Created ${chunks.length} chunks`);
 
@@ -63,12 +172,12 @@ export class ChunkManager {
     let offset = 0;
 
     for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
+      const { raw, content: chunk } = chunks[i];
       const chunkId = `chunk-${String(i + 1).padStart(3, '0')}`;
-      const chunkPath = path.join(docTempDir, `${chunkId}.xml`);
+      const chunkPath = path.join(docTempDir, this.chunkFileName(chunkId, compression));
       
       // Write chunk to disk
-      await fs.writeFile(chunkPath, chunk, 'utf-8');
+      const storedSize = await this.compressor.writeFile(chunkPath, chunk);
       
       // Calculate hash
       const hash = crypto.createHash('sha256').update(chunk).digest('hex');
@@ -80,12 +189,13 @@ export class ChunkManager {
         size: chunk.length,
         hash,
         startOffset: offset,
-        endOffset: offset + chunk.length,
+        endOffset: offset + raw.length,
+        storedSize,
       });
       
-      offset += chunk.length;
+      offset += raw.length;
       
-      console.error(`   ✓ ${chunkId}: ${chunk.length} chars (hash: ${hash.substring(0, 8)}...)`);
+      console.error(`   ✓ ${chunkId}: ${chunk.length} chars${compression === 'none' ? '' : `, ${storedSize} bytes ${compression}`} (hash: ${hash.substring(0, 8)}...)`);
     }
 
     // Create manifest
@@ -99,6 +209,8 @@ export class ChunkManager {
       outputPath: outputName,
       sourceHash: crypto.createHash('sha256').update(xml).digest('hex'),
       workingDirectory,
+      mode,
+      compression,
     };
 
     // Write manifest
@@ -116,13 +228,19 @@ export class ChunkManager {
     };
   }
 
-  private splitXMLIntoChunks(xml: string): string[] {
+  private split(xml: string, mode: ChunkMode, chunkSize: number): ChunkPiece[] {
+    return mode === 'elements'
+      ? this.splitXMLIntoElementChunks(xml, chunkSize)
+      : this.splitXMLIntoChunks(xml, chunkSize).map(text => ({ raw: text, content: text }));
+  }
+
+  private splitXMLIntoChunks(xml: string, chunkSize: number): string[] {
     const chunks: string[] = [];
     let position = 0;
     
     while (position < xml.length) {
       // Calculate end position for this chunk
-      let endPosition = Math.min(position + this.chunkSize, xml.length);
+      let endPosition = Math.min(position + chunkSize, xml.length);
       
       // If not at end of document, find safe break point
       if (endPosition < xml.length) {
@@ -155,6 +273,193 @@ export class ChunkManager {
     return chunks;
   }
 
+  /**
+   * Group whole elements into chunks of roughly `chunkSize` characters; an
+   * element larger than that gets a chunk of its own
+   */
+  private splitXMLIntoElementChunks(xml: string, chunkSize: number): ChunkPiece[] {
+    const groups: ElementUnit[][] = [];
+    let current: ElementUnit[] = [];
+
+    for (const unit of this.findElementUnits(xml)) {
+      const first = current[0];
+      if (first && (first.section !== unit.section || unit.end - first.start > chunkSize)) {
+        groups.push(current);
+        current = [];
+      }
+      current.push(unit);
+    }
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    // Not an NM3 document: one chunk carrying everything as text
+    if (groups.length === 0) {
+      return [{ raw: xml, content: this.wrapChunk(1, 'head', xml, '', '') }];
+    }
+
+    let position = 0;
+    return groups.map((group, index) => {
+      const start = group[0].start;
+      const end = group[group.length - 1].end;
+      const before = xml.substring(position, start);
+      const after = index === groups.length - 1 ? xml.substring(end) : '';
+      const inner = xml.substring(start, end);
+      position = end;
+
+      return {
+        raw: before + inner + after,
+        content: this.wrapChunk(index + 1, group[0].section, before, inner, after),
+      };
+    });
+  }
+
+  /**
+   * Spans of the children of <nm3> (except the <nodes>/<links> containers)
+   * and of <nodes>/<links>. Markup inside CDATA, comments and attribute
+   * values is skipped, so `<` in node content cannot confuse the split.
+   */
+  private findElementUnits(xml: string): ElementUnit[] {
+    const units: ElementUnit[] = [];
+    const stack: string[] = [];
+    let open: { start: number; depth: number; section: ElementUnit['section'] } | null = null;
+    let position = 0;
+
+    const skipPast = (marker: string, from: number) => {
+      const end = xml.indexOf(marker, from);
+      if (end === -1) {
+        throw new Error(`Unterminated markup at offset ${from}`);
+      }
+      return end + marker.length;
+    };
+
+    while ((position = xml.indexOf('<', position)) !== -1) {
+      if (xml.startsWith('<![CDATA[', position)) {
+        position = skipPast(']]>', position);
+        continue;
+      }
+      if (xml.startsWith('<!--', position)) {
+        position = skipPast('-->', position);
+        continue;
+      }
+      if (xml.startsWith('<?', position)) {
+        position = skipPast('?>', position);
+        continue;
+      }
+      if (xml.startsWith('<!', position)) {
+        position = skipPast('>', position);
+        continue;
+      }
+
+      // Find the end of the tag, stepping over quoted attribute values
+      const tagStart = position;
+      let quote = '';
+      let end = position + 1;
+      for (; end < xml.length; end++) {
+        const char = xml[end];
+        if (quote) {
+          if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === '>') {
+          break;
+        }
+      }
+      if (end >= xml.length) {
+        throw new Error(`Unterminated tag at offset ${tagStart}`);
+      }
+
+      const tag = xml.substring(tagStart, end + 1);
+      const name = tag.match(/^<\/?([^\s/>]+)/)?.[1] ?? '';
+      position = end + 1;
+
+      if (tag.startsWith('</')) {
+        stack.pop();
+        if (open && stack.length === open.depth) {
+          units.push({ start: open.start, end: position, section: open.section });
+          open = null;
+        }
+        continue;
+      }
+
+      const selfClosing = tag.endsWith('/>');
+      const section: ElementUnit['section'] | null = open ? null : this.unitSection(stack, name);
+      if (section && selfClosing) {
+        units.push({ start: tagStart, end: position, section });
+      } else if (section) {
+        open = { start: tagStart, depth: stack.length, section };
+      }
+      if (!selfClosing) {
+        stack.push(name);
+      }
+    }
+
+    return units;
+  }
+
+  private unitSection(parents: string[], name: string): ElementUnit['section'] | null {
+    const parentPath = parents.join('/');
+    if (parentPath === 'nm3') {
+      return name === 'nodes' || name === 'links' ? null : 'head';
+    }
+    if (parentPath === 'nm3/nodes') return 'nodes';
+    if (parentPath === 'nm3/links') return 'links';
+    return null;
+  }
+
+  private wrapChunk(sequence: number, section: ElementUnit['section'], before: string, inner: string, after: string): string {
+    const attributes = [`seq="${sequence}"`, `section="${section}"`];
+    if (before) attributes.push(`before="${this.escapeAttribute(before)}"`);
+    if (after) attributes.push(`after="${this.escapeAttribute(after)}"`);
+
+    const body = section === 'head' ? inner : `<${section}>${inner}</${section}>`;
+    return `<nm3-chunk ${attributes.join(' ')}>${body}</nm3-chunk>`;
+  }
+
+  /**
+   * The span of the original document an element chunk stands for
+   */
+  private unwrapChunk(content: string, chunkId: string): string {
+    const match = content.match(/^<nm3-chunk seq="\d+" section="(head|nodes|links)"(?: before="([^"]*)")?(?: after="([^"]*)")?>/);
+    const close = '</nm3-chunk>';
+    if (!match || !content.endsWith(close)) {
+      throw new Error(`Chunk ${chunkId} is not an element chunk`);
+    }
+
+    const [openTag, section] = match;
+    const before = match[2] ?? '';
+    const after = match[3] ?? '';
+    let body = content.substring(openTag.length, content.length - close.length);
+    if (section !== 'head') {
+      const container = [`<${section}>`, `</${section}>`];
+      if (!body.startsWith(container[0]) || !body.endsWith(container[1])) {
+        throw new Error(`Chunk ${chunkId} is missing its <${section}> container`);
+      }
+      body = body.substring(container[0].length, body.length - container[1].length);
+    }
+
+    return this.unescapeAttribute(before) + body + this.unescapeAttribute(after);
+  }
+
+  // Line breaks and tabs are escaped too, as XML parsers turn them into spaces in attributes
+  private escapeAttribute(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\n/g, '&#10;')
+      .replace(/\r/g, '&#13;')
+      .replace(/\t/g, '&#9;');
+  }
+
+  private unescapeAttribute(text: string): string {
+    const entities: Record<string, string> = {
+      '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#10;': '\n', '&#13;': '\r', '&#9;': '\t',
+    };
+    return text.replace(/&(?:amp|lt|gt|quot|#10|#13|#9);/g, entity => entities[entity]);
+  }
+
   private isSafeBreakPoint(chunk: string): boolean {
     // Check if we're not in the middle of an XML tag
     const openTags = (chunk.match(/</g) || []).length;
@@ -164,14 +469,20 @@ export class ChunkManager {
     return openTags === closeTags;
   }
 
-  async assembleChunks(manifestPath: string, outputDirectory?: string): Promise<string> {
+  /**
+   * Verify and concatenate the chunks into the output file; with `gzip` (or
+   * an output name ending in `.gz`) the file is written as `.nm3.gz`
+   */
+  async assembleChunks(
+    manifestPath: string,
+    outputDirectory?: string,
+    keepChunks: boolean = false,
+    gzip: boolean = false
+  ): Promise<string> {
     console.error(`🔨 Assembling chunks from manifest: ${manifestPath}`);
     
     // Read manifest
-    const manifestContent = await fs.readFile(manifestPath, 'utf-8');
-    const manifest: ChunkManifest = JSON.parse(manifestContent);
-    
-    const tempDir = path.dirname(manifestPath);
+    const { manifest, tempDir } = await this.loadManifest(manifestPath);
     
     console.error(`   Document ID: ${manifest.documentId}`);
     console.error(`   Total chunks: ${manifest.totalChunks}`);
@@ -181,29 +492,8 @@ export class ChunkManager {
     let assembledXML = '';
     
     for (const chunkMeta of manifest.chunks) {
-      const chunkPath = path.join(tempDir, `${chunkMeta.chunkId}.xml`);
-      
-      // Read chunk
-      const chunkContent = await fs.readFile(chunkPath, 'utf-8');
-      
-      // Verify hash
-      const actualHash = crypto.createHash('sha256').update(chunkContent).digest('hex');
-      if (actualHash !== chunkMeta.hash) {
-        throw new Error(
-          `Chunk ${chunkMeta.chunkId} hash mismatch! ` +
-          `Expected: ${chunkMeta.hash}, Got: ${actualHash}`
-        );
-      }
-      
-      // Verify size
-      if (chunkContent.length !== chunkMeta.size) {
-        throw new Error(
-          `Chunk ${chunkMeta.chunkId} size mismatch! ` +
-          `Expected: ${chunkMeta.size}, Got: ${chunkContent.length}`
-        );
-      }
-      
-      assembledXML += chunkContent;
+      const chunkContent = await this.readVerifiedChunk(tempDir, chunkMeta, manifest.compression);
+      assembledXML += manifest.mode === 'elements' ? this.unwrapChunk(chunkContent, chunkMeta.chunkId) : chunkContent;
       
       console.error(`   ✓ ${chunkMeta.chunkId}: ${chunkMeta.size} chars (verified)`);
     }
@@ -227,9 +517,11 @@ export class ChunkManager {
     // Determine output directory priority:
     // 1. Explicit outputDirectory parameter
     // 2. Manifest's workingDirectory (captured during chunking)
-    // 3. Fall back to process.cwd()
-    const outputDir = outputDirectory || manifest.workingDirectory || process.cwd();
-    const outputPath = path.join(outputDir, manifest.outputPath);
+    // 3. Fall back to the first output root (the working directory by default)
+    // Either way the file has to land inside the output roots
+    const outputDir = outputDirectory || manifest.workingDirectory || this.outputRoots.getRoots()[0] || process.cwd();
+    const outputName = gzip && !manifest.outputPath.endsWith('.gz') ? `${manifest.outputPath}.gz` : manifest.outputPath;
+    const outputPath = await this.outputRoots.resolve(path.join(outputDir, outputName));
     
     if (manifest.workingDirectory) {
       console.error(`   📁 Using captured working directory: ${manifest.workingDirectory}`);
@@ -237,12 +529,16 @@ export class ChunkManager {
       console.error(`   ⚠️  No working directory in manifest, using: ${outputDir}`);
     }
     
-    await fs.writeFile(outputPath, assembledXML, 'utf-8');
+    const written = await this.compressor.writeFile(outputPath, assembledXML);
     
-    console.error(`   💾 Written to: ${outputPath}`);
+    console.error(`   💾 Written to: ${outputPath} (${written} bytes)`);
 
-    // Cleanup temp directory
-    await this.cleanup(tempDir);
+    // Cleanup temp directory, unless the caller wants to page through it again
+    if (keepChunks) {
+      console.error(`   📌 Keeping chunks in ${tempDir}`);
+    } else {
+      await this.cleanup(tempDir);
+    }
 
     return outputPath;
   }
@@ -256,49 +552,270 @@ export class ChunkManager {
     }
   }
 
+  /**
+   * Manifest fields end up in file paths; reject anything but plain names
+   */
+  private checkManifest(manifest: ChunkManifest): void {
+    this.checkFileName(manifest.outputPath);
+    for (const chunk of manifest.chunks) {
+      if (!/^chunk-\d+$/.test(chunk.chunkId)) {
+        throw new PathAccessError(`Invalid chunk id in manifest: ${chunk.chunkId}`);
+      }
+    }
+  }
+
+  private checkFileName(name: string): void {
+    if (!name || name !== path.basename(name) || name === '.' || name === '..' || name.includes('\\')) {
+      throw new PathAccessError(`Output name must be a plain file name without directories: ${name}`);
+    }
+  }
+
   private generateDocumentId(): string {
     const timestamp = Date.now();
     const random = Math.random().toString(36).substring(2, 8);
     return `doc-${timestamp}-${random}`;
   }
 
-  async getChunkStatus(manifestPath: string): Promise<{
-    exists: boolean;
-    chunksPresent: number;
-    totalChunks: number;
-    missingChunks: string[];
-  }> {
+  /**
+   * Manifest of a chunked document, for clients that page through the chunks
+   */
+  async readManifest(manifestPath: string): Promise<ChunkManifest> {
+    return (await this.loadManifest(manifestPath)).manifest;
+  }
+
+  /**
+   * One chunk by its 1-based sequence number, verified against the manifest
+   */
+  async readChunk(manifestPath: string, sequence: number): Promise<ChunkContent> {
+    const { manifest, tempDir } = await this.loadManifest(manifestPath);
+    const metadata = manifest.chunks.find(chunk => chunk.sequence === sequence);
+    if (!metadata) {
+      throw new Error(`Chunk sequence ${sequence} not found; expected 1 to ${manifest.totalChunks}`);
+    }
+
+    const content = await this.readVerifiedChunk(tempDir, metadata, manifest.compression);
+    return { metadata, totalChunks: manifest.totalChunks, mode: manifest.mode ?? 'text', content };
+  }
+
+  private async loadManifest(manifestPath: string): Promise<{ manifest: ChunkManifest; tempDir: string }> {
+    const resolved = await this.chunkRoots.resolve(manifestPath);
+    const manifest: ChunkManifest = JSON.parse(await fs.readFile(resolved, 'utf-8'));
+    this.checkManifest(manifest);
+    return { manifest, tempDir: path.dirname(resolved) };
+  }
+
+  private chunkFileName(chunkId: string, compression: Compression = 'none'): string {
+    return `${chunkId}.xml${this.compressor.extension(compression)}`;
+  }
+
+  private async readVerifiedChunk(tempDir: string, chunkMeta: ChunkMetadata, compression?: Compression): Promise<string> {
+    const chunkPath = path.join(tempDir, this.chunkFileName(chunkMeta.chunkId, compression));
+    
+    // Read chunk
+    const chunkContent = await this.compressor.readFile(chunkPath);
+    
+    // Verify hash
+    const actualHash = crypto.createHash('sha256').update(chunkContent).digest('hex');
+    if (actualHash !== chunkMeta.hash) {
+      throw new Error(
+        `Chunk ${chunkMeta.chunkId} hash mismatch! ` +
+        `Expected: ${chunkMeta.hash}, Got: ${actualHash}`
+      );
+    }
+    
+    // Verify size
+    if (chunkContent.length !== chunkMeta.size) {
+      throw new Error(
+        `Chunk ${chunkMeta.chunkId} size mismatch! ` +
+        `Expected: ${chunkMeta.size}, Got: ${chunkContent.length}`
+      );
+    }
+    
+    return chunkContent;
+  }
+
+  async getChunkStatus(manifestPath: string): Promise<ChunkStatus> {
+    manifestPath = await this.chunkRoots.resolve(manifestPath);
     try {
       const manifestContent = await fs.readFile(manifestPath, 'utf-8');
       const manifest: ChunkManifest = JSON.parse(manifestContent);
+      this.checkManifest(manifest);
       
-      const tempDir = path.dirname(manifestPath);
-      const missingChunks: string[] = [];
-      let chunksPresent = 0;
-      
-      for (const chunkMeta of manifest.chunks) {
-        const chunkPath = path.join(tempDir, `${chunkMeta.chunkId}.xml`);
-        try {
-          await fs.access(chunkPath);
-          chunksPresent++;
-        } catch {
-          missingChunks.push(chunkMeta.chunkId);
-        }
-      }
+      const { missingChunks, corruptChunks, rawSize, storedSize } = await this.inspectChunks(path.dirname(manifestPath), manifest);
       
       return {
         exists: true,
-        chunksPresent,
+        chunksPresent: manifest.totalChunks - missingChunks.length,
         totalChunks: manifest.totalChunks,
         missingChunks,
+        corruptChunks,
+        compression: manifest.compression ?? 'none',
+        rawSize,
+        storedSize,
       };
-    } catch {
+    } catch (error) {
+      if (error instanceof PathAccessError) throw error;
       return {
         exists: false,
         chunksPresent: 0,
         totalChunks: 0,
         missingChunks: [],
+        corruptChunks: [],
+        compression: 'none',
+        rawSize: 0,
+        storedSize: 0,
       };
     }
   }
+
+  private async inspectChunks(tempDir: string, manifest: ChunkManifest): Promise<{
+    missingChunks: string[];
+    corruptChunks: string[];
+    rawSize: number;
+    storedSize: number;
+  }> {
+    const missingChunks: string[] = [];
+    const corruptChunks: string[] = [];
+    let rawSize = 0;
+    let storedSize = 0;
+    
+    for (const chunkMeta of manifest.chunks) {
+      try {
+        const stats = await fs.stat(path.join(tempDir, this.chunkFileName(chunkMeta.chunkId, manifest.compression)));
+        storedSize += stats.size;
+        rawSize += Buffer.byteLength(await this.readVerifiedChunk(tempDir, chunkMeta, manifest.compression));
+      } catch (error: any) {
+        (error.code === 'ENOENT' ? missingChunks : corruptChunks).push(chunkMeta.chunkId);
+      }
+    }
+    
+    return { missingChunks, corruptChunks, rawSize, storedSize };
+  }
+
+  /**
+   * Rewrite the missing and corrupted chunks of a session from the document
+   * it was made from; intact chunks are left alone. Returns the rewritten ids.
+   */
+  async repairChunks(manifestPath: string, xml: string): Promise<string[]> {
+    const { manifest, tempDir } = await this.loadManifest(manifestPath);
+    
+    const sourceHash = crypto.createHash('sha256').update(xml).digest('hex');
+    if (sourceHash !== manifest.sourceHash) {
+      throw new Error(
+        `Document does not match manifest ${manifest.documentId}! ` +
+        `Expected source hash: ${manifest.sourceHash}, Got: ${sourceHash}`
+      );
+    }
+    
+    const { missingChunks, corruptChunks } = await this.inspectChunks(tempDir, manifest);
+    const broken = new Set([...missingChunks, ...corruptChunks]);
+    if (broken.size === 0) {
+      return [];
+    }
+    
+    console.error(`🩹 Regenerating ${broken.size} chunk(s) of ${manifest.documentId}...`);
+    const pieces = this.split(xml, manifest.mode ?? 'text', manifest.chunkSize);
+    
+    for (const chunkMeta of manifest.chunks.filter(chunk => broken.has(chunk.chunkId))) {
+      const content = pieces[chunkMeta.sequence - 1]?.content ?? '';
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      if (hash !== chunkMeta.hash) {
+        throw new Error(`Regenerated ${chunkMeta.chunkId} does not match the manifest hash`);
+      }
+      
+      await this.compressor.writeFile(path.join(tempDir, this.chunkFileName(chunkMeta.chunkId, manifest.compression)), content);
+      console.error(`   ✓ ${chunkMeta.chunkId}: ${content.length} chars (regenerated)`);
+    }
+    
+    return manifest.chunks.filter(chunk => broken.has(chunk.chunkId)).map(chunk => chunk.chunkId);
+  }
+
+  /**
+   * Session directories in the chunk directory, oldest first. Directories
+   * that are not named like a session or whose manifest cannot be read are
+   * skipped, so cleanup never touches them.
+   */
+  async listSessions(): Promise<ChunkSession[]> {
+    const entries = await fs.readdir(this.tempDir, { withFileTypes: true }).catch(() => []);
+    const sessions: ChunkSession[] = [];
+    
+    for (const entry of entries) {
+      const name = entry.name.match(SESSION_DIRECTORY);
+      if (!entry.isDirectory() || !name) continue;
+      
+      const directory = path.join(this.tempDir, entry.name);
+      const manifestPath = path.join(directory, 'manifest.json');
+      let manifest: ChunkManifest;
+      try {
+        manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+      } catch {
+        continue;
+      }
+      if (manifest?.documentId !== entry.name) continue;
+      
+      const files = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+      let size = 0;
+      for (const file of files) {
+        if (file.isFile()) {
+          size += (await fs.stat(path.join(directory, file.name))).size;
+        }
+      }
+      
+      // A manifest without a usable date falls back to the timestamp in the name
+      const parsedCreated = Date.parse(manifest.created);
+      const created = new Date(isNaN(parsedCreated) ? Number(name[1]) : parsedCreated);
+      
+      sessions.push({
+        documentId: manifest.documentId,
+        manifestPath,
+        outputPath: manifest.outputPath,
+        created,
+        ageMs: Date.now() - created.getTime(),
+        totalChunks: manifest.totalChunks ?? 0,
+        size,
+      });
+    }
+    
+    return sessions.sort((a, b) => a.created.getTime() - b.created.getTime());
+  }
+
+  /**
+   * Remove sessions older than `ttlMs`; returns the removed sessions
+   */
+  async cleanupExpired(ttlMs: number): Promise<ChunkSession[]> {
+    const expired = (await this.listSessions()).filter(session => session.ageMs > ttlMs);
+    for (const session of expired) {
+      await this.cleanup(path.dirname(session.manifestPath));
+    }
+    if (expired.length > 0) {
+      console.error(`🧹 Removed ${expired.length} expired chunk session(s)`);
+    }
+    return expired;
+  }
+
+  /**
+   * Remove expired sessions now and then every `intervalMs`; the timer does
+   * not keep the process alive
+   */
+  startCleanup(ttlMs: number, intervalMs: number = 60 * 60 * 1000): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    const run = () => {
+      this.cleanupExpired(ttlMs).catch(error => {
+        console.error('⚠️  Warning: Chunk session cleanup failed:', error);
+      });
+    };
+    run();
+    this.cleanupInterval = setInterval(run, intervalMs);
+    this.cleanupInterval.unref();
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
 }
@@ -3,6 +3,7 @@
 
 import { NM3Node } from '../models/types.js';
 import { Octree, OctreeNode } from './octree.js';
+import { SeededRandom } from './seeded-random.js';
 
 export interface CollisionInfo {
   node1: string;
@@ -18,6 +19,7 @@ export interface CollisionInfo {
 export class CollisionDetector {
   private octree: Octree | null = null;
   private minSeparation: number;
+  private random: SeededRandom = new SeededRandom(0);
 
   constructor(minSeparation: number = 2.0) {
     this.minSeparation = minSeparation;
@@ -58,10 +60,18 @@ export class CollisionDetector {
 
   /**
    * Resolve collisions by iteratively pushing nodes apart
+   * Nodes listed in fixedIds are never moved; their partner takes the full push
+   * Nodes on the exact same spot are separated along a direction drawn from `random`
    * Returns total number of collisions resolved
    */
-  resolveCollisions(nodes: NM3Node[], maxIterations: number = 20): number {
+  resolveCollisions(
+    nodes: NM3Node[],
+    maxIterations: number = 20,
+    fixedIds: Set<string> = new Set(),
+    random: SeededRandom = new SeededRandom(0)
+  ): number {
     let totalResolved = 0;
+    this.random = random;
 
     for (let iteration = 0; iteration < maxIterations; iteration++) {
       const collisions = this.detectCollisions(nodes);
@@ -88,8 +98,19 @@ export class CollisionDetector {
         const totalScale = scale1 + scale2;
 
         // Lighter nodes move more (inverse weight)
-        const weight1 = scale2 / totalScale;
-        const weight2 = scale1 / totalScale;
+        let weight1 = scale2 / totalScale;
+        let weight2 = scale1 / totalScale;
+
+        const fixed1 = fixedIds.has(node1.id);
+        const fixed2 = fixedIds.has(node2.id);
+        if (fixed1 && fixed2) continue;
+        if (fixed1) {
+          weight1 = 0;
+          weight2 = 1;
+        } else if (fixed2) {
+          weight1 = 1;
+          weight2 = 0;
+        }
 
         // Apply separation with dampening (0.5 factor)
         node1.x -= collision.separationVector.x * weight1 * 0.5;
@@ -171,16 +192,18 @@ export class CollisionDetector {
 
     if (distance < minDistance) {
       const overlap = minDistance - distance;
-      const norm = distance > 0 ? distance : 1;
+      const direction = distance > 0
+        ? { x: dx / distance, y: dy / distance, z: dz / distance }
+        : this.random.unitVector();
 
       return {
         node1: node1.id,
         node2: node2.id,
         overlap,
         separationVector: {
-          x: (dx / norm) * overlap,
-          y: (dy / norm) * overlap,
-          z: (dz / norm) * overlap,
+          x: direction.x * overlap,
+          y: direction.y * overlap,
+          z: direction.z * overlap,
         },
       };
     }
@@ -1,17 +1,75 @@
-import { ParsedSection, MarkdownParser } from './parser.js';
+import { ParsedSection, MarkdownParser, ParseOptions } from './parser.js';
 import { NM3Document, NM3Node, NM3Link } from '../models/types.js';
 import { ReferenceExtractor, CrossReference } from './reference-extractor.js';
 import { ContentClassifier, ContentClassification } from './content-classifier.js';
 import { IntelligentShapeAssigner } from './intelligent-shape-assigner.js';
 import { IntelligentColorMapper } from './intelligent-color-mapper.js';
-import { sanitizeColor, sanitizeShape } from '../constants/validation.js';
-import { SpatialOptimizerV2 } from './spatial-optimizer-v2.js';
+import { DEFAULT_FOV, LINK_TYPES, isValidColor, isValidShape, sanitizeColor, sanitizeShape } from '../constants/validation.js';
+import { SpatialOptimizerV2, IncrementalLayoutStats } from './spatial-optimizer-v2.js';
 import { LayoutType } from './layout-templates.js';
+import { ForceConfig } from './force-directed-3d.js';
+import { FrontMatter, FrontMatterParser } from './front-matter.js';
+import { SeededRandom } from './seeded-random.js';
+import { SlugOptions } from './slugger.js';
+import { calloutStyle, CalloutStyles, checkCalloutStyles } from './callouts.js';
+import { VaultFile } from './vault-reader.js';
 import * as GraphModule from 'graphology';
 import { dijkstra } from 'graphology-shortest-path';
 
 const Graph = (GraphModule as any).default || GraphModule;
 
+/** Physics-only layout; both names are accepted by transform and relayout */
+export type ForceLayout = 'force-only' | 'force-directed';
+
+export const FORCE_LAYOUTS: readonly ForceLayout[] = ['force-only', 'force-directed'];
+
+export type LayoutSelection = LayoutType | ForceLayout | 'auto';
+
+function isForceLayout(layout: string): layout is ForceLayout {
+  return (FORCE_LAYOUTS as readonly string[]).includes(layout);
+}
+
+export interface LayoutOptions extends ParseOptions {
+  layout?: LayoutSelection;
+  maxIterations?: number;
+  minSeparation?: number;
+  forceConfig?: Partial<ForceConfig>;
+  /** Seed for rotations and layout randomness (default: hash of the markdown) */
+  seed?: number;
+  /** Previous revision of the document; nodes that still exist keep their coordinates */
+  previous?: NM3Document;
+  /** Colors and shapes for callouts, by kind or type, over the defaults */
+  calloutStyles?: CalloutStyles;
+}
+
+export interface VaultTransformOptions extends LayoutOptions {
+  /** Scene title (default: "Vault") */
+  title?: string;
+}
+
+export interface LayoutDecision {
+  requested: LayoutSelection;
+  layout: LayoutType | 'force-only' | 'incremental' | 'file-clusters';
+  reason: string;
+  forceDirected: boolean;
+  seed: number;
+  maxIterations?: number;
+  minSeparation?: number;
+  forceConfig?: Partial<ForceConfig>;
+  /** Set when the layout was derived from a previous revision */
+  incremental?: IncrementalLayoutStats;
+}
+
+export interface RelayoutOptions {
+  layout?: LayoutType | ForceLayout;
+  useForceDirected?: boolean;
+  forceConfig?: Partial<ForceConfig>;
+  maxIterations?: number;
+  minSeparation?: number;
+  /** Layout seed (default: hash of the document's node ids) */
+  seed?: number;
+}
+
 interface EnhancedNode extends NM3Node {
   classification?: ContentClassification;
   references?: string[];
@@ -24,24 +82,38 @@ export class EnhancedTransformer {
   protected shapeAssigner: IntelligentShapeAssigner;
   protected colorMapper: IntelligentColorMapper;
   protected spatialOptimizer: SpatialOptimizerV2;
+  protected frontMatterParser: FrontMatterParser;
+  protected lastFrontMatter: FrontMatter | null = null;
+  protected frontMatterWarnings: string[] = [];
+  protected lastLayoutDecision: LayoutDecision | null = null;
+  protected random: SeededRandom = new SeededRandom(0);
   private graph: any;
   
-  constructor() {
-    this.parser = new MarkdownParser();
-    this.referenceExtractor = new ReferenceExtractor();
+  constructor(slugOptions: SlugOptions = {}) {
+    this.parser = new MarkdownParser(slugOptions);
+    this.referenceExtractor = new ReferenceExtractor(slugOptions);
     this.contentClassifier = new ContentClassifier();
     this.shapeAssigner = new IntelligentShapeAssigner();
     this.colorMapper = new IntelligentColorMapper();
     this.spatialOptimizer = new SpatialOptimizerV2();
+    this.frontMatterParser = new FrontMatterParser();
     this.graph = new Graph();
   }
   
-  async transform(markdown: string): Promise<NM3Document> {
+  async transform(markdown: string, layoutOptions: LayoutOptions = {}): Promise<NM3Document> {
+    checkCalloutStyles(layoutOptions.calloutStyles);
+
     // Parse markdown
-    const sections = this.parser.parse(markdown);
+    const sections = this.parser.parse(markdown, layoutOptions);
+    this.lastFrontMatter = this.parser.getFrontMatter();
+    const warning = this.parser.getFrontMatterWarning();
+    this.frontMatterWarnings = warning ? [warning] : [];
+    this.lastLayoutDecision = null;
     
     if (sections.length === 0) {
-      return this.createEmptyDocument();
+      const empty = this.createEmptyDocument();
+      this.frontMatterParser.applyToMeta(empty.meta, this.lastFrontMatter);
+      return empty;
     }
     
     // Extract all cross-references
@@ -57,33 +129,205 @@ export class EnhancedTransformer {
     // Build graph for relationship analysis
     this.buildGraph(sections, references);
     
+    // Same markdown and seed give the same scene
+    this.random = new SeededRandom(layoutOptions.seed ?? SeededRandom.hashSeed(markdown));
+    
     // Create enhanced nodes
-    const nodes = this.createEnhancedNodes(sections, classifications, references);
+    const nodes = this.createEnhancedNodes(sections, classifications, references, layoutOptions.calloutStyles);
     
     // Create intelligent links
     const links = this.createIntelligentLinks(sections, references);
     
     // Optimize spatial layout
-    this.optimizeSpatialLayout(nodes, links);
+    this.optimizeSpatialLayout(nodes, links, sections, layoutOptions);
     
     // Calculate optimal camera
     const camera = this.calculateOptimalCamera(nodes);
     
+    const meta: NM3Document['meta'] = {
+      title: sections[0]?.title || "Untitled",
+      created: new Date().toISOString(),
+      author: "Markdown3D Intelligence Engine",
+      tags: this.generateDocumentTags(sections, classifications),
+      description: this.generateDocumentDescription(sections, classifications)
+    };
+    
+    // Front matter wins over generated metadata
+    this.frontMatterParser.applyToMeta(meta, this.lastFrontMatter);
+    
+    return {
+      version: "1.0",
+      meta,
+      camera,
+      nodes,
+      links
+    };
+  }
+  
+  /**
+   * Transform a directory of markdown files into one scene. Section ids are
+   * prefixed with the file's slug (`notes-setup--install`), [[file]] and
+   * [[file#heading]] links resolve across files, and every file is laid out
+   * on its own before the files are arranged as clusters.
+   */
+  async transformVault(files: VaultFile[], options: VaultTransformOptions = {}): Promise<NM3Document> {
+    checkCalloutStyles(options.calloutStyles);
+    this.lastFrontMatter = null;
+    this.frontMatterWarnings = [];
+    this.lastLayoutDecision = null;
+    
+    const sections: ParsedSection[] = [];
+    const fileSections = new Map<string, ParsedSection[]>();
+    
+    for (const file of files) {
+      const parsed = this.parser.parse(file.markdown, options);
+      const frontMatter = this.parser.getFrontMatter();
+      const warning = this.parser.getFrontMatterWarning();
+      if (warning) {
+        this.frontMatterWarnings.push(`${file.path}: ${warning}`);
+      }
+      const prefix = (id: string) => `${file.slug}--${id}`;
+      
+      for (const section of parsed) {
+        section.id = prefix(section.id);
+        section.parent = section.parent && prefix(section.parent);
+        section.children = section.children.map(prefix);
+        section.file = file.path;
+      }
+      
+      // Notes without headings are named after their front matter title or file name
+      if (parsed.length === 1 && parsed[0].id === prefix('main') && parsed[0].title === 'Document') {
+        parsed[0].title = frontMatter?.title || file.path.split('/').pop()!.replace(/\.[^.]+$/, '');
+      }
+      
+      if (parsed.length > 0) {
+        fileSections.set(file.path, parsed);
+        sections.push(...parsed);
+      }
+    }
+    
+    if (sections.length === 0) {
+      const empty = this.createEmptyDocument();
+      if (options.title) empty.meta.title = options.title;
+      return empty;
+    }
+    
+    const references = this.referenceExtractor.extractReferences(sections);
+    
+    // Sections are classified against the other sections of their own file
+    const classifications = new Map<string, ContentClassification>();
+    for (const group of fileSections.values()) {
+      for (const section of group) {
+        classifications.set(section.id, this.contentClassifier.classifySection(section, group));
+      }
+    }
+    
+    this.buildGraph(sections, references);
+    this.random = new SeededRandom(
+      options.seed ?? SeededRandom.hashSeed(files.map(file => `${file.path}\n${file.markdown}`).join('\n'))
+    );
+    
+    const nodes = this.createEnhancedNodes(sections, classifications, references, options.calloutStyles);
+    const links = this.createIntelligentLinks(sections, references);
+    this.layoutVault(nodes, links, fileSections, options);
+    
     return {
       version: "1.0",
       meta: {
-        title: sections[0]?.title || "Untitled",
+        title: options.title || "Vault",
         created: new Date().toISOString(),
         author: "Markdown3D Intelligence Engine",
         tags: this.generateDocumentTags(sections, classifications),
-        description: this.generateDocumentDescription(sections, classifications)
+        description: `${this.generateDocumentDescription(sections, classifications)} Collected from ${fileSections.size} file(s).`
       },
-      camera,
+      camera: this.calculateOptimalCamera(nodes),
       nodes,
       links
     };
   }
   
+  /**
+   * Re-run spatial optimization on an existing document without re-parsing.
+   * Only positions and camera change; ids, shapes, colors, content, links
+   * and meta are left untouched, so the same document and seed always give
+   * the same result. Shapes or colors outside the NM3 palette are refused
+   * rather than replaced, since building the XML would rewrite them.
+   */
+  relayout(document: NM3Document, options: RelayoutOptions = {}): NM3Document {
+    const invalid = [
+      ...document.nodes.filter(node => !isValidShape(node.type))
+        .map(node => `node "${node.id}" has shape "${node.type}"`),
+      ...document.nodes.filter(node => node.color && !isValidColor(node.color))
+        .map(node => `node "${node.id}" has color "${node.color}"`),
+      ...document.links.filter(link => link.color && !isValidColor(link.color))
+        .map(link => `link "${link.from}" → "${link.to}" has color "${link.color}"`),
+    ];
+    if (invalid.length > 0) {
+      throw new Error(`Cannot relayout a document with invalid shapes or colors: ${invalid.slice(0, 5).join('; ')}` +
+                      (invalid.length > 5 ? ` (and ${invalid.length - 5} more)` : ''));
+    }
+    
+    const layout = options.layout || 'force-only';
+    const template = isForceLayout(layout) ? undefined : layout;
+    const useForceDirected = options.useForceDirected ??
+      (template === undefined || document.nodes.length < 100);
+    
+    console.error(`📐 Relayout: ${layout}${template && useForceDirected ? ' + force-directed' : ''} ` +
+                  `(${document.nodes.length} nodes)`);
+    
+    const seed = options.seed ?? SeededRandom.hashSeed(document.nodes.map(n => n.id).join('\n'));
+    
+    this.spatialOptimizer.optimize(document.nodes, document.links, {
+      useForceDirected,
+      useCollisionResolution: true,
+      useLayoutTemplate: template,
+      forceConfig: options.forceConfig,
+      maxIterations: options.maxIterations,
+      minSeparation: options.minSeparation,
+      random: new SeededRandom(seed)
+    });
+    
+    if (document.nodes.length > 0) {
+      document.camera = this.calculateOptimalCamera(document.nodes);
+    }
+    
+    this.lastLayoutDecision = {
+      requested: layout,
+      layout: template ?? 'force-only',
+      reason: 'relayout of an existing document',
+      forceDirected: useForceDirected,
+      seed,
+      maxIterations: useForceDirected ? options.maxIterations ?? 100 : undefined,
+      minSeparation: options.minSeparation,
+      forceConfig: options.forceConfig,
+    };
+    
+    return document;
+  }
+  
+  /**
+   * Layout chosen for the most recently transformed or relaid out document, with the reason
+   */
+  getLayoutDecision(): LayoutDecision | null {
+    return this.lastLayoutDecision;
+  }
+  
+  /**
+   * Front matter of the most recently transformed document, including
+   * keys without an NM3 meta equivalent (see FrontMatter.extra)
+   */
+  getFrontMatter(): FrontMatter | null {
+    return this.lastFrontMatter;
+  }
+  
+  /**
+   * Problems with the front matter of the most recently transformed document
+   * (or of each vault file, prefixed with its path)
+   */
+  getFrontMatterWarnings(): string[] {
+    return this.frontMatterWarnings;
+  }
+  
   private buildGraph(sections: ParsedSection[], references: CrossReference[]): void {
     this.graph.clear();
     
@@ -120,10 +364,12 @@ export class EnhancedTransformer {
   private createEnhancedNodes(
     sections: ParsedSection[],
     classifications: Map<string, ContentClassification>,
-    references: CrossReference[]
+    references: CrossReference[],
+    calloutStyles: CalloutStyles = {}
   ): EnhancedNode[] {
     const nodes: EnhancedNode[] = [];
     const parentColors = new Map<string, string>();
+    const centrality = this.calculateCentrality();
     
     for (const section of sections) {
       const classification = classifications.get(section.id)!;
@@ -131,23 +377,31 @@ export class EnhancedTransformer {
       // Determine parent color for hierarchy consideration
       const parentColor = section.parent ? parentColors.get(section.parent) : undefined;
       
+      // Authored nm3 directives win over the heuristics
+      const directive = section.directives;
+      
+      // Callout nodes look like their kind
+      const callout = section.block?.kind === 'callout' ? calloutStyle(section.callouts![0], calloutStyles) : undefined;
+      
       // Intelligent shape assignment
-      const shape = this.shapeAssigner.assignShape(section, classification);
+      const shape = directive?.type || callout?.shape || this.shapeAssigner.assignShape(section, classification);
       
       // Intelligent color mapping
-      const color = this.colorMapper.assignColor(section, classification, parentColor);
+      const color = directive?.color || callout?.color ||
+        this.colorMapper.assignColor(section, classification, parentColor, calloutStyles);
       parentColors.set(section.id, color);
       
       // Calculate importance-based scale
-      const scale = this.calculateImportanceScale(section, classification, references);
+      const scale = directive?.scale ??
+        this.calculateImportanceScale(section, classification, references, centrality.get(section.id) ?? 0);
       
       // Create enhanced node
       const node: EnhancedNode = {
         id: section.id,
         type: sanitizeShape(shape) as any,
-        x: 0, // Will be set by spatial optimizer
-        y: 0,
-        z: 0,
+        x: directive?.pin?.x ?? 0, // Will be set by spatial optimizer unless pinned
+        y: directive?.pin?.y ?? 0,
+        z: directive?.pin?.z ?? 0,
         scale,
         color: sanitizeColor(color),
         title: section.title,
@@ -158,7 +412,7 @@ export class EnhancedTransformer {
       
       // Add rotation for visual variety on certain shapes
       if (shape === 'pyramid' || shape === 'torus') {
-        node['rotation-y'] = Math.random() * Math.PI * 2;
+        node['rotation-y'] = this.random.next() * Math.PI * 2;
       }
       
       nodes.push(node);
@@ -170,7 +424,8 @@ export class EnhancedTransformer {
   private calculateImportanceScale(
     section: ParsedSection,
     classification: ContentClassification,
-    references: CrossReference[]
+    references: CrossReference[],
+    centrality: number
   ): number {
     let importance = 1.0;
     
@@ -200,42 +455,44 @@ export class EnhancedTransformer {
     }
     
     // Graph centrality (if node is central to the document structure)
-    try {
-      const centrality = this.calculateCentrality(section.id);
-      importance += centrality * 0.3;
-    } catch (e) {
-      // Node might not be in graph or no paths
-    }
+    importance += centrality * 0.3;
     
     // Clamp to reasonable range
     return Math.min(Math.max(importance, 0.5), 2.5);
   }
   
-  private calculateCentrality(nodeId: string): number {
-    if (!this.graph.hasNode(nodeId)) return 0;
-    
-    // Simple centrality: number of shortest paths passing through this node
-    let centrality = 0;
-    const allNodes = this.graph.nodes();
+  /**
+   * Betweenness centrality of every node: the share of shortest paths
+   * between two other nodes that pass through it, from 0 to 1. Brandes'
+   * algorithm needs one Dijkstra run per node rather than one per pair.
+   */
+  private calculateCentrality(): Map<string, number> {
+    const allNodes: string[] = this.graph.nodes();
+    const centrality = new Map<string, number>(allNodes.map(node => [node, 0]));
     
     for (const source of allNodes) {
-      for (const target of allNodes) {
-        if (source !== target && source !== nodeId && target !== nodeId) {
-          try {
-            const path = dijkstra.bidirectional(this.graph, source, target);
-            if (path && path.includes(nodeId)) {
-              centrality++;
-            }
-          } catch (e) {
-            // No path exists
-          }
+      // Nodes by distance from source, their predecessors on shortest paths and shortest path counts
+      const [order, predecessors, paths] = dijkstra.brandes(this.graph, source);
+      const dependency = new Map<string, number>();
+      
+      for (let i = order.length - 1; i >= 0; i--) {
+        const node = order[i];
+        const share = (1 + (dependency.get(node) ?? 0)) / paths[node];
+        for (const predecessor of predecessors[node]) {
+          dependency.set(predecessor, (dependency.get(predecessor) ?? 0) + paths[predecessor] * share);
+        }
+        if (node !== source) {
+          centrality.set(node, centrality.get(node)! + (dependency.get(node) ?? 0));
         }
       }
     }
     
-    // Normalize
+    // Normalize by the number of ordered pairs of other nodes
     const maxPossible = (allNodes.length - 1) * (allNodes.length - 2);
-    return maxPossible > 0 ? centrality / maxPossible : 0;
+    for (const [node, value] of centrality) {
+      centrality.set(node, maxPossible > 0 ? value / maxPossible : 0);
+    }
+    return centrality;
   }
   
   private createIntelligentLinks(
@@ -301,6 +558,10 @@ export class EnhancedTransformer {
   ): NM3Link['type'] {
     if (context) {
       const ctx = context.toLowerCase();
+      // [[node-id|requires]] names the link type directly
+      if (refType === 'explicit' && LINK_TYPES.includes(ctx.trim() as any)) {
+        return ctx.trim() as NM3Link['type'];
+      }
       if (ctx.includes('based on')) return 'derives-from';
       if (ctx.includes('leads to') || ctx.includes('then')) return 'leads-to';
       if (ctx.includes('require')) return 'requires';
@@ -324,68 +585,83 @@ export class EnhancedTransformer {
     return 'pastel-gray';
   }
   
-  private detectLayoutType(nodes: EnhancedNode[]): LayoutType | undefined {
-    const titles = nodes.map(n => n.title?.toLowerCase() || '');
+  private detectLayoutType(
+    nodes: EnhancedNode[],
+    sections: ParsedSection[]
+  ): { layout?: LayoutType; reason: string } {
+    const titles = nodes.map(n => n.title || '');
+    const findTitle = (keywords: string[]) =>
+      titles.find(t => keywords.some(k => t.toLowerCase().includes(k)));
     
     // Research paper indicators
-    if (titles.some(t => 
-      t.includes('abstract') || 
-      t.includes('method') || 
-      t.includes('result')
-    )) {
-      return 'research-paper';
+    let match = findTitle(['abstract', 'method', 'result']);
+    if (match) {
+      return { layout: 'research-paper', reason: `section "${match}" suggests a research paper` };
     }
     
     // Documentation indicators
-    if (titles.some(t => 
-      t.includes('api') || 
-      t.includes('reference') || 
-      t.includes('documentation')
-    )) {
-      return 'documentation';
+    match = findTitle(['api', 'reference', 'documentation']);
+    if (match) {
+      return { layout: 'documentation', reason: `section "${match}" suggests documentation` };
     }
     
     // Project planning indicators
-    if (titles.some(t => 
-      t.includes('task') || 
-      t.includes('goal') || 
-      t.includes('milestone')
-    )) {
-      return 'project-planning';
+    match = findTitle(['task', 'goal', 'milestone']);
+    if (match) {
+      return { layout: 'project-planning', reason: `section "${match}" suggests a project plan` };
+    }
+    const tracked = sections.filter(s => s.completion).length;
+    if (tracked >= 2 && tracked * 3 >= sections.length) {
+      return { layout: 'project-planning', reason: `${tracked} of ${sections.length} sections have task lists` };
     }
     
     // Tutorial indicators
-    if (titles.some(t => 
-      t.includes('step') || 
-      t.includes('tutorial') || 
-      t.includes('guide')
-    )) {
-      return 'tutorial';
+    match = findTitle(['step', 'tutorial', 'guide']);
+    if (match) {
+      return { layout: 'tutorial', reason: `section "${match}" suggests a tutorial` };
     }
     
     // Hierarchical indicators
-    const maxLevel = Math.max(...nodes.map((n: any) => n.level || 1));
+    const maxLevel = Math.max(1, ...sections.map(s => s.level || 1));
     if (nodes.length > 10 && maxLevel >= 4) {
-      return 'hierarchical';
+      return {
+        layout: 'hierarchical',
+        reason: `${nodes.length} sections nested ${maxLevel} heading levels deep`
+      };
     }
     
     // Default: no template, use force-directed only
-    return undefined;
+    return { reason: 'no template keywords found in section titles' };
   }
   
-  private optimizeSpatialLayout(nodes: EnhancedNode[], links: NM3Link[]): void {
-    const nodeCount = nodes.length;
-    const layoutType = this.detectLayoutType(nodes);
-    
-    console.error(`📐 Layout type: ${layoutType || 'force-directed'}`);
-    
-    // Configure optimization based on document size
+  /**
+   * Positions requested through nm3 `pin=x,y,z` directives, keyed by node id
+   */
+  protected collectPinnedPositions(
+    sections: ParsedSection[]
+  ): Map<string, { x: number; y: number; z: number }> {
+    const pinned = new Map<string, { x: number; y: number; z: number }>();
+    for (const section of sections) {
+      if (section.directives?.pin) {
+        pinned.set(section.id, section.directives.pin);
+      }
+    }
+    return pinned;
+  }
+  
+  /**
+   * Default optimization settings per document size
+   */
+  private getSizeTier(nodeCount: number): {
+    forceDirected: boolean;
+    maxIterations?: number;
+    minSeparation?: number;
+    forceConfig?: Partial<ForceConfig>;
+  } {
     if (nodeCount < 20) {
       // Small documents: Best quality
-      this.spatialOptimizer.optimize(nodes, links, {
-        useForceDirected: true,
-        useCollisionResolution: true,
-        useLayoutTemplate: layoutType,
+      return {
+        forceDirected: true,
         maxIterations: 100,
         forceConfig: {
           repulsionStrength: 40,
@@ -395,13 +671,11 @@ export class EnhancedTransformer {
           minDistance: 3,
           maxDistance: 30
         }
-      });
+      };
     } else if (nodeCount < 100) {
       // Medium documents: Balanced
-      this.spatialOptimizer.optimize(nodes, links, {
-        useForceDirected: true,
-        useCollisionResolution: true,
-        useLayoutTemplate: layoutType,
+      return {
+        forceDirected: true,
         maxIterations: 60,
         forceConfig: {
           repulsionStrength: 50,
@@ -411,14 +685,124 @@ export class EnhancedTransformer {
           minDistance: 3,
           maxDistance: 30
         }
-      });
+      };
+    } else if (nodeCount < 5000) {
+      // Large documents: Barnes–Hut keeps each iteration near O(n log n)
+      return {
+        forceDirected: true,
+        maxIterations: 40,
+        minSeparation: 2.5,
+        forceConfig: {
+          repulsionStrength: 50,
+          attractionStrength: 0.1,
+          centeringStrength: 0.01,
+          damping: 0.8,
+          minDistance: 3,
+          maxDistance: 30,
+          theta: 0.8
+        }
+      };
+    }
+    
+    // Huge documents: Performance priority
+    return {
+      forceDirected: false,  // Skip for performance
+      minSeparation: 2.5
+    };
+  }
+  
+  /**
+   * Resolve the caller's layout request against the document into a concrete plan
+   */
+  private chooseLayout(
+    nodes: EnhancedNode[],
+    sections: ParsedSection[],
+    options: LayoutOptions
+  ): LayoutDecision {
+    const requested = options.layout || 'auto';
+    const tier = this.getSizeTier(nodes.length);
+    const forceTuned = options.forceConfig !== undefined || options.maxIterations !== undefined;
+    
+    let layout: LayoutDecision['layout'];
+    let reason: string;
+    
+    if (options.previous) {
+      layout = 'incremental';
+      reason = `previous revision with ${options.previous.nodes.length} node(s) supplied`;
+      if (requested !== 'auto') {
+        reason += `; requested ${requested} layout not applied`;
+      }
+    } else if (isForceLayout(requested)) {
+      layout = 'force-only';
+      reason = 'force-directed layout requested';
+    } else if (requested !== 'auto') {
+      layout = requested;
+      reason = `${requested} template requested`;
+    } else {
+      const detected = this.detectLayoutType(nodes, sections);
+      if (detected.layout) {
+        layout = detected.layout;
+        reason = detected.reason;
+      } else if (tier.forceDirected) {
+        layout = 'force-only';
+        reason = `${detected.reason}; using force-directed layout`;
+      } else {
+        layout = 'concept-map';
+        reason = `${detected.reason}; concept-map used for a large document`;
+      }
+    }
+    
+    // Force simulation is skipped for large documents unless explicitly asked for
+    let forceDirected = tier.forceDirected;
+    if (!forceDirected && (layout === 'force-only' || forceTuned)) {
+      forceDirected = true;
+      reason += `; force simulation enabled on request despite ${nodes.length} nodes`;
+    } else if (!forceDirected) {
+      reason += `; force simulation skipped for ${nodes.length} nodes`;
+    }
+    
+    return {
+      requested,
+      layout,
+      reason,
+      forceDirected,
+      seed: this.random.seed,
+      maxIterations: forceDirected ? options.maxIterations ?? tier.maxIterations ?? 100 : undefined,
+      minSeparation: options.minSeparation ?? tier.minSeparation,
+      forceConfig: forceDirected ? { ...tier.forceConfig, ...options.forceConfig } : undefined
+    };
+  }
+  
+  protected optimizeSpatialLayout(
+    nodes: EnhancedNode[],
+    links: NM3Link[],
+    sections: ParsedSection[],
+    options: LayoutOptions = {}
+  ): LayoutDecision {
+    const decision = this.chooseLayout(nodes, sections, options);
+    
+    console.error(`📐 Layout type: ${decision.layout === 'force-only' ? 'force-directed' : decision.layout} ` +
+                  `(${decision.reason})`);
+    
+    const config = {
+      useForceDirected: decision.forceDirected,
+      useCollisionResolution: true,
+      pinnedPositions: this.collectPinnedPositions(sections),
+      maxIterations: decision.maxIterations,
+      minSeparation: decision.minSeparation,
+      forceConfig: decision.forceConfig,
+      random: this.random
+    };
+    
+    if (decision.layout === 'incremental') {
+      const previousPositions = new Map(
+        options.previous!.nodes.map(node => [node.id, { x: node.x, y: node.y, z: node.z }])
+      );
+      decision.incremental = this.spatialOptimizer.optimizeIncremental(nodes, links, previousPositions, config);
     } else {
-      // Large documents: Performance priority
       this.spatialOptimizer.optimize(nodes, links, {
-        useForceDirected: false,  // Skip for performance
-        useCollisionResolution: true,
-        useLayoutTemplate: layoutType || 'concept-map',
-        minSeparation: 2.5
+        ...config,
+        useLayoutTemplate: decision.layout === 'force-only' ? undefined : decision.layout as LayoutType
       });
     }
     
@@ -427,6 +811,62 @@ export class EnhancedTransformer {
     console.error(`   Spatial bounds: X[${bounds.minX.toFixed(1)}, ${bounds.maxX.toFixed(1)}] ` +
                   `Y[${bounds.minY.toFixed(1)}, ${bounds.maxY.toFixed(1)}] ` +
                   `Z[${bounds.minZ.toFixed(1)}, ${bounds.maxZ.toFixed(1)}]`);
+    
+    this.lastLayoutDecision = decision;
+    return decision;
+  }
+  
+  /**
+   * Lay out each file with the usual layout selection, then place the files
+   * as clusters. With a previous revision the whole scene is laid out
+   * incrementally instead, so clusters stay where they were.
+   */
+  private layoutVault(
+    nodes: EnhancedNode[],
+    links: NM3Link[],
+    fileSections: Map<string, ParsedSection[]>,
+    options: LayoutOptions
+  ): void {
+    if (options.previous) {
+      this.optimizeSpatialLayout(nodes, links, [...fileSections.values()].flat(), options);
+      return;
+    }
+    
+    const nodeIndex = new Map(nodes.map(node => [node.id, node]));
+    const clusters: EnhancedNode[][] = [];
+    const decisions: LayoutDecision[] = [];
+    
+    for (const [file, group] of fileSections) {
+      const ids = new Set(group.map(section => section.id));
+      const clusterNodes = group.map(section => nodeIndex.get(section.id)!);
+      const clusterLinks = links.filter(link => ids.has(link.from) && ids.has(link.to));
+      
+      console.error(`📄 ${file}`);
+      decisions.push(this.optimizeSpatialLayout(clusterNodes, clusterLinks, group, options));
+      clusters.push(clusterNodes);
+    }
+    
+    this.spatialOptimizer.arrangeClusters(clusters, links, this.random);
+    
+    const counts = new Map<string, number>();
+    for (const decision of decisions) {
+      const name = decision.layout === 'force-only' ? 'force-directed' : decision.layout;
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    const summary = [...counts].map(([name, count]) => `${count} ${name}`).join(', ');
+    const forceDirected = decisions.filter(decision => decision.forceDirected);
+    
+    this.lastLayoutDecision = {
+      requested: options.layout || 'auto',
+      layout: 'file-clusters',
+      reason: `${clusters.length} file(s) laid out separately (${summary}) and arranged as clusters`,
+      forceDirected: forceDirected.length > 0,
+      seed: this.random.seed,
+      maxIterations: forceDirected.length > 0
+        ? Math.max(...forceDirected.map(decision => decision.maxIterations ?? 0))
+        : undefined,
+      minSeparation: options.minSeparation
+    };
   }
   
   protected calculateOptimalCamera(nodes: EnhancedNode[]) {
@@ -475,6 +915,14 @@ export class EnhancedTransformer {
     if (classification.contentType.hasCriticalInfo) tags.push('critical');
     if (section.metadata.hasCode) tags.push('code');
     if (section.children.length > 0) tags.push('parent');
+    if (section.block) tags.push(`block-${section.block.kind}`);
+    if (section.block?.kind === 'callout') tags.push(`callout-${section.callouts![0].kind}`);
+    if (section.completion) {
+      // Read back by the project-planning template, also when relaying out an NM3 file
+      tags.push(`progress-${Math.round(section.completion.ratio * 100)}`);
+      if (section.completion.ratio === 1) tags.push('complete');
+      if (section.tasks!.some(task => task.blocker && !task.checked)) tags.push('blocked');
+    }
     
     return tags.join(',');
   }
@@ -551,7 +999,7 @@ export class EnhancedTransformer {
         "look-at-x": 0,
         "look-at-y": 0,
         "look-at-z": 0,
-        fov: 75
+        fov: DEFAULT_FOV
       },
       nodes: [],
       links: []
@@ -0,0 +1,114 @@
+// File Roots
+// Directories the server may read markdown and NM3 files from and write output to
+
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Raised when a path lies outside the allowed roots; the server reports it
+ * to the client as an invalid-parameter error
+ */
+export class PathAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+/**
+ * File Roots
+ *
+ * Roots come from the `MARKDOWN3D_ROOTS` environment variable (separated by
+ * `:` on Linux/macOS, `;` on Windows); without it the server's working
+ * directory is the only root. Roots announced by an MCP client narrow these
+ * down: with configured roots only the overlap is allowed, otherwise the
+ * client's roots replace the working directory.
+ *
+ * Paths are normalized, relative paths resolve against the first root, and
+ * symbolic links are followed so a link inside a root cannot lead outside it.
+ */
+export class FileRoots {
+  private configured: string[];
+  private explicit: boolean;
+  private clientRoots: string[] | null = null;
+
+  constructor(roots: string[] = []) {
+    const configured = roots.filter(root => root.trim().length > 0);
+    this.explicit = configured.length > 0;
+    this.configured = (this.explicit ? configured : [process.cwd()]).map(root => path.resolve(root));
+  }
+
+  static fromEnvironment(): FileRoots {
+    return new FileRoots((process.env.MARKDOWN3D_ROOTS ?? '').split(path.delimiter));
+  }
+
+  getRoots(): string[] {
+    if (this.clientRoots === null) {
+      return [...this.configured];
+    }
+    if (!this.explicit) {
+      return [...this.clientRoots];
+    }
+
+    // Overlap of the two lists, whichever side is nested in the other
+    const overlap = [
+      ...this.clientRoots.filter(root => this.configured.some(configured => this.isWithin(root, configured))),
+      ...this.configured.filter(root => this.clientRoots!.some(client => this.isWithin(root, client))),
+    ];
+    return [...new Set(overlap)];
+  }
+
+  /**
+   * Use the roots announced by the MCP client; `null` goes back to the configured roots
+   */
+  setClientRoots(roots: string[] | null): void {
+    this.clientRoots = roots === null ? null : [...new Set(roots.map(root => path.resolve(root)))];
+  }
+
+  /**
+   * Real absolute path of `filePath`, or a PathAccessError when it lies
+   * outside every root. Paths that do not exist yet are checked through their
+   * nearest existing parent, so output files can be validated before writing.
+   */
+  async resolve(filePath: string): Promise<string> {
+    const roots = this.getRoots();
+    if (roots.length === 0) {
+      throw new PathAccessError(`No allowed roots: the client's roots do not overlap ${this.configured.join(', ')}`);
+    }
+
+    const resolved = path.resolve(roots[0], filePath);
+    if (!roots.some(root => this.isWithin(resolved, root))) {
+      throw new PathAccessError(`Path is outside the allowed roots: ${resolved} (allowed: ${roots.join(', ')})`);
+    }
+
+    const real = await this.realPath(resolved);
+    const realRoots = await Promise.all(roots.map(root => this.realPath(root)));
+    if (!realRoots.some(root => this.isWithin(real, root))) {
+      throw new PathAccessError(`Path leads outside the allowed roots through a symbolic link: ${resolved} -> ${real}`);
+    }
+    return real;
+  }
+
+  private async realPath(target: string): Promise<string> {
+    const missing: string[] = [];
+    let existing = target;
+
+    for (;;) {
+      try {
+        return path.join(await fs.realpath(existing), ...missing.reverse());
+      } catch (error: any) {
+        const parent = path.dirname(existing);
+        if ((error.code !== 'ENOENT' && error.code !== 'ENOTDIR') || parent === existing) {
+          throw error;
+        }
+        missing.push(path.basename(existing));
+        existing = parent;
+      }
+    }
+  }
+
+  private isWithin(target: string, root: string): boolean {
+    const relative = path.relative(root, target);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+}
@@ -2,6 +2,8 @@
 // Uses physics simulation (repulsion, attraction, centering) for organic node positioning
 
 import { NM3Node, NM3Link } from '../models/types.js';
+import { SeededRandom } from './seeded-random.js';
+import { Octree, OctreeNode } from './octree.js';
 
 export interface ForceConfig {
   repulsionStrength: number;
@@ -10,8 +12,16 @@ export interface ForceConfig {
   damping: number;
   minDistance: number;
   maxDistance: number;
+  /** Barnes–Hut accuracy: cells with size / distance below theta are aggregated (0 = exact) */
+  theta: number;
+  /** Node count from which the Barnes–Hut approximation replaces the exact all-pairs loop */
+  barnesHutThreshold: number;
 }
 
+// Bodies per octree leaf. Scanning a bucket of bodies is cheaper than
+// descending into cells holding a handful each.
+const BARNES_HUT_LEAF_SIZE = 32;
+
 interface Vector3D {
   x: number;
   y: number;
@@ -34,19 +44,26 @@ export class ForceDirected3D {
       damping: 0.8,
       minDistance: 3,
       maxDistance: 30,
+      theta: 0.8,
+      barnesHutThreshold: 200,
       ...config,
     };
     this.velocities = new Map();
   }
 
   /**
-   * Run force-directed simulation for N iterations
+   * Run force-directed simulation for N iterations.
+   * Nodes listed in fixedIds exert forces but never move.
+   * `random` only breaks ties between coincident nodes, so a given seed
+   * always produces the same layout.
    */
   simulate(
     nodes: NM3Node[],
     links: NM3Link[],
     iterations: number = 100,
-    progressCallback?: (iteration: number, energy: number) => void
+    progressCallback?: (iteration: number, energy: number) => void,
+    fixedIds: Set<string> = new Set(),
+    random: SeededRandom = new SeededRandom(0)
   ): void {
     // Initialize velocities
     this.velocities.clear();
@@ -54,13 +71,19 @@ export class ForceDirected3D {
       this.velocities.set(node.id, { x: 0, y: 0, z: 0 });
     });
 
-    // Build adjacency map for faster lookup
+    // Build adjacency map and id index for faster lookup
     const adjacency = this.buildAdjacencyMap(links);
+    const nodeIndex = new Map(nodes.map(node => [node.id, node]));
+
+    const approximate = this.config.theta > 0 && nodes.length >= this.config.barnesHutThreshold;
+    if (approximate) {
+      console.error(`   Using Barnes–Hut approximation (theta = ${this.config.theta})`);
+    }
 
     // Run simulation
     for (let iter = 0; iter < iterations; iter++) {
-      const forces = this.calculateForces(nodes, adjacency);
-      const energy = this.applyForces(nodes, forces);
+      const forces = this.calculateForces(nodes, adjacency, nodeIndex, random, approximate);
+      const energy = this.applyForces(nodes, forces, fixedIds);
 
       if (progressCallback) {
         progressCallback(iter, energy);
@@ -100,7 +123,10 @@ export class ForceDirected3D {
    */
   private calculateForces(
     nodes: NM3Node[],
-    adjacency: Map<string, Set<string>>
+    adjacency: Map<string, Set<string>>,
+    nodeIndex: Map<string, NM3Node>,
+    random: SeededRandom,
+    approximate: boolean
   ): Map<string, Vector3D> {
     const forces = new Map<string, Vector3D>();
 
@@ -120,28 +146,60 @@ export class ForceDirected3D {
     centerY /= nodes.length;
     centerZ /= nodes.length;
 
-    // Apply forces for each node
-    for (let i = 0; i < nodes.length; i++) {
-      const node1 = nodes[i];
-      const force = forces.get(node1.id)!;
-
-      // 1. Repulsion forces between all nodes (Coulomb's law)
-      for (let j = 0; j < nodes.length; j++) {
-        if (i === j) continue;
-
-        const node2 = nodes[j];
-        const dx = node1.x - node2.x;
-        const dy = node1.y - node2.y;
-        const dz = node1.z - node2.z;
-        const distSquared = dx * dx + dy * dy + dz * dz;
+    const octree = approximate ? this.buildOctree(nodes) : null;
+
+    // Node currently being updated; shared by the closures below so they are created once
+    let node1: NM3Node = nodes[0];
+    let force: Vector3D = forces.get(node1.id)!;
+
+    // 1. Repulsion forces between all nodes (Coulomb's law)
+    const { repulsionStrength, minDistance, maxDistance } = this.config;
+    const maxDistanceSquared = maxDistance * maxDistance;
+    const repel = (mass: number, bx: number, by: number, bz: number) => {
+      const dx = node1.x - bx;
+      const dy = node1.y - by;
+      const dz = node1.z - bz;
+      const distSquared = dx * dx + dy * dy + dz * dz;
+
+      if (distSquared === 0) {
+        // Coincident nodes have no direction to repel along; pick one
+        const direction = random.unitVector();
+        const repulsion = mass * repulsionStrength / (minDistance ** 2 + 0.1);
+        force.x += direction.x * repulsion;
+        force.y += direction.y * repulsion;
+        force.z += direction.z * repulsion;
+      } else if (distSquared < maxDistanceSquared) {
+        // F = k / d^2
         const dist = Math.sqrt(distSquared);
+        const repulsion = mass * repulsionStrength / (distSquared + 0.1);
+        force.x += (dx / dist) * repulsion;
+        force.y += (dy / dist) * repulsion;
+        force.z += (dz / dist) * repulsion;
+      }
+    };
+
+    const visitBody = (mass: number, bx: number, by: number, bz: number, body?: OctreeNode) => {
+      if (body && body.data === node1) return;
+      repel(mass, bx, by, bz);
+    };
 
-        if (dist > 0 && dist < this.config.maxDistance) {
-          // F = k / d^2
-          const repulsion = this.config.repulsionStrength / (distSquared + 0.1);
-          force.x += (dx / dist) * repulsion;
-          force.y += (dy / dist) * repulsion;
-          force.z += (dz / dist) * repulsion;
+    // Apply forces for each node
+    for (let i = 0; i < nodes.length; i++) {
+      node1 = nodes[i];
+      force = forces.get(node1.id)!;
+
+      if (octree) {
+        // Barnes–Hut: distant clusters act as a single body at their center of mass
+        octree.visitApproximate(
+          node1.x, node1.y, node1.z,
+          this.config.theta,
+          this.config.maxDistance,
+          visitBody
+        );
+      } else {
+        for (let j = 0; j < nodes.length; j++) {
+          if (i === j) continue;
+          repel(1, nodes[j].x, nodes[j].y, nodes[j].z);
         }
       }
 
@@ -149,7 +207,7 @@ export class ForceDirected3D {
       const neighbors = adjacency.get(node1.id);
       if (neighbors) {
         for (const neighborId of neighbors) {
-          const node2 = nodes.find(n => n.id === neighborId);
+          const node2 = nodeIndex.get(neighborId);
           if (!node2) continue;
 
           const dx = node2.x - node1.x;
@@ -185,11 +243,14 @@ export class ForceDirected3D {
    */
   private applyForces(
     nodes: NM3Node[],
-    forces: Map<string, Vector3D>
+    forces: Map<string, Vector3D>,
+    fixedIds: Set<string>
   ): number {
     let totalEnergy = 0;
 
     for (const node of nodes) {
+      if (fixedIds.has(node.id)) continue;
+
       const force = forces.get(node.id)!;
       const velocity = this.velocities.get(node.id)!;
 
@@ -210,6 +271,35 @@ export class ForceDirected3D {
     return totalEnergy / nodes.length;
   }
 
+  /**
+   * Index current node positions for the Barnes–Hut traversal
+   */
+  private buildOctree(nodes: NM3Node[]): Octree {
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+    for (const node of nodes) {
+      minX = Math.min(minX, node.x);
+      minY = Math.min(minY, node.y);
+      minZ = Math.min(minZ, node.z);
+      maxX = Math.max(maxX, node.x);
+      maxY = Math.max(maxY, node.y);
+      maxZ = Math.max(maxZ, node.z);
+    }
+
+    const octree = new Octree({
+      minX: minX - 1, minY: minY - 1, minZ: minZ - 1,
+      maxX: maxX + 1, maxY: maxY + 1, maxZ: maxZ + 1,
+    }, BARNES_HUT_LEAF_SIZE);
+
+    for (const node of nodes) {
+      octree.insert({ id: node.id, x: node.x, y: node.y, z: node.z, radius: 0, data: node });
+    }
+    octree.computeMassDistribution();
+
+    return octree;
+  }
+
   /**
    * Reset velocities
    */
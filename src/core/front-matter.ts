@@ -0,0 +1,147 @@
+// YAML Front Matter Extraction
+// Splits a leading `---` YAML block from markdown and maps it onto NM3 metadata
+
+import { parse as parseYAML } from 'yaml';
+import { NM3Document } from '../models/types.js';
+
+export interface FrontMatter {
+  title?: string;
+  author?: string;
+  tags?: string;
+  description?: string;
+  created?: string;
+  modified?: string;
+  /** Keys that have no NM3 meta equivalent, kept verbatim for other features */
+  extra: Record<string, unknown>;
+}
+
+export interface FrontMatterResult {
+  frontMatter: FrontMatter | null;
+  body: string;
+  raw?: string;
+  /** Why a block that looked like front matter was left in the body */
+  warning?: string;
+}
+
+const KNOWN_KEYS = ['title', 'author', 'tags', 'description', 'created', 'modified'] as const;
+
+/**
+ * Front matter parser - recognizes a YAML block delimited by `---` (closing
+ * `---` or `...`) at the very start of a document
+ */
+export class FrontMatterParser {
+  // The block may have no lines at all; the lazy `??` tries that first so
+  // `---\n---` never runs on to a later thematic break
+  private readonly pattern = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)??(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+  /**
+   * Extract front matter and return the remaining markdown body.
+   * Malformed YAML is left in the body untouched and reported as a warning.
+   */
+  extract(markdown: string): FrontMatterResult {
+    const match = markdown.match(this.pattern);
+    if (!match) {
+      return { frontMatter: null, body: markdown };
+    }
+
+    let data: unknown;
+    try {
+      data = parseYAML(match[1] ?? '');
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { frontMatter: null, body: markdown, warning: `Ignoring malformed front matter: ${reason}` };
+    }
+
+    const body = markdown.substring(match[0].length);
+
+    // An empty block (or a scalar) carries no usable keys but is still stripped
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { frontMatter: { extra: {} }, body, raw: match[1] ?? '' };
+    }
+
+    return {
+      frontMatter: this.normalize(data as Record<string, unknown>),
+      body,
+      raw: match[1],
+    };
+  }
+
+  /**
+   * Map front matter onto document metadata. Only keys present in the
+   * front matter are overwritten.
+   */
+  applyToMeta(meta: NM3Document['meta'], frontMatter: FrontMatter | null): void {
+    if (!frontMatter) return;
+
+    for (const key of KNOWN_KEYS) {
+      const value = frontMatter[key];
+      if (value) {
+        meta[key] = value;
+      }
+    }
+  }
+
+  private normalize(data: Record<string, unknown>): FrontMatter {
+    const frontMatter: FrontMatter = { extra: {} };
+
+    for (const [key, value] of Object.entries(data)) {
+      const normalizedKey = key.toLowerCase();
+
+      switch (normalizedKey) {
+        case 'title':
+        case 'author':
+        case 'description':
+          if (value !== null && value !== undefined) {
+            frontMatter[normalizedKey] = String(value).trim();
+          }
+          break;
+        case 'tags':
+        case 'keywords':
+          frontMatter.tags = this.normalizeTags(value) || frontMatter.tags;
+          break;
+        case 'created':
+        case 'date':
+          frontMatter.created = this.normalizeDate(value) || frontMatter.created;
+          break;
+        case 'modified':
+        case 'updated':
+        case 'lastmod':
+          frontMatter.modified = this.normalizeDate(value) || frontMatter.modified;
+          break;
+        case 'authors':
+          if (Array.isArray(value) && !frontMatter.author) {
+            frontMatter.author = value.map(v => String(v).trim()).join(', ');
+          }
+          break;
+        default:
+          frontMatter.extra[key] = value;
+      }
+    }
+
+    return frontMatter;
+  }
+
+  private normalizeTags(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      const tags = value.map(v => String(v).trim()).filter(v => v.length > 0);
+      return tags.length > 0 ? tags.join(',') : undefined;
+    }
+    if (typeof value === 'string' && value.trim()) {
+      // "a, b" style; tags may contain spaces ("machine learning")
+      const tags = value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+      return tags.length > 0 ? tags.join(',') : undefined;
+    }
+    return undefined;
+  }
+
+  private normalizeDate(value: unknown): string | undefined {
+    if (value instanceof Date && !isNaN(value.getTime())) {
+      return value.toISOString();
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      const text = String(value).trim();
+      return text || undefined;
+    }
+    return undefined;
+  }
+}
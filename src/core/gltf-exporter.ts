@@ -0,0 +1,345 @@
+// NM3 glTF Exporter
+// Converts an NM3 document into a glTF 2.0 scene (.gltf with embedded buffer, or binary .glb)
+
+import { NM3Document, NM3Node } from '../models/types.js';
+import { COLOR_HEX, DEFAULT_FOV, NM3Color, sanitizeColor, sanitizeShape } from '../constants/validation.js';
+import { MeshData, ShapeGeometry, Vec3 } from './shape-geometry.js';
+
+type Quaternion = [number, number, number, number];
+
+/** The subset of the glTF 2.0 schema this exporter writes */
+export interface GLTFAsset {
+  asset: { version: '2.0'; generator: string };
+  scene: number;
+  scenes: Array<{ name: string; nodes: number[]; extras?: Record<string, unknown> }>;
+  nodes: Array<{
+    name: string;
+    mesh?: number;
+    camera?: number;
+    translation?: Vec3;
+    rotation?: Quaternion;
+    scale?: Vec3;
+    extras?: Record<string, unknown>;
+  }>;
+  meshes: Array<{ name: string; primitives: Array<{ attributes: { POSITION: number; NORMAL: number }; indices: number; material: number }> }>;
+  materials: Array<{
+    name: string;
+    pbrMetallicRoughness: { baseColorFactor: [number, number, number, number]; metallicFactor: number; roughnessFactor: number };
+  }>;
+  cameras: Array<{ name: string; type: 'perspective'; perspective: { yfov: number; znear: number; zfar: number } }>;
+  accessors: Array<{
+    bufferView: number;
+    componentType: number;
+    count: number;
+    type: 'VEC3' | 'SCALAR';
+    min?: number[];
+    max?: number[];
+  }>;
+  bufferViews: Array<{ buffer: number; byteOffset: number; byteLength: number; target: number }>;
+  buffers: Array<{ byteLength: number; uri?: string }>;
+}
+
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+// Link tube radius per unit of NM3 link thickness (matches the HTML viewer)
+const LINK_RADIUS = 0.04;
+
+/**
+ * NM3 glTF Exporter
+ *
+ * - One mesh per (shape, color) pair, shared by every node that uses it
+ * - Node position, rotation-x/y/z and scale become the glTF node transform
+ * - Links become tube meshes in world space
+ * - The NM3 camera becomes a perspective camera node
+ * - Node title, content and tags are kept in `extras`, document meta on the scene
+ */
+export class NM3GLTFExporter {
+  private geometry = new ShapeGeometry();
+
+  exportGLB(document: NM3Document): Buffer {
+    const { gltf, binary } = this.buildAsset(document);
+
+    const json = this.pad(Buffer.from(JSON.stringify(gltf), 'utf-8'), 0x20);
+    const bin = this.pad(binary, 0x00);
+    const totalLength = 12 + 8 + json.length + 8 + bin.length;
+
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(GLB_MAGIC, 0);
+    header.writeUInt32LE(2, 4);
+    header.writeUInt32LE(totalLength, 8);
+
+    return Buffer.concat([
+      header,
+      this.chunkHeader(json.length, GLB_CHUNK_JSON), json,
+      this.chunkHeader(bin.length, GLB_CHUNK_BIN), bin,
+    ]);
+  }
+
+  /**
+   * Text glTF with the binary buffer embedded as a base64 data URI, so the
+   * result is still a single file
+   */
+  exportGLTF(document: NM3Document): string {
+    const { gltf, binary } = this.buildAsset(document);
+    gltf.buffers[0].uri = `data:application/octet-stream;base64,${binary.toString('base64')}`;
+    return JSON.stringify(gltf, null, 2);
+  }
+
+  buildAsset(document: NM3Document): { gltf: GLTFAsset; binary: Buffer } {
+    const gltf: GLTFAsset = {
+      asset: { version: '2.0', generator: 'markdown3d-mcp' },
+      scene: 0,
+      scenes: [{ name: document.meta.title || 'NM3 Scene', nodes: [], extras: { ...document.meta } }],
+      nodes: [],
+      meshes: [],
+      materials: [],
+      cameras: [],
+      accessors: [],
+      bufferViews: [],
+      buffers: [{ byteLength: 0 }],
+    };
+    const chunks: Buffer[] = [];
+    let byteOffset = 0;
+
+    const addView = (data: Buffer, target: number): number => {
+      gltf.bufferViews.push({ buffer: 0, byteOffset, byteLength: data.length, target });
+      chunks.push(data);
+      byteOffset += data.length;
+      // Keep every view 4-byte aligned
+      const padding = (4 - (data.length % 4)) % 4;
+      if (padding > 0) {
+        chunks.push(Buffer.alloc(padding));
+        byteOffset += padding;
+      }
+      return gltf.bufferViews.length - 1;
+    };
+
+    const addMesh = (name: string, mesh: MeshData, material: number): number => {
+      const vertexCount = mesh.positions.length / 3;
+      const positions = Buffer.from(new Float32Array(mesh.positions).buffer);
+      const normals = Buffer.from(new Float32Array(mesh.normals).buffer);
+      const wideIndices = vertexCount > 0xffff;
+      const indices = Buffer.from(
+        (wideIndices ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices)).buffer
+      );
+
+      const { min, max } = this.bounds(mesh.positions);
+      gltf.accessors.push(
+        { bufferView: addView(positions, ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3', min, max },
+        { bufferView: addView(normals, ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3' },
+        {
+          bufferView: addView(indices, ELEMENT_ARRAY_BUFFER),
+          componentType: wideIndices ? UNSIGNED_INT : UNSIGNED_SHORT,
+          count: mesh.indices.length,
+          type: 'SCALAR',
+        }
+      );
+      const first = gltf.accessors.length - 3;
+
+      gltf.meshes.push({
+        name,
+        primitives: [{ attributes: { POSITION: first, NORMAL: first + 1 }, indices: first + 2, material }],
+      });
+      return gltf.meshes.length - 1;
+    };
+
+    const materials = new Map<string, number>();
+    const materialFor = (color: NM3Color): number => {
+      if (!materials.has(color)) {
+        gltf.materials.push({
+          name: color,
+          pbrMetallicRoughness: {
+            baseColorFactor: [...this.linearRGB(COLOR_HEX[color]), 1],
+            metallicFactor: 0,
+            roughnessFactor: 0.8,
+          },
+        });
+        materials.set(color, gltf.materials.length - 1);
+      }
+      return materials.get(color)!;
+    };
+
+    const addNode = (node: GLTFAsset['nodes'][number]): void => {
+      gltf.nodes.push(node);
+      gltf.scenes[0].nodes.push(gltf.nodes.length - 1);
+    };
+
+    // Shape meshes are shared per (shape, color)
+    const shapeMeshes = new Map<string, number>();
+    for (const node of document.nodes) {
+      const type = sanitizeShape(node.type) as NM3Node['type'];
+      const color = sanitizeColor(node.color) as NM3Color;
+      const key = `${type}:${color}`;
+      if (!shapeMeshes.has(key)) {
+        shapeMeshes.set(key, addMesh(`${type}-${color}`, this.geometry.create(type), materialFor(color)));
+      }
+
+      const scale = node.scale ?? 1;
+      addNode({
+        name: node.id,
+        mesh: shapeMeshes.get(key),
+        translation: [node.x, node.y, node.z],
+        rotation: this.eulerToQuaternion(node['rotation-x'] ?? 0, node['rotation-y'] ?? 0, node['rotation-z'] ?? 0),
+        scale: [scale, scale, scale],
+        extras: {
+          title: node.title ?? node.id,
+          content: node.content,
+          ...(node.tags ? { tags: node.tags } : {}),
+          nm3Type: type,
+          nm3Color: color,
+        },
+      });
+    }
+
+    // Links are baked into world-space tubes
+    const positions = new Map(document.nodes.map(node => [node.id, [node.x, node.y, node.z] as Vec3]));
+    for (const link of document.links) {
+      const from = positions.get(link.from);
+      const to = positions.get(link.to);
+      if (!from || !to) continue;
+
+      const color = (link.color ? sanitizeColor(link.color) : 'pastel-gray') as NM3Color;
+      const tube = this.geometry.tube(from, to, LINK_RADIUS * (link.thickness ?? 1), link.curve ?? 0);
+      const name = `link:${link.from}->${link.to}`;
+      addNode({
+        name,
+        mesh: addMesh(name, tube, materialFor(color)),
+        extras: {
+          from: link.from,
+          to: link.to,
+          ...(link.type ? { type: link.type } : {}),
+          thickness: link.thickness ?? 1,
+          curve: link.curve ?? 0,
+        },
+      });
+    }
+
+    // Camera: glTF cameras look down their local -Z axis
+    const camera = document.camera;
+    const eye: Vec3 = [camera['position-x'], camera['position-y'], camera['position-z']];
+    const target: Vec3 = [camera['look-at-x'], camera['look-at-y'], camera['look-at-z']];
+    gltf.cameras.push({
+      name: 'NM3 Camera',
+      type: 'perspective',
+      perspective: { yfov: ((camera.fov ?? DEFAULT_FOV) * Math.PI) / 180, znear: 0.1, zfar: 2000 },
+    });
+    addNode({
+      name: 'NM3 Camera',
+      camera: 0,
+      translation: eye,
+      rotation: this.lookAtQuaternion(eye, target),
+      extras: { lookAt: target },
+    });
+
+    const binary = Buffer.concat(chunks);
+    gltf.buffers[0].byteLength = binary.length;
+
+    return { gltf, binary };
+  }
+
+  /**
+   * Rotation order matches the HTML viewer: R = Ry * Rx * Rz
+   */
+  private eulerToQuaternion(x: number, y: number, z: number): Quaternion {
+    const qx: Quaternion = [Math.sin(x / 2), 0, 0, Math.cos(x / 2)];
+    const qy: Quaternion = [0, Math.sin(y / 2), 0, Math.cos(y / 2)];
+    const qz: Quaternion = [0, 0, Math.sin(z / 2), Math.cos(z / 2)];
+    return this.multiplyQuaternions(this.multiplyQuaternions(qy, qx), qz);
+  }
+
+  private multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+    return [
+      a[3] * b[0] + a[0] * b[3] + a[1] * b[2] - a[2] * b[1],
+      a[3] * b[1] - a[0] * b[2] + a[1] * b[3] + a[2] * b[0],
+      a[3] * b[2] + a[0] * b[1] - a[1] * b[0] + a[2] * b[3],
+      a[3] * b[3] - a[0] * b[0] - a[1] * b[1] - a[2] * b[2],
+    ];
+  }
+
+  /**
+   * Orientation that points local -Z from eye towards target with +Y up
+   */
+  private lookAtQuaternion(eye: Vec3, target: Vec3): Quaternion {
+    const normalize = (v: Vec3): Vec3 => {
+      const l = Math.hypot(v[0], v[1], v[2]) || 1;
+      return [v[0] / l, v[1] / l, v[2] / l];
+    };
+    const cross = (a: Vec3, b: Vec3): Vec3 => [
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0],
+    ];
+
+    const z = normalize([eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]]);
+    let x = cross([0, 1, 0], z);
+    if (Math.hypot(x[0], x[1], x[2]) < 1e-6) x = [1, 0, 0]; // looking straight up or down
+    x = normalize(x);
+    const y = cross(z, x);
+
+    // Rotation matrix with columns x, y, z to quaternion
+    const [m00, m10, m20] = x;
+    const [m01, m11, m21] = y;
+    const [m02, m12, m22] = z;
+    const trace = m00 + m11 + m22;
+
+    if (trace > 0) {
+      const s = 0.5 / Math.sqrt(trace + 1);
+      return [(m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s];
+    } else if (m00 > m11 && m00 > m22) {
+      const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+      return [0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s];
+    } else if (m11 > m22) {
+      const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+      return [(m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s];
+    }
+    const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+    return [(m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s];
+  }
+
+  /**
+   * glTF base colors are linear; the palette is sRGB
+   */
+  private linearRGB(hex: string): [number, number, number] {
+    const value = parseInt(hex.slice(1), 16);
+    const channel = (c: number) => {
+      const srgb = c / 255;
+      const linear = srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+      return Math.round(linear * 10000) / 10000;
+    };
+    return [channel((value >> 16) & 255), channel((value >> 8) & 255), channel(value & 255)];
+  }
+
+  private bounds(positions: number[]): { min: number[]; max: number[] } {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        // Bounds must match the stored 32-bit floats
+        const value = Math.fround(positions[i + axis]);
+        min[axis] = Math.min(min[axis], value);
+        max[axis] = Math.max(max[axis], value);
+      }
+    }
+    return { min, max };
+  }
+
+  private chunkHeader(length: number, type: number): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(length, 0);
+    header.writeUInt32LE(type, 4);
+    return header;
+  }
+
+  private pad(data: Buffer, fill: number): Buffer {
+    const padding = (4 - (data.length % 4)) % 4;
+    return padding === 0 ? data : Buffer.concat([data, Buffer.alloc(padding, fill)]);
+  }
+}
@@ -0,0 +1,313 @@
+// NM3 Graph Exporter
+// Converts an NM3 document into graph interchange formats for Gephi, Cytoscape and Graphviz
+
+import { XMLBuilder } from 'fast-xml-parser';
+import { NM3Document, NM3Link, NM3Node } from '../models/types.js';
+import { COLOR_HEX, NM3Color, sanitizeColor, sanitizeShape } from '../constants/validation.js';
+
+export const GRAPH_FORMATS = ['graphml', 'gexf', 'cytoscape', 'dot'] as const;
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+interface GraphNode {
+  id: string;
+  title: string;
+  content: string;
+  shape: NM3Node['type'];
+  color: NM3Color;
+  hex: string;
+  scale: number;
+  tags: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  thickness: number;
+  color: NM3Color;
+  hex: string;
+}
+
+// Cytoscape and GEXF viewers work in pixels; NM3 positions are in scene units
+const PIXELS_PER_UNIT = 40;
+
+const GEXF_SHAPES: Record<NM3Node['type'], string> = {
+  sphere: 'disc',
+  cube: 'square',
+  cylinder: 'disc',
+  pyramid: 'triangle',
+  torus: 'diamond',
+};
+
+const DOT_SHAPES: Record<NM3Node['type'], string> = {
+  sphere: 'ellipse',
+  cube: 'box',
+  cylinder: 'cylinder',
+  pyramid: 'triangle',
+  torus: 'doublecircle',
+};
+
+/**
+ * NM3 Graph Exporter
+ *
+ * Every format carries the same node attributes (title, content, shape, color,
+ * scale, tags, position) and link attributes (type, thickness, color). Links
+ * whose endpoints are missing are left out, as graph tools reject them.
+ */
+export class NM3GraphExporter {
+  private builder: XMLBuilder;
+
+  constructor() {
+    this.builder = new XMLBuilder({
+      ignoreAttributes: false,
+      format: true,
+      indentBy: '  ',
+      suppressEmptyNode: true,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text'
+    });
+  }
+
+  export(document: NM3Document, format: GraphFormat): string {
+    switch (format) {
+      case 'graphml':
+        return this.toGraphML(document);
+      case 'gexf':
+        return this.toGEXF(document);
+      case 'cytoscape':
+        return this.toCytoscape(document);
+      case 'dot':
+        return this.toDOT(document);
+      default:
+        throw new Error(`Unknown graph format "${format}". Expected one of: ${GRAPH_FORMATS.join(', ')}`);
+    }
+  }
+
+  toGraphML(document: NM3Document): string {
+    const { nodes, edges } = this.collect(document);
+
+    const nodeKeys: Array<[keyof GraphNode, string]> = [
+      ['title', 'string'], ['content', 'string'], ['shape', 'string'], ['color', 'string'],
+      ['hex', 'string'], ['scale', 'double'], ['tags', 'string'],
+      ['x', 'double'], ['y', 'double'], ['z', 'double'],
+    ];
+    const edgeKeys: Array<[keyof GraphEdge, string]> = [
+      ['type', 'string'], ['thickness', 'double'], ['color', 'string'], ['hex', 'string'],
+    ];
+
+    const data = (prefix: string, keys: Array<[string, string]>, values: Record<string, unknown>) =>
+      keys.map(([key]) => ({ '@_key': `${prefix}_${key}`, '#text': String(values[key]) }));
+
+    const xmlObj = {
+      graphml: {
+        '@_xmlns': 'http://graphml.graphdrawing.org/xmlns',
+        '@_xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        '@_xsi:schemaLocation': 'http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd',
+        key: [
+          ...nodeKeys.map(([key, type]) => ({ '@_id': `n_${key}`, '@_for': 'node', '@_attr.name': key, '@_attr.type': type })),
+          ...edgeKeys.map(([key, type]) => ({ '@_id': `e_${key}`, '@_for': 'edge', '@_attr.name': key, '@_attr.type': type })),
+        ],
+        graph: {
+          '@_id': 'G',
+          '@_edgedefault': 'directed',
+          node: nodes.map(node => ({ '@_id': node.id, data: data('n', nodeKeys, { ...node }) })),
+          edge: edges.map(edge => ({
+            '@_id': edge.id,
+            '@_source': edge.source,
+            '@_target': edge.target,
+            data: data('e', edgeKeys, { ...edge }),
+          })),
+        },
+      },
+    };
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + this.builder.build(xmlObj);
+  }
+
+  /**
+   * GEXF 1.3 with the viz module: 3D positions, RGB colors, sizes and shapes
+   */
+  toGEXF(document: NM3Document): string {
+    const { nodes, edges } = this.collect(document);
+
+    const nodeAttributes = ['content', 'shape', 'color', 'scale', 'tags', 'z'] as const;
+    const nodeTypes: Record<string, string> = { scale: 'double', z: 'double' };
+    const edgeAttributes = ['type', 'thickness', 'color'] as const;
+    const edgeTypes: Record<string, string> = { thickness: 'double' };
+
+    const rgb = (hex: string) => {
+      const value = parseInt(hex.slice(1), 16);
+      return { '@_r': (value >> 16) & 255, '@_g': (value >> 8) & 255, '@_b': value & 255 };
+    };
+
+    const xmlObj = {
+      gexf: {
+        '@_xmlns': 'http://gexf.net/1.3',
+        '@_xmlns:viz': 'http://gexf.net/1.3/viz',
+        '@_version': '1.3',
+        meta: {
+          '@_lastmodifieddate': (document.meta.modified || document.meta.created).slice(0, 10),
+          creator: 'markdown3d-mcp',
+          description: document.meta.title,
+        },
+        graph: {
+          '@_mode': 'static',
+          '@_defaultedgetype': 'directed',
+          attributes: [
+            {
+              '@_class': 'node',
+              attribute: nodeAttributes.map(name => ({ '@_id': name, '@_title': name, '@_type': nodeTypes[name] ?? 'string' })),
+            },
+            {
+              '@_class': 'edge',
+              attribute: edgeAttributes.map(name => ({ '@_id': name, '@_title': name, '@_type': edgeTypes[name] ?? 'string' })),
+            },
+          ],
+          nodes: {
+            node: nodes.map(node => ({
+              '@_id': node.id,
+              '@_label': node.title,
+              attvalues: {
+                attvalue: nodeAttributes.map(name => ({ '@_for': name, '@_value': String(node[name]) })),
+              },
+              'viz:color': rgb(node.hex),
+              'viz:position': {
+                '@_x': node.x * PIXELS_PER_UNIT,
+                '@_y': node.y * PIXELS_PER_UNIT,
+                '@_z': node.z * PIXELS_PER_UNIT,
+              },
+              'viz:size': { '@_value': node.scale * 10 },
+              'viz:shape': { '@_value': GEXF_SHAPES[node.shape] },
+            })),
+          },
+          edges: {
+            edge: edges.map(edge => ({
+              '@_id': edge.id,
+              '@_source': edge.source,
+              '@_target': edge.target,
+              '@_label': edge.type,
+              '@_weight': edge.thickness,
+              attvalues: {
+                attvalue: edgeAttributes.map(name => ({ '@_for': name, '@_value': String(edge[name]) })),
+              },
+              'viz:color': rgb(edge.hex),
+              'viz:thickness': { '@_value': edge.thickness },
+            })),
+          },
+        },
+      },
+    };
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + this.builder.build(xmlObj);
+  }
+
+  /**
+   * Cytoscape.js elements JSON; the 2D position is the x/y projection
+   * (screen y points down), the full 3D position stays in `data`
+   */
+  toCytoscape(document: NM3Document): string {
+    const { nodes, edges } = this.collect(document);
+
+    const graph = {
+      data: { name: document.meta.title },
+      elements: {
+        nodes: nodes.map(node => ({
+          data: { ...node, label: node.title },
+          position: { x: node.x * PIXELS_PER_UNIT, y: -node.y * PIXELS_PER_UNIT },
+        })),
+        edges: edges.map(edge => ({
+          data: { ...edge, label: edge.type },
+        })),
+      },
+    };
+
+    return JSON.stringify(graph, null, 2);
+  }
+
+  /**
+   * Graphviz DOT; NM3 attributes are kept as extra `nm3_*` attributes next
+   * to their closest Graphviz equivalents
+   */
+  toDOT(document: NM3Document): string {
+    const { nodes, edges } = this.collect(document);
+    const attributes = (values: Record<string, string | number>) =>
+      Object.entries(values).map(([key, value]) => `${key}=${this.quoteDOT(value)}`).join(', ');
+
+    const lines = [
+      `digraph ${this.quoteDOT(document.meta.title || 'nm3')} {`,
+      '  node [style=filled, fontname="Helvetica"];',
+      '  edge [fontname="Helvetica", fontsize=10];',
+    ];
+
+    for (const node of nodes) {
+      lines.push(`  ${this.quoteDOT(node.id)} [${attributes({
+        label: node.title,
+        shape: DOT_SHAPES[node.shape],
+        fillcolor: node.hex,
+        nm3_shape: node.shape,
+        nm3_color: node.color,
+        nm3_scale: node.scale,
+        nm3_tags: node.tags,
+        nm3_position: `${node.x},${node.y},${node.z}`,
+      })}];`);
+    }
+
+    for (const edge of edges) {
+      lines.push(`  ${this.quoteDOT(edge.source)} -> ${this.quoteDOT(edge.target)} [${attributes({
+        label: edge.type,
+        penwidth: edge.thickness,
+        color: edge.hex,
+        nm3_color: edge.color,
+      })}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private collect(document: NM3Document): { nodes: GraphNode[]; edges: GraphEdge[] } {
+    const nodes = document.nodes.map(node => {
+      const color = sanitizeColor(node.color) as NM3Color;
+      return {
+        id: node.id,
+        title: node.title ?? node.id,
+        content: node.content ?? '',
+        shape: sanitizeShape(node.type) as NM3Node['type'],
+        color,
+        hex: COLOR_HEX[color],
+        scale: node.scale ?? 1,
+        tags: node.tags ?? '',
+        x: node.x,
+        y: node.y,
+        z: node.z,
+      };
+    });
+
+    const ids = new Set(nodes.map(node => node.id));
+    const edges = document.links
+      .filter(link => ids.has(link.from) && ids.has(link.to))
+      .map((link: NM3Link, index) => {
+        const color = (link.color ? sanitizeColor(link.color) : 'pastel-gray') as NM3Color;
+        return {
+          id: `e${index}`,
+          source: link.from,
+          target: link.to,
+          type: link.type ?? '',
+          thickness: link.thickness ?? 1,
+          color,
+          hex: COLOR_HEX[color],
+        };
+      });
+
+    return { nodes, edges };
+  }
+
+  private quoteDOT(value: string | number): string {
+    if (typeof value === 'number') return String(value);
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+  }
+}
@@ -0,0 +1,488 @@
+// NM3 HTML Exporter
+// Produces a single self-contained HTML page that renders an NM3 document with WebGL
+
+import { NM3Document, NM3Node } from '../models/types.js';
+import { COLOR_HEX, DEFAULT_FOV, NM3Color, sanitizeColor, sanitizeShape } from '../constants/validation.js';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Scene description embedded in the page as JSON. Everything the viewer
+ * draws comes from here, so it doubles as a stable snapshot of the export.
+ */
+export interface HTMLScene {
+  title: string;
+  camera: { position: Vec3; lookAt: Vec3; fov: number };
+  nodes: Array<{
+    id: string;
+    title: string;
+    type: NM3Node['type'];
+    position: Vec3;
+    rotation: Vec3;
+    scale: number;
+    color: string;
+    tags?: string;
+    content: string;
+  }>;
+  links: Array<{
+    from: string;
+    to: string;
+    type?: string;
+    color: string;
+    thickness: number;
+    curve: number;
+  }>;
+}
+
+const SCENE_ELEMENT_ID = 'nm3-scene';
+
+/**
+ * NM3 HTML Exporter - the HTML counterpart of NM3XMLBuilder.
+ * The page has no external dependencies: geometry, shading, orbit camera
+ * and picking are implemented in the inlined script below.
+ */
+export class NM3HTMLExporter {
+  exportHTML(document: NM3Document): string {
+    const scene = this.buildScene(document);
+    const title = this.escapeHTML(scene.title);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="markdown3d-mcp">
+<title>${title}</title>
+<style>${VIEWER_STYLE}</style>
+</head>
+<body>
+<canvas id="view"></canvas>
+<header><h1>${title}</h1><p>Drag to orbit · scroll to zoom · click a shape to read it</p></header>
+<aside id="panel" hidden><button id="close" aria-label="Close">×</button><h2 id="node-title"></h2><p id="node-tags"></p><pre id="node-content"></pre></aside>
+<script type="application/json" id="${SCENE_ELEMENT_ID}">${this.serializeScene(scene)}</script>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Resolve an NM3 document into the viewer's scene: palette names become
+   * hex colors, defaults are filled in and numbers are rounded
+   */
+  buildScene(document: NM3Document): HTMLScene {
+    const camera = document.camera;
+
+    return {
+      title: document.meta.title || 'Untitled',
+      camera: {
+        position: this.vector(camera['position-x'], camera['position-y'], camera['position-z']),
+        lookAt: this.vector(camera['look-at-x'], camera['look-at-y'], camera['look-at-z']),
+        fov: camera.fov ?? DEFAULT_FOV,
+      },
+      nodes: document.nodes.map(node => ({
+        id: node.id,
+        title: node.title || node.id,
+        type: sanitizeShape(node.type) as NM3Node['type'],
+        position: this.vector(node.x, node.y, node.z),
+        rotation: this.vector(node['rotation-x'] ?? 0, node['rotation-y'] ?? 0, node['rotation-z'] ?? 0),
+        scale: this.round(node.scale ?? 1),
+        color: COLOR_HEX[sanitizeColor(node.color) as NM3Color],
+        ...(node.tags ? { tags: node.tags } : {}),
+        content: node.content,
+      })),
+      links: document.links.map(link => ({
+        from: link.from,
+        to: link.to,
+        ...(link.type ? { type: link.type } : {}),
+        color: COLOR_HEX[(link.color ? sanitizeColor(link.color) : 'pastel-gray') as NM3Color],
+        thickness: this.round(link.thickness ?? 1),
+        curve: this.round(link.curve ?? 0),
+      })),
+    };
+  }
+
+  /**
+   * Read the scene JSON back out of an exported page
+   */
+  extractScene(html: string): HTMLScene {
+    const match = html.match(new RegExp(`<script type="application/json" id="${SCENE_ELEMENT_ID}">([\\s\\S]*?)</script>`));
+    if (!match) {
+      throw new Error('No embedded NM3 scene found in HTML');
+    }
+    return JSON.parse(match[1]);
+  }
+
+  /**
+   * JSON that is safe inside a <script> element: "<" is escaped so content
+   * containing "</script>" or "<!--" cannot end the element early
+   */
+  private serializeScene(scene: HTMLScene): string {
+    return JSON.stringify(scene)
+      .replace(/</g, '\\u003c')
+      .replace(/\u2028/g, '\\u2028')
+      .replace(/\u2029/g, '\\u2029');
+  }
+
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private vector(x: number, y: number, z: number): Vec3 {
+    return [this.round(x), this.round(y), this.round(z)];
+  }
+
+  private round(value: number): number {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? 0 : rounded;
+  }
+}
+
+const VIEWER_STYLE = `
+html, body { margin: 0; height: 100%; overflow: hidden; background: #1d1f24; color: #eee; font: 14px/1.4 system-ui, sans-serif; }
+canvas { display: block; width: 100%; height: 100%; cursor: grab; }
+header { position: fixed; top: 12px; left: 16px; pointer-events: none; }
+header h1 { margin: 0; font-size: 18px; font-weight: 600; }
+header p { margin: 2px 0 0; opacity: 0.6; font-size: 12px; }
+aside { position: fixed; top: 12px; right: 12px; bottom: 12px; width: min(420px, 45vw); overflow: auto; padding: 16px 20px; box-sizing: border-box; background: rgba(250, 250, 247, 0.97); color: #222; border-radius: 8px; box-shadow: 0 4px 24px rgba(0, 0, 0, 0.4); }
+aside h2 { margin: 0 24px 4px 0; font-size: 17px; }
+aside p { margin: 0 0 12px; font-size: 12px; color: #777; }
+aside pre { margin: 0; white-space: pre-wrap; word-wrap: break-word; font: 13px/1.5 ui-monospace, monospace; }
+#close { position: absolute; top: 8px; right: 10px; border: 0; background: none; font-size: 22px; cursor: pointer; color: #666; }
+`;
+
+// Minimal WebGL 1 renderer. Kept dependency-free and ES5 so the page opens
+// anywhere without a build step or network access.
+const VIEWER_SCRIPT = `
+(function () {
+  var scene = JSON.parse(document.getElementById('${SCENE_ELEMENT_ID}').textContent);
+  var canvas = document.getElementById('view');
+  var gl = canvas.getContext('webgl', { antialias: true });
+  if (!gl) {
+    document.body.insertAdjacentHTML('beforeend', '<p style="position:fixed;top:45%;width:100%;text-align:center">WebGL is not available in this browser.</p>');
+    return;
+  }
+
+  // ---- Vector and matrix helpers (column-major, like GLSL) ----
+  function sub(a, b) { return [a[0] - b[0], a[1] - b[1], a[2] - b[2]]; }
+  function add(a, b) { return [a[0] + b[0], a[1] + b[1], a[2] + b[2]]; }
+  function mul(a, s) { return [a[0] * s, a[1] * s, a[2] * s]; }
+  function dot(a, b) { return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]; }
+  function cross(a, b) { return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]; }
+  function len(a) { return Math.sqrt(dot(a, a)); }
+  function norm(a) { var l = len(a) || 1; return [a[0] / l, a[1] / l, a[2] / l]; }
+
+  function multiply(a, b) {
+    var out = new Float32Array(16);
+    for (var c = 0; c < 4; c++) {
+      for (var r = 0; r < 4; r++) {
+        out[c * 4 + r] = a[r] * b[c * 4] + a[4 + r] * b[c * 4 + 1] + a[8 + r] * b[c * 4 + 2] + a[12 + r] * b[c * 4 + 3];
+      }
+    }
+    return out;
+  }
+  function perspective(fovDeg, aspect, near, far) {
+    var f = 1 / Math.tan(fovDeg * Math.PI / 360);
+    return new Float32Array([f / aspect, 0, 0, 0, 0, f, 0, 0, 0, 0, (far + near) / (near - far), -1, 0, 0, 2 * far * near / (near - far), 0]);
+  }
+  function lookAt(eye, target, up) {
+    var z = norm(sub(eye, target));
+    var x = norm(cross(up, z));
+    var y = cross(z, x);
+    return new Float32Array([x[0], y[0], z[0], 0, x[1], y[1], z[1], 0, x[2], y[2], z[2], 0, -dot(x, eye), -dot(y, eye), -dot(z, eye), 1]);
+  }
+  function modelMatrix(p, r, s) {
+    var cx = Math.cos(r[0]), sx = Math.sin(r[0]);
+    var cy = Math.cos(r[1]), sy = Math.sin(r[1]);
+    var cz = Math.cos(r[2]), sz = Math.sin(r[2]);
+    // R = Ry * Rx * Rz
+    var m00 = cy * cz + sy * sx * sz, m01 = -cy * sz + sy * sx * cz, m02 = sy * cx;
+    var m10 = cx * sz, m11 = cx * cz, m12 = -sx;
+    var m20 = -sy * cz + cy * sx * sz, m21 = sy * sz + cy * sx * cz, m22 = cy * cx;
+    return new Float32Array([m00 * s, m10 * s, m20 * s, 0, m01 * s, m11 * s, m21 * s, 0, m02 * s, m12 * s, m22 * s, 0, p[0], p[1], p[2], 1]);
+  }
+
+  // ---- Geometry: flat triangle lists of positions and normals ----
+  function builder() {
+    var b = { positions: [], normals: [] };
+    b.tri = function (a, c, d, na, nc, nd) {
+      b.positions.push(a[0], a[1], a[2], c[0], c[1], c[2], d[0], d[1], d[2]);
+      if (!na) { var n = norm(cross(sub(c, a), sub(d, a))); na = nc = nd = n; }
+      b.normals.push(na[0], na[1], na[2], nc[0], nc[1], nc[2], nd[0], nd[1], nd[2]);
+    };
+    b.quad = function (a, c, d, e, na, nc, nd, ne) {
+      b.tri(a, c, d, na, nc, nd);
+      b.tri(a, d, e, na, nd, ne);
+    };
+    return b;
+  }
+
+  function sphere() {
+    var b = builder(), rings = 14, segments = 24;
+    function point(i, j) {
+      var phi = Math.PI * i / rings, theta = 2 * Math.PI * j / segments;
+      return [Math.sin(phi) * Math.cos(theta), Math.cos(phi), Math.sin(phi) * Math.sin(theta)];
+    }
+    for (var i = 0; i < rings; i++) {
+      for (var j = 0; j < segments; j++) {
+        var a = point(i, j), c = point(i + 1, j), d = point(i + 1, j + 1), e = point(i, j + 1);
+        b.quad(a, e, d, c, a, e, d, c);
+      }
+    }
+    return b;
+  }
+
+  function cube() {
+    var b = builder(), h = 0.8;
+    var faces = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+    faces.forEach(function (n) {
+      var u = Math.abs(n[1]) === 1 ? [1, 0, 0] : [0, 1, 0];
+      var v = cross(n, u);
+      var c = mul(n, h), du = mul(u, h), dv = mul(v, h);
+      b.quad(add(add(c, du), dv), add(sub(c, du), dv), sub(sub(c, du), dv), sub(add(c, du), dv), n, n, n, n);
+    });
+    return b;
+  }
+
+  function cylinder() {
+    var b = builder(), segments = 24, r = 0.75, h = 1;
+    for (var j = 0; j < segments; j++) {
+      var t0 = 2 * Math.PI * j / segments, t1 = 2 * Math.PI * (j + 1) / segments;
+      var n0 = [Math.cos(t0), 0, Math.sin(t0)], n1 = [Math.cos(t1), 0, Math.sin(t1)];
+      var top0 = [n0[0] * r, h, n0[2] * r], top1 = [n1[0] * r, h, n1[2] * r];
+      var bot0 = [n0[0] * r, -h, n0[2] * r], bot1 = [n1[0] * r, -h, n1[2] * r];
+      b.quad(bot0, top0, top1, bot1, n0, n0, n1, n1);
+      b.tri([0, h, 0], top1, top0, [0, 1, 0], [0, 1, 0], [0, 1, 0]);
+      b.tri([0, -h, 0], bot0, bot1, [0, -1, 0], [0, -1, 0], [0, -1, 0]);
+    }
+    return b;
+  }
+
+  function pyramid() {
+    var b = builder(), h = 0.9;
+    var apex = [0, 1.1, 0];
+    var base = [[-h, -0.7, -h], [h, -0.7, -h], [h, -0.7, h], [-h, -0.7, h]];
+    for (var i = 0; i < 4; i++) {
+      b.tri(apex, base[(i + 1) % 4], base[i]);
+    }
+    b.quad(base[0], base[1], base[2], base[3], [0, -1, 0], [0, -1, 0], [0, -1, 0], [0, -1, 0]);
+    return b;
+  }
+
+  function torus() {
+    var b = builder(), major = 0.75, minor = 0.3, rings = 32, sides = 14;
+    function point(i, j) {
+      var u = 2 * Math.PI * i / rings, v = 2 * Math.PI * j / sides;
+      var center = [Math.cos(u) * major, 0, Math.sin(u) * major];
+      var n = [Math.cos(u) * Math.cos(v), Math.sin(v), Math.sin(u) * Math.cos(v)];
+      return { p: add(center, mul(n, minor)), n: n };
+    }
+    for (var i = 0; i < rings; i++) {
+      for (var j = 0; j < sides; j++) {
+        var a = point(i, j), c = point(i + 1, j), d = point(i + 1, j + 1), e = point(i, j + 1);
+        b.quad(a.p, e.p, d.p, c.p, a.n, e.n, d.n, c.n);
+      }
+    }
+    return b;
+  }
+
+  // Links are tubes along a quadratic curve bent sideways by "curve"
+  function linkTube(from, to, thickness, curve) {
+    var b = builder(), steps = curve ? 16 : 1, sides = 6, radius = 0.04 * thickness;
+    var dir = sub(to, from), length = len(dir);
+    var side = cross(norm(dir), [0, 1, 0]);
+    if (len(side) < 1e-3) side = [1, 0, 0];
+    var control = add(mul(add(from, to), 0.5), mul(norm(side), curve * length * 0.5));
+    function at(t) {
+      var a = mul(from, (1 - t) * (1 - t)), c = mul(control, 2 * t * (1 - t)), d = mul(to, t * t);
+      return add(add(a, c), d);
+    }
+    var points = [];
+    for (var i = 0; i <= steps; i++) points.push(at(i / steps));
+    for (var k = 0; k < steps; k++) {
+      var axis = norm(sub(points[k + 1], points[k]));
+      var u = cross(axis, [0, 1, 0]);
+      if (len(u) < 1e-3) u = cross(axis, [1, 0, 0]);
+      u = norm(u);
+      var v = cross(axis, u);
+      for (var s = 0; s < sides; s++) {
+        var a0 = 2 * Math.PI * s / sides, a1 = 2 * Math.PI * (s + 1) / sides;
+        var n0 = add(mul(u, Math.cos(a0)), mul(v, Math.sin(a0)));
+        var n1 = add(mul(u, Math.cos(a1)), mul(v, Math.sin(a1)));
+        b.quad(add(points[k], mul(n0, radius)), add(points[k + 1], mul(n0, radius)),
+               add(points[k + 1], mul(n1, radius)), add(points[k], mul(n1, radius)), n0, n0, n1, n1);
+      }
+    }
+    return b;
+  }
+
+  // ---- GL setup ----
+  var vertexSource =
+    'attribute vec3 position; attribute vec3 normal;' +
+    'uniform mat4 model; uniform mat4 viewProjection; varying vec3 vNormal;' +
+    'void main() { vNormal = mat3(model) * normal; gl_Position = viewProjection * model * vec4(position, 1.0); }';
+  var fragmentSource =
+    'precision mediump float; uniform vec3 color; uniform float highlight; varying vec3 vNormal;' +
+    'void main() { vec3 n = normalize(vNormal); float light = 0.45 + 0.55 * max(dot(n, normalize(vec3(0.4, 0.8, 0.6))), 0.0);' +
+    ' gl_FragColor = vec4(mix(color * light, vec3(1.0), highlight), 1.0); }';
+
+  function compile(type, source) {
+    var shader = gl.createShader(type);
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    return shader;
+  }
+  var program = gl.createProgram();
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  gl.useProgram(program);
+
+  var loc = {
+    position: gl.getAttribLocation(program, 'position'),
+    normal: gl.getAttribLocation(program, 'normal'),
+    model: gl.getUniformLocation(program, 'model'),
+    viewProjection: gl.getUniformLocation(program, 'viewProjection'),
+    color: gl.getUniformLocation(program, 'color'),
+    highlight: gl.getUniformLocation(program, 'highlight')
+  };
+  gl.enableVertexAttribArray(loc.position);
+  gl.enableVertexAttribArray(loc.normal);
+  gl.enable(gl.DEPTH_TEST);
+
+  function upload(geometry) {
+    var positions = gl.createBuffer(), normals = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, positions);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(geometry.positions), gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, normals);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(geometry.normals), gl.STATIC_DRAW);
+    return { positions: positions, normals: normals, count: geometry.positions.length / 3 };
+  }
+
+  function hexToRGB(hex) {
+    var value = parseInt(hex.slice(1), 16);
+    return [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+  }
+
+  var meshes = { sphere: upload(sphere()), cube: upload(cube()), cylinder: upload(cylinder()), pyramid: upload(pyramid()), torus: upload(torus()) };
+  var byId = {};
+  scene.nodes.forEach(function (node) {
+    node.matrix = modelMatrix(node.position, node.rotation, node.scale);
+    node.rgb = hexToRGB(node.color);
+    byId[node.id] = node;
+  });
+  var links = scene.links.filter(function (link) { return byId[link.from] && byId[link.to]; }).map(function (link) {
+    return { mesh: upload(linkTube(byId[link.from].position, byId[link.to].position, link.thickness, link.curve)), rgb: hexToRGB(link.color) };
+  });
+  var identity = new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+
+  // ---- Orbit camera starting from the NM3 camera ----
+  var target = scene.camera.lookAt;
+  var offset = sub(scene.camera.position, target);
+  var distance = len(offset) || 20;
+  var yaw = Math.atan2(offset[0], offset[2]);
+  var pitch = Math.asin(Math.max(-1, Math.min(1, offset[1] / distance)));
+  var viewProjection, selected = null;
+
+  function eye() {
+    return add(target, [distance * Math.cos(pitch) * Math.sin(yaw), distance * Math.sin(pitch), distance * Math.cos(pitch) * Math.cos(yaw)]);
+  }
+
+  function draw(mesh, matrix, rgb, highlight) {
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.positions);
+    gl.vertexAttribPointer(loc.position, 3, gl.FLOAT, false, 0, 0);
+    gl.bindBuffer(gl.ARRAY_BUFFER, mesh.normals);
+    gl.vertexAttribPointer(loc.normal, 3, gl.FLOAT, false, 0, 0);
+    gl.uniformMatrix4fv(loc.model, false, matrix);
+    gl.uniform3fv(loc.color, rgb);
+    gl.uniform1f(loc.highlight, highlight);
+    gl.drawArrays(gl.TRIANGLES, 0, mesh.count);
+  }
+
+  function render() {
+    var ratio = window.devicePixelRatio || 1;
+    var width = canvas.clientWidth * ratio, height = canvas.clientHeight * ratio;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0.114, 0.122, 0.141, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    viewProjection = multiply(perspective(scene.camera.fov, width / height, 0.1, 2000), lookAt(eye(), target, [0, 1, 0]));
+    gl.uniformMatrix4fv(loc.viewProjection, false, viewProjection);
+
+    links.forEach(function (link) { draw(link.mesh, identity, link.rgb, 0); });
+    scene.nodes.forEach(function (node) { draw(meshes[node.type], node.matrix, node.rgb, node === selected ? 0.25 : 0); });
+  }
+
+  // ---- Interaction ----
+  var drag = null;
+  canvas.addEventListener('mousedown', function (event) {
+    drag = { x: event.clientX, y: event.clientY, moved: false };
+    canvas.style.cursor = 'grabbing';
+  });
+  window.addEventListener('mousemove', function (event) {
+    if (!drag) return;
+    var dx = event.clientX - drag.x, dy = event.clientY - drag.y;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    yaw -= dx * 0.005;
+    pitch = Math.max(-1.5, Math.min(1.5, pitch + dy * 0.005));
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    render();
+  });
+  window.addEventListener('mouseup', function (event) {
+    if (drag && !drag.moved && event.target === canvas) pick(event.clientX, event.clientY);
+    drag = null;
+    canvas.style.cursor = 'grab';
+  });
+  canvas.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    distance = Math.max(1, distance * Math.exp(event.deltaY * 0.001));
+    render();
+  }, { passive: false });
+  window.addEventListener('resize', render);
+
+  // Nearest node whose projected radius covers the click
+  function pick(clientX, clientY) {
+    var rect = canvas.getBoundingClientRect(), best = null, bestDepth = Infinity;
+    var focal = rect.height / 2 / Math.tan(scene.camera.fov * Math.PI / 360);
+    scene.nodes.forEach(function (node) {
+      var p = node.position, m = viewProjection;
+      var x = m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12];
+      var y = m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13];
+      var w = m[3] * p[0] + m[7] * p[1] + m[11] * p[2] + m[15];
+      if (w <= 0) return;
+      var sx = rect.left + (x / w + 1) / 2 * rect.width;
+      var sy = rect.top + (1 - y / w) / 2 * rect.height;
+      var radius = Math.max(8, node.scale * focal / w);
+      if (Math.hypot(sx - clientX, sy - clientY) <= radius && w < bestDepth) {
+        best = node;
+        bestDepth = w;
+      }
+    });
+    select(best);
+  }
+
+  var panel = document.getElementById('panel');
+  function select(node) {
+    selected = node;
+    panel.hidden = !node;
+    if (node) {
+      document.getElementById('node-title').textContent = node.title;
+      document.getElementById('node-tags').textContent = [node.type].concat(node.tags ? [node.tags] : []).join(' · ');
+      document.getElementById('node-content').textContent = node.content;
+    }
+    render();
+  }
+  document.getElementById('close').addEventListener('click', function () { select(null); });
+
+  render();
+})();
+`;
@@ -1,5 +1,6 @@
 import { ParsedSection } from './parser.js';
 import { ContentClassification } from './content-classifier.js';
+import { calloutStyle, CalloutStyles } from './callouts.js';
 
 export class IntelligentColorMapper {
   
@@ -25,9 +26,18 @@ export class IntelligentColorMapper {
   assignColor(
     section: ParsedSection,
     classification: ContentClassification,
-    parentColor?: string
+    parentColor?: string,
+    calloutStyles: CalloutStyles = {}
   ): string {
     
+    // Task lists say outright whether the work is blocked or done
+    if (section.tasks?.some(task => task.blocker && !task.checked)) {
+      return 'pastel-pink';
+    }
+    if (section.completion?.ratio === 1) {
+      return 'pastel-gray';
+    }
+    
     const colorScores: Record<string, number> = {};
     
     // Initialize all colors with base score
@@ -47,6 +57,9 @@ export class IntelligentColorMapper {
     // Check for specific keywords
     this.adjustForKeywords(colorScores, section, classification);
     
+    // Callouts name their meaning outright
+    this.adjustForCallouts(colorScores, section, calloutStyles);
+    
     // Consider hierarchical position
     this.adjustForHierarchy(colorScores, section, parentColor);
     
@@ -208,6 +221,16 @@ export class IntelligentColorMapper {
     }
   }
   
+  private adjustForCallouts(
+    scores: Record<string, number>,
+    section: ParsedSection,
+    calloutStyles: CalloutStyles
+  ): void {
+    for (const callout of section.callouts ?? []) {
+      scores[calloutStyle(callout, calloutStyles).color] += 12;
+    }
+  }
+  
   private adjustForHierarchy(
     scores: Record<string, number>,
     section: ParsedSection,
@@ -59,6 +59,7 @@ export class IntelligentShapeAssigner {
     // Cube: Structured information, data, foundations
     if (section.metadata.hasTable) score += 5;  // Increased
     if (section.metadata.hasCode) score += 4;   // Increased
+    if (section.block?.kind === 'code' || section.block?.kind === 'table') score += 6;  // A block node is its data
     if (classification.category === 'technical') score += 4;  // Increased
     if (classification.category === 'reference') score += 3;  // Increased
     if (section.children.length > 3) score += 3;  // Increased
@@ -89,6 +90,7 @@ export class IntelligentShapeAssigner {
     // Cylinder: Processes, timelines, sequences
     if (classification.category === 'procedural') score += 5;  // Increased
     if (classification.contentType.hasInstructions) score += 4;  // Increased
+    if (section.block?.ordered) score += 6;  // Numbered lists and their steps
     
     // Check title for phase/step indicators
     const titleLower = section.title.toLowerCase();
@@ -13,6 +13,17 @@ export type LayoutType =
   | 'timeline'
   | 'concept-map';
 
+export const LAYOUT_TYPES: readonly LayoutType[] = [
+  'research-paper',
+  'documentation',
+  'project-planning',
+  'knowledge-base',
+  'tutorial',
+  'hierarchical',
+  'timeline',
+  'concept-map',
+];
+
 export interface LayoutConfig {
   spacing: number;
   verticalSpread: number;
@@ -178,22 +189,27 @@ export class LayoutTemplates {
    * Goals at top, tasks on timeline, completed at bottom, blockers in foreground
    */
   private applyProjectPlanningLayout(nodes: NM3Node[], config: LayoutConfig): void {
+    // Nodes with task lists carry their state in tags (progress-NN, complete,
+    // blocked); titles are only a guess for nodes without tasks
+    const progress = new Map<NM3Node, number>();
+    for (const node of nodes) {
+      const tag = this.tagsOf(node).find(t => /^progress-\d+$/.test(t));
+      if (tag) progress.set(node, Number(tag.substring('progress-'.length)) / 100);
+    }
+    const guess = (node: NM3Node, keywords: string[]) =>
+      !progress.has(node) && keywords.some(k => node.title?.toLowerCase().includes(k));
+
     const goals = nodes.filter(n =>
       n.title?.toLowerCase().includes('goal') ||
       n.title?.toLowerCase().includes('objective')
     );
+    const blockers = nodes.filter(n => this.tagsOf(n).includes('blocked') || guess(n, ['block', 'issue']));
+    const completed = nodes.filter(n => this.tagsOf(n).includes('complete') || guess(n, ['complete', 'done']));
     const tasks = nodes.filter(n =>
+      (progress.has(n) && !completed.includes(n) && !blockers.includes(n)) ||
       n.title?.toLowerCase().includes('task') ||
       n.title?.toLowerCase().includes('todo')
     );
-    const completed = nodes.filter(n =>
-      n.title?.toLowerCase().includes('complete') ||
-      n.title?.toLowerCase().includes('done')
-    );
-    const blockers = nodes.filter(n =>
-      n.title?.toLowerCase().includes('block') ||
-      n.title?.toLowerCase().includes('issue')
-    );
     const other = nodes.filter(n =>
       !goals.includes(n) && !tasks.includes(n) &&
       !completed.includes(n) && !blockers.includes(n)
@@ -206,10 +222,10 @@ export class LayoutTemplates {
       node.z = 0;
     });
 
-    // Tasks spread on timeline (X-axis)
+    // Tasks spread on timeline (X-axis), sinking towards the completed row as they progress
     tasks.forEach((node, i) => {
       node.x = (i - tasks.length / 2) * config.spacing * 1.5;
-      node.y = 0;
+      node.y = -(progress.get(node) ?? 0) * config.verticalSpread;
       node.z = 0;
     });
 
@@ -415,4 +431,8 @@ export class LayoutTemplates {
       }),
     };
   }
+
+  private tagsOf(node: NM3Node): string[] {
+    return (node.tags ?? '').split(',').map(tag => tag.trim());
+  }
 }
@@ -0,0 +1,327 @@
+// NM3 Markdown Exporter
+// Inverse of the transformers: rebuilds a markdown document from an NM3 document
+
+import { stringify as stringifyYAML } from 'yaml';
+import { NM3Document, NM3Link, NM3Node } from '../models/types.js';
+import { SlugOptions, Slugger } from './slugger.js';
+
+export interface MarkdownExportOptions {
+  /** Write NM3 meta as YAML front matter (default: true) */
+  frontMatter?: boolean;
+  /**
+   * Write each node's shape, color, scale and position as an
+   * `<!-- nm3: ... -->` directive, so edits made in a viewer survive the
+   * next transform (default: false)
+   */
+  visualDirectives?: boolean;
+}
+
+interface HeadingLine {
+  level: number;
+  text: string;
+  line: string;
+}
+
+const MAX_HEADING_LEVEL = 6;
+
+/**
+ * NM3 Markdown Exporter
+ *
+ * - Heading hierarchy comes from `contains` links. Where a parent's explicit
+ *   reference replaced the `contains` link, the heading levels kept in node
+ *   content decide instead.
+ * - Siblings keep document order; documents without any hierarchy (no
+ *   `contains` links, no headings in content) are ordered spatially,
+ *   top to bottom, then left to right, then back to front.
+ * - Node content is written verbatim below a heading built from the title,
+ *   so transform -> export -> transform reproduces the same sections. The
+ *   `preamble` node is written first, without a heading.
+ * - Block nodes (lists, list items, code, tables and quotes split out by the
+ *   parser's granularity) go back into their parent's body, after its text.
+ * - Other links become `[[node-id|link-type]]` references, unless the source
+ *   content already references the target or the link is a dashed (semantic)
+ *   link that the transformer derives from the content itself.
+ */
+export class NM3MarkdownExporter {
+  private readonly atxPattern = /^ {0,3}(#{1,6})(?:[ \t]+([^\r\n]*?))?(?:[ \t]+#+)?[ \t]*(?:\r?\n|$)/;
+  private readonly setextPattern = /^ {0,3}(\S[^\r\n]*)\r?\n {0,3}(=+|-+)[ \t]*(?:\r?\n|$)/;
+  private readonly referencePattern = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+  private readonly slugger: Slugger;
+
+  /**
+   * `slugOptions` should match the transformer's, so references in the
+   * content are recognized by the ids it generated
+   */
+  constructor(slugOptions: SlugOptions = {}) {
+    this.slugger = new Slugger(slugOptions);
+  }
+
+  exportMarkdown(document: NM3Document, options: MarkdownExportOptions = {}): string {
+    const { frontMatter = true, visualDirectives = false } = options;
+    const nodes = new Map(document.nodes.map(node => [node.id, node]));
+    const headings = new Map(document.nodes.map(node => [node.id, this.headingOf(node.content ?? '')]));
+
+    const hasHierarchy = document.links.some(link => link.type === 'contains')
+      || [...headings.values()].some(heading => heading !== null);
+    const ordered = hasHierarchy ? document.nodes : this.spatialOrder(document.nodes);
+
+    const { parents, hierarchical } = this.buildHierarchy(ordered, document.links, nodes, headings);
+
+    const children = new Map<string, NM3Node[]>();
+    const roots: NM3Node[] = [];
+    for (const node of ordered) {
+      const parent = parents.get(node.id);
+      if (parent) {
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    // A lone section without headings is how the parser reads heading-less markdown
+    const [main] = roots;
+    if (roots.length === 1 && main.id === 'main' && !headings.get(main.id) &&
+        document.nodes.every(node => node === main || this.isBlock(node))) {
+      return this.join([
+        frontMatter ? this.buildFrontMatter(document) : '',
+        this.buildSection(main, '', document, nodes, hierarchical, visualDirectives, this.renderBlocks(main, children)),
+      ]);
+    }
+
+    const sections: string[] = [];
+    const emit = (siblings: NM3Node[], parentLevel: number) => {
+      // A heading may not be deeper than the sibling before it, or the parser
+      // would nest it under that sibling's last descendant
+      let maxLevel = MAX_HEADING_LEVEL;
+      for (const node of siblings.filter(sibling => !this.isBlock(sibling))) {
+        const blocks = this.renderBlocks(node, children);
+
+        // Text before the first heading goes back there; its sections start at the top level
+        if (sections.length === 0 && node.id === 'preamble' && !headings.get(node.id)) {
+          sections.push(this.buildSection(node, '', document, nodes, hierarchical, visualDirectives, blocks));
+          emit(children.get(node.id) ?? [], 0);
+          continue;
+        }
+
+        const preferred = headings.get(node.id)?.level ?? parentLevel + 1;
+        const level = Math.min(MAX_HEADING_LEVEL, Math.max(parentLevel + 1, Math.min(preferred, maxLevel)));
+        maxLevel = level;
+
+        // The original heading line is kept when it still says the same thing
+        const original = headings.get(node.id);
+        const heading = original && original.level === level && original.text === this.headingText(node)
+          ? original.line.trimEnd()
+          : `${'#'.repeat(level)} ${this.headingText(node)}`;
+        sections.push(this.buildSection(node, heading, document, nodes, hierarchical, visualDirectives, blocks));
+        emit(children.get(node.id) ?? [], level);
+      }
+    };
+    emit(roots, 0);
+
+    return this.join([frontMatter ? this.buildFrontMatter(document) : '', ...sections]);
+  }
+
+  /**
+   * Parent per node and the links that express the hierarchy (and so need no
+   * reference in the markdown)
+   */
+  private buildHierarchy(
+    ordered: NM3Node[],
+    links: NM3Link[],
+    nodes: Map<string, NM3Node>,
+    headings: Map<string, HeadingLine | null>
+  ): { parents: Map<string, string>; hierarchical: Set<NM3Link> } {
+    const parents = new Map<string, string>();
+    const hierarchical = new Set<NM3Link>();
+
+    const createsCycle = (parent: string, child: string) => {
+      for (let current: string | undefined = parent; current; current = parents.get(current)) {
+        if (current === child) return true;
+      }
+      return false;
+    };
+
+    // First `contains` link into a node decides its parent
+    for (const link of links) {
+      if (link.type !== 'contains' || link.from === link.to) continue;
+      if (!nodes.has(link.from) || !nodes.has(link.to) || parents.has(link.to)) continue;
+      if (createsCycle(link.from, link.to)) continue;
+      parents.set(link.to, link.from);
+      hierarchical.add(link);
+    }
+
+    // The transformer drops the `contains` link when the parent already links
+    // to the child; recover those from the heading levels in document order
+    const stack: Array<{ id: string; level: number }> = [];
+    for (const node of ordered) {
+      const heading = headings.get(node.id);
+      if (!heading) continue;
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      const candidate = stack[stack.length - 1];
+      if (candidate && !parents.has(node.id) && !createsCycle(candidate.id, node.id)) {
+        const link = links.find(l => l.from === candidate.id && l.to === node.id);
+        if (link) {
+          parents.set(node.id, candidate.id);
+        }
+      }
+      stack.push({ id: node.id, level: heading.level });
+    }
+
+    return { parents, hierarchical };
+  }
+
+  private buildSection(
+    node: NM3Node,
+    heading: string,
+    document: NM3Document,
+    nodes: Map<string, NM3Node>,
+    hierarchical: Set<NM3Link>,
+    visualDirectives: boolean,
+    blocks: string[] = []
+  ): string {
+    const content = node.content ?? '';
+    const headingLine = this.headingOf(content);
+    const body = this.normalizeBlankLines(headingLine ? content.substring(headingLine.line.length) : content);
+
+    const parts = [heading];
+    if (visualDirectives) {
+      parts.push(this.buildDirective(node));
+    }
+    if (body) {
+      parts.push(body);
+    }
+    parts.push(...blocks);
+
+    const referenced = new Set<string>();
+    for (const match of content.matchAll(this.referencePattern)) {
+      referenced.add(this.normalizeId(match[1]));
+    }
+
+    const references = document.links
+      .filter(link => link.from === node.id && link.to !== node.id && nodes.has(link.to))
+      .filter(link => !hierarchical.has(link) && !link.dashed && !referenced.has(link.to))
+      .map(link => `[[${link.to}|${link.type ?? 'relates'}]]`);
+    if (references.length > 0) {
+      parts.push(`Links: ${[...new Set(references)].join(', ')}`);
+    }
+
+    return parts.filter(part => part.length > 0).join('\n\n');
+  }
+
+  /**
+   * Markdown of the block nodes below a node, in order. Consecutive list
+   * items form one list, and nested items are indented under their item.
+   */
+  private renderBlocks(node: NM3Node, children: Map<string, NM3Node[]>, depth = 0): string[] {
+    const parts: string[] = [];
+    let inList = false;
+
+    for (const child of (children.get(node.id) ?? []).filter(child => this.isBlock(child))) {
+      const markdown = (child.content ?? '').trim();
+      if (!this.tags(child).includes('block-list-item')) {
+        parts.push(markdown);
+        inList = false;
+        continue;
+      }
+
+      const item = [
+        markdown.replace(/^(?=.)/gm, '    '.repeat(depth)),
+        ...this.renderBlocks(child, children, depth + 1),
+      ].join('\n');
+      if (inList) {
+        parts[parts.length - 1] += `\n${item}`;
+      } else {
+        parts.push(item);
+      }
+      inList = true;
+    }
+
+    return parts;
+  }
+
+  private isBlock(node: NM3Node): boolean {
+    return this.tags(node).some(tag => tag.startsWith('block-'));
+  }
+
+  private tags(node: NM3Node): string[] {
+    return (node.tags ?? '').split(',').map(tag => tag.trim());
+  }
+
+  private buildFrontMatter(document: NM3Document): string {
+    const { title, author, description, tags, created, modified } = document.meta;
+    const data = Object.fromEntries(
+      Object.entries({ title, author, description, tags, created, modified })
+        .filter(([, value]) => value !== undefined && value !== '')
+    );
+
+    if (Object.keys(data).length === 0) return '';
+    return `---\n${stringifyYAML(data, { lineWidth: 0 }).trim()}\n---`;
+  }
+
+  private buildDirective(node: NM3Node): string {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const attributes = [`type=${node.type}`];
+    if (node.color) attributes.push(`color=${node.color}`);
+    if (node.scale !== undefined) attributes.push(`scale=${round(node.scale)}`);
+    attributes.push(`pin=${round(node.x)},${round(node.y)},${round(node.z)}`);
+    return `<!-- nm3: ${attributes.join(' ')} -->`;
+  }
+
+  /**
+   * Heading on the first line of node content (ATX or setext), which the
+   * transformer keeps as part of each section's markdown
+   */
+  private headingOf(content: string): HeadingLine | null {
+    const atx = content.match(this.atxPattern);
+    if (atx) {
+      return { level: atx[1].length, text: (atx[2] ?? '').trim(), line: atx[0] };
+    }
+    const setext = content.match(this.setextPattern);
+    if (setext) {
+      return { level: setext[2].startsWith('=') ? 1 : 2, text: setext[1].trim(), line: setext[0] };
+    }
+    return null;
+  }
+
+  /**
+   * The parser joins section tokens with extra newlines; collapse blank-line
+   * runs outside code fences so re-parsing yields the same content again
+   */
+  private normalizeBlankLines(text: string): string {
+    const lines: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+      const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+      if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+        fence = fence ? null : marker;
+      }
+      if (!fence && line.trim() === '' && lines.length > 0 && lines[lines.length - 1].trim() === '') {
+        continue;
+      }
+      lines.push(line);
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  private headingText(node: NM3Node): string {
+    return (node.title || node.id).replace(/\s+/g, ' ').trim();
+  }
+
+  private spatialOrder(nodes: NM3Node[]): NM3Node[] {
+    return [...nodes].sort((a, b) => (b.y - a.y) || (a.x - b.x) || (a.z - b.z));
+  }
+
+  private normalizeId(text: string): string {
+    return this.slugger.slug(text.trim());
+  }
+
+  private join(parts: string[]): string {
+    return parts.filter(part => part.length > 0).join('\n\n') + '\n';
+  }
+}
@@ -13,6 +13,7 @@ export class MemoryMonitor {
   private warningThreshold: number;
   private criticalThreshold: number;
   private checkInterval: NodeJS.Timeout | null = null;
+  private criticalListeners: Array<() => void> = [];
 
   constructor(warningThresholdMB: number = 400, criticalThresholdMB: number = 800) {
     this.warningThreshold = warningThresholdMB * 1024 * 1024;
@@ -39,6 +40,7 @@ export class MemoryMonitor {
     
     if (stats.heapUsed > this.criticalThreshold) {
       console.error(`🚨 CRITICAL: Memory usage at ${stats.heapUsedMB.toFixed(2)}MB`);
+      this.criticalListeners.forEach(listener => listener());
       return 'critical';
     } else if (stats.heapUsed > this.warningThreshold) {
       console.error(`⚠️  WARNING: Memory usage at ${stats.heapUsedMB.toFixed(2)}MB`);
@@ -48,6 +50,13 @@ export class MemoryMonitor {
     return 'ok';
   }
 
+  /**
+   * Call `listener` whenever a check finds memory usage critical, e.g. to drop caches
+   */
+  onCritical(listener: () => void): void {
+    this.criticalListeners.push(listener);
+  }
+
   startMonitoring(intervalMs: number = 30000): void {
     if (this.checkInterval) {
       return;
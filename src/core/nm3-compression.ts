@@ -0,0 +1,80 @@
+// NM3 Compression
+// gzip and brotli for chunk files and NM3 output; the XML compresses very well
+
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+export const COMPRESSIONS = ['none', 'gzip', 'brotli'] as const;
+export type Compression = typeof COMPRESSIONS[number];
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+const EXTENSIONS: Record<Compression, string> = { none: '', gzip: '.gz', brotli: '.br' };
+
+/**
+ * NM3 Compressor
+ *
+ * Files are compressed according to their extension: `.gz` is gzip, `.br`
+ * is brotli and anything else is plain UTF-8. Text is always UTF-8 before
+ * compression, so hashes over the text do not depend on how it is stored.
+ */
+export class NM3Compressor {
+  async compress(text: string, compression: Compression): Promise<Buffer> {
+    const data = Buffer.from(text, 'utf-8');
+    switch (compression) {
+      case 'gzip':
+        return gzip(data, { level: zlib.constants.Z_BEST_COMPRESSION });
+      case 'brotli':
+        return brotliCompress(data, {
+          params: {
+            [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+            [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+          },
+        });
+      case 'none':
+        return data;
+      default:
+        throw new Error(`Unknown compression "${compression}". Expected one of: ${COMPRESSIONS.join(', ')}`);
+    }
+  }
+
+  async decompress(data: Buffer, compression: Compression): Promise<string> {
+    switch (compression) {
+      case 'gzip':
+        return (await gunzip(data)).toString('utf-8');
+      case 'brotli':
+        return (await brotliDecompress(data)).toString('utf-8');
+      case 'none':
+        return data.toString('utf-8');
+      default:
+        throw new Error(`Unknown compression "${compression}". Expected one of: ${COMPRESSIONS.join(', ')}`);
+    }
+  }
+
+  extension(compression: Compression): string {
+    return EXTENSIONS[compression];
+  }
+
+  compressionOf(filePath: string): Compression {
+    if (filePath.endsWith('.gz')) return 'gzip';
+    if (filePath.endsWith('.br')) return 'brotli';
+    return 'none';
+  }
+
+  /**
+   * Write text, compressed if the file name asks for it; returns the bytes written
+   */
+  async writeFile(filePath: string, text: string): Promise<number> {
+    const data = await this.compress(text, this.compressionOf(filePath));
+    await fs.writeFile(filePath, data);
+    return data.length;
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.decompress(await fs.readFile(filePath), this.compressionOf(filePath));
+  }
+}
@@ -0,0 +1,328 @@
+// NM3 Semantic Validator
+// Checks NM3 XML against the specification, not just XML well-formedness
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { VALID_COLORS, VALID_SHAPES, LINK_TYPES } from '../constants/validation.js';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface NM3ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  stats: {
+    nodes: number;
+    links: number;
+  };
+}
+
+const REQUIRED_CAMERA_ATTRIBUTES = [
+  'position-x', 'position-y', 'position-z',
+  'look-at-x', 'look-at-y', 'look-at-z'
+];
+
+const NUMERIC_NODE_ATTRIBUTES = ['scale', 'rotation-x', 'rotation-y', 'rotation-z'];
+
+// Elements an <nm3-chunk> may hold, by its section attribute
+const CHUNK_SECTIONS: Record<string, string[]> = {
+  head: ['meta', 'camera'],
+  nodes: ['nodes'],
+  links: ['links'],
+};
+
+/**
+ * NM3 Validator - verifies structure, vocabulary and referential integrity.
+ * Errors make a document invalid; warnings flag questionable but loadable content.
+ * Element chunks (<nm3-chunk>) are validated on their own, without link targets.
+ */
+export class NM3Validator {
+  private parser: XMLParser;
+  private errors: ValidationIssue[] = [];
+  private warnings: ValidationIssue[] = [];
+  // Path of the root element, prefixed to every issue
+  private root = '/nm3';
+
+  constructor() {
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      cdataPropName: '__cdata',
+      textNodeName: '#text',
+      parseAttributeValue: false,
+      parseTagValue: false,
+      isArray: (name, jpath) => jpath === 'nm3.nodes.node' || jpath === 'nm3.links.link'
+        || jpath === 'nm3-chunk.nodes.node' || jpath === 'nm3-chunk.links.link',
+    });
+  }
+
+  validate(xml: string): NM3ValidationResult {
+    this.errors = [];
+    this.warnings = [];
+    this.root = '/nm3';
+
+    const wellFormed = XMLValidator.validate(xml);
+    if (wellFormed !== true) {
+      this.error('/', `Malformed XML at line ${wellFormed.err.line}: ${wellFormed.err.msg}`);
+      return this.result(0, 0);
+    }
+
+    const parsed = this.parser.parse(xml);
+    if (parsed['nm3-chunk'] !== undefined) {
+      return this.validateChunk(parsed['nm3-chunk']);
+    }
+    const root = parsed.nm3;
+    if (!root || typeof root !== 'object') {
+      const found = Object.keys(parsed).filter(k => !k.startsWith('?'));
+      this.error('/', `Root element must be <nm3>, found ${found.length > 0 ? `<${found[0]}>` : 'nothing'}`);
+      return this.result(0, 0);
+    }
+
+    this.validateRoot(root);
+    this.validateMeta(root.meta);
+    this.validateCamera(root.camera);
+    const nodeIds = this.validateNodes(root.nodes);
+    const linkCount = this.validateLinks(root.links, nodeIds);
+
+    return this.result(nodeIds.size, linkCount);
+  }
+
+  /**
+   * An element chunk on its own: its attributes and the elements it holds.
+   * Links are not checked against nodes, which may live in other chunks.
+   */
+  private validateChunk(chunk: any): NM3ValidationResult {
+    const attributes = chunk && typeof chunk === 'object' ? chunk : {};
+    const seq = attributes['@_seq'];
+    this.root = seq !== undefined ? `/nm3-chunk[@seq='${seq}']` : '/nm3-chunk';
+
+    if (!/^[1-9]\d*$/.test(seq ?? '')) {
+      this.error(this.root, `Attribute "seq" must be a positive integer, got ${seq === undefined ? 'nothing' : `"${seq}"`}`);
+    }
+    const section = attributes['@_section'];
+    const allowed = CHUNK_SECTIONS[section];
+    if (!allowed) {
+      this.error(this.root, `Attribute "section" must be one of ${Object.keys(CHUNK_SECTIONS).join(', ')}, got "${section ?? ''}"`);
+    }
+
+    for (const key of Object.keys(attributes)) {
+      if (key.startsWith('@_')) continue;
+      if (allowed && !allowed.includes(key)) {
+        this.error(`${this.root}/${key}`, `Element <${key}> does not belong in a "${section}" chunk`);
+      }
+    }
+
+    if (attributes.meta !== undefined) this.validateMeta(attributes.meta);
+    if (attributes.camera !== undefined) this.validateCamera(attributes.camera);
+    const nodeIds = attributes.nodes !== undefined ? this.validateNodes(attributes.nodes) : new Set<string>();
+    const linkCount = attributes.links !== undefined ? this.validateLinks(attributes.links, null) : 0;
+
+    return this.result(nodeIds.size, linkCount);
+  }
+
+  private validateRoot(root: any): void {
+    const version = root['@_version'];
+    if (version === undefined) {
+      this.error('/nm3', 'Missing required attribute "version"');
+    } else if (version !== '1.0') {
+      this.warning('/nm3', `Unsupported version "${version}" (expected "1.0")`);
+    }
+
+    for (const key of Object.keys(root)) {
+      if (key.startsWith('@_')) continue;
+      if (!['meta', 'camera', 'nodes', 'links'].includes(key)) {
+        this.warning(`/nm3/${key}`, `Unknown element <${key}>`);
+      }
+    }
+  }
+
+  private validateMeta(meta: any): void {
+    const path = `${this.root}/meta`;
+    if (!meta || typeof meta !== 'object') {
+      this.error(path, 'Missing required element <meta>');
+      return;
+    }
+
+    if (!meta['@_title']) {
+      this.error(path, 'Missing required attribute "title"');
+    }
+    if (!meta['@_created']) {
+      this.error(path, 'Missing required attribute "created"');
+    } else if (isNaN(Date.parse(meta['@_created']))) {
+      this.warning(path, `Attribute "created" is not a parseable date: "${meta['@_created']}"`);
+    }
+    if (meta['@_modified'] && isNaN(Date.parse(meta['@_modified']))) {
+      this.warning(path, `Attribute "modified" is not a parseable date: "${meta['@_modified']}"`);
+    }
+  }
+
+  private validateCamera(camera: any): void {
+    const path = `${this.root}/camera`;
+    if (!camera || typeof camera !== 'object') {
+      this.error(path, 'Missing required element <camera>');
+      return;
+    }
+
+    for (const attribute of REQUIRED_CAMERA_ATTRIBUTES) {
+      this.checkNumber(path, camera, attribute, true);
+    }
+
+    const fov = this.checkNumber(path, camera, 'fov', false);
+    if (fov !== undefined && (fov <= 0 || fov >= 180)) {
+      this.warning(path, `Attribute "fov" should be between 0 and 180, got ${fov}`);
+    }
+  }
+
+  private validateNodes(nodes: any): Set<string> {
+    const ids = new Set<string>();
+    if (nodes === undefined) {
+      this.error(`${this.root}/nodes`, 'Missing required element <nodes>');
+      return ids;
+    }
+
+    // An empty <nodes></nodes> element parses as an empty string
+    const nodeList: any[] = (nodes && nodes.node) || [];
+    if (nodeList.length === 0) {
+      this.warning(`${this.root}/nodes`, 'Document contains no nodes');
+    }
+
+    nodeList.forEach((node, index) => {
+      const id = node['@_id'];
+      const path = `${this.root}/nodes/node[${index + 1}]` + (id ? `[@id='${id}']` : '');
+
+      if (!id) {
+        this.error(path, 'Missing required attribute "id"');
+      } else if (ids.has(id)) {
+        this.error(path, `Duplicate node id "${id}"`);
+      } else {
+        ids.add(id);
+      }
+
+      const type = node['@_type'];
+      if (!type) {
+        this.error(path, 'Missing required attribute "type"');
+      } else if (!VALID_SHAPES.includes(type)) {
+        this.error(path, `Invalid type "${type}" (allowed: ${VALID_SHAPES.join(', ')})`);
+      }
+
+      for (const axis of ['x', 'y', 'z']) {
+        this.checkNumber(path, node, axis, true);
+      }
+      for (const attribute of NUMERIC_NODE_ATTRIBUTES) {
+        this.checkNumber(path, node, attribute, false);
+      }
+
+      const scale = Number(node['@_scale']);
+      if (node['@_scale'] !== undefined && isFinite(scale) && scale <= 0) {
+        this.error(path, `Attribute "scale" must be positive, got ${node['@_scale']}`);
+      }
+
+      this.checkColor(path, node['@_color']);
+
+      if (node.content === undefined) {
+        this.warning(path, 'Node has no <content> element');
+      } else if (typeof node.content === 'object' && node.content.__cdata === undefined && node.content['#text'] === undefined) {
+        this.warning(`${path}/content`, 'Content is empty');
+      }
+    });
+
+    return ids;
+  }
+
+  private validateLinks(links: any, nodeIds: Set<string> | null): number {
+    if (links === undefined) {
+      this.warning(`${this.root}/links`, 'Missing <links> element');
+      return 0;
+    }
+
+    const linkList: any[] = (links && links.link) || [];
+    const seen = new Set<string>();
+
+    linkList.forEach((link, index) => {
+      const path = `${this.root}/links/link[${index + 1}]`;
+      const from = link['@_from'];
+      const to = link['@_to'];
+
+      if (!from) {
+        this.error(path, 'Missing required attribute "from"');
+      } else if (nodeIds && !nodeIds.has(from)) {
+        this.error(path, `Attribute "from" references missing node "${from}"`);
+      }
+
+      if (!to) {
+        this.error(path, 'Missing required attribute "to"');
+      } else if (nodeIds && !nodeIds.has(to)) {
+        this.error(path, `Attribute "to" references missing node "${to}"`);
+      }
+
+      if (from && to) {
+        if (from === to) {
+          this.warning(path, `Link from "${from}" points at itself`);
+        }
+        const key = `${from}->${to}:${link['@_type'] || ''}`;
+        if (seen.has(key)) {
+          this.warning(path, `Duplicate link ${from} -> ${to}`);
+        }
+        seen.add(key);
+      }
+
+      const type = link['@_type'];
+      if (type !== undefined && !LINK_TYPES.includes(type)) {
+        this.error(path, `Invalid link type "${type}" (allowed: ${LINK_TYPES.join(', ')})`);
+      }
+
+      this.checkColor(path, link['@_color']);
+
+      const thickness = this.checkNumber(path, link, 'thickness', false);
+      if (thickness !== undefined && thickness <= 0) {
+        this.warning(path, `Attribute "thickness" should be positive, got ${thickness}`);
+      }
+      this.checkNumber(path, link, 'curve', false);
+    });
+
+    return linkList.length;
+  }
+
+  private checkNumber(path: string, element: any, attribute: string, required: boolean): number | undefined {
+    const raw = element[`@_${attribute}`];
+    if (raw === undefined || raw === '') {
+      if (required) {
+        this.error(path, `Missing required attribute "${attribute}"`);
+      }
+      return undefined;
+    }
+
+    const value = Number(raw);
+    if (!isFinite(value)) {
+      this.error(path, `Attribute "${attribute}" must be numeric, got "${raw}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private checkColor(path: string, color: string | undefined): void {
+    if (color !== undefined && !VALID_COLORS.includes(color as any)) {
+      this.error(path, `Invalid color "${color}" (must be one of the 16 NM3 pastel colors)`);
+    }
+  }
+
+  private error(path: string, message: string): void {
+    this.errors.push({ severity: 'error', path, message });
+  }
+
+  private warning(path: string, message: string): void {
+    this.warnings.push({ severity: 'warning', path, message });
+  }
+
+  private result(nodes: number, links: number): NM3ValidationResult {
+    return {
+      valid: this.errors.length === 0,
+      errors: this.errors,
+      warnings: this.warnings,
+      stats: { nodes, links },
+    };
+  }
+}
@@ -30,6 +30,13 @@ class OctreeCell {
   maxNodes: number;
   maxDepth: number;
   depth: number;
+  // Longest edge, for the Barnes–Hut opening test
+  size: number;
+  // Aggregate of every node in this cell and below (see computeMassDistribution)
+  mass: number = 0;
+  centerX: number = 0;
+  centerY: number = 0;
+  centerZ: number = 0;
 
   constructor(
     bounds: BoundingBox,
@@ -43,6 +50,7 @@ class OctreeCell {
     this.maxNodes = maxNodes;
     this.maxDepth = maxDepth;
     this.depth = depth;
+    this.size = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, bounds.maxZ - bounds.minZ);
   }
 
   /**
@@ -54,8 +62,8 @@ class OctreeCell {
       return false;
     }
 
-    // If we have space and haven't subdivided, add here
-    if (this.nodes.length < this.maxNodes || this.depth >= this.maxDepth) {
+    // If we haven't subdivided and have space, add here; once subdivided, nodes go to the children
+    if (!this.children && (this.nodes.length < this.maxNodes || this.depth >= this.maxDepth)) {
       this.nodes.push(node);
       return true;
     }
@@ -236,6 +244,103 @@ class OctreeCell {
     );
   }
 
+  /**
+   * Compute node count and center of mass for this cell and all children
+   */
+  computeMassDistribution(): void {
+    let mass = this.nodes.length;
+    let sumX = 0, sumY = 0, sumZ = 0;
+
+    for (const node of this.nodes) {
+      sumX += node.x;
+      sumY += node.y;
+      sumZ += node.z;
+    }
+
+    if (this.children) {
+      for (const child of this.children) {
+        child.computeMassDistribution();
+        mass += child.mass;
+        sumX += child.centerX * child.mass;
+        sumY += child.centerY * child.mass;
+        sumZ += child.centerZ * child.mass;
+      }
+    }
+
+    this.mass = mass;
+    if (mass > 0) {
+      this.centerX = sumX / mass;
+      this.centerY = sumY / mass;
+      this.centerZ = sumZ / mass;
+    }
+  }
+
+  /**
+   * Barnes–Hut traversal: cells that look small from (x, y, z)
+   * (size / distance < theta) are reported as one aggregate body at their
+   * center of mass, everything else node by node. Cells entirely farther
+   * than cutoff are skipped.
+   *
+   * This runs once per node and iteration, so it takes squared theta and
+   * cutoff and avoids per-cell allocations; empty cells are never entered.
+   */
+  visitApproximate(
+    x: number,
+    y: number,
+    z: number,
+    thetaSquared: number,
+    cutoffSquared: number,
+    visit: (mass: number, bx: number, by: number, bz: number, node?: OctreeNode) => void
+  ): void {
+    if (this.distanceToBoundsSquared(x, y, z) > cutoffSquared) {
+      return;
+    }
+
+    const dx = this.centerX - x;
+    const dy = this.centerY - y;
+    const dz = this.centerZ - z;
+
+    // A cell containing the query point is never approximated, so a node never repels itself
+    if (this.mass > 1 && this.size * this.size < thetaSquared * (dx * dx + dy * dy + dz * dz) && !this.containsPoint(x, y, z)) {
+      visit(this.mass, this.centerX, this.centerY, this.centerZ);
+      return;
+    }
+
+    const nodes = this.nodes;
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      visit(1, node.x, node.y, node.z, node);
+    }
+
+    const children = this.children;
+    if (children) {
+      for (let i = 0; i < 8; i++) {
+        if (children[i].mass > 0) {
+          children[i].visitApproximate(x, y, z, thetaSquared, cutoffSquared, visit);
+        }
+      }
+    }
+  }
+
+  private containsPoint(x: number, y: number, z: number): boolean {
+    return (
+      x >= this.bounds.minX && x <= this.bounds.maxX &&
+      y >= this.bounds.minY && y <= this.bounds.maxY &&
+      z >= this.bounds.minZ && z <= this.bounds.maxZ
+    );
+  }
+
+  /**
+   * Squared distance from a point to the nearest point of this cell (0 if inside)
+   */
+  private distanceToBoundsSquared(x: number, y: number, z: number): number {
+    const { minX, minY, minZ, maxX, maxY, maxZ } = this.bounds;
+    const dx = x < minX ? minX - x : x > maxX ? x - maxX : 0;
+    const dy = y < minY ? minY - y : y > maxY ? y - maxY : 0;
+    const dz = z < minZ ? minZ - z : z > maxZ ? z - maxZ : 0;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
   /**
    * Find all nodes within a sphere (radius from point)
    */
@@ -303,6 +408,29 @@ export class Octree {
     return this.root.findNearby(x, y, z, radius);
   }
 
+  /**
+   * Compute centers of mass; call once after all inserts and before visitApproximate
+   */
+  computeMassDistribution(): void {
+    this.root.computeMassDistribution();
+  }
+
+  /**
+   * Visit nodes and aggregated far-away cells as seen from a point (Barnes–Hut)
+   */
+  visitApproximate(
+    x: number,
+    y: number,
+    z: number,
+    theta: number,
+    cutoff: number,
+    visit: (mass: number, bx: number, by: number, bz: number, node?: OctreeNode) => void
+  ): void {
+    if (this.root.mass > 0) {
+      this.root.visitApproximate(x, y, z, theta * theta, cutoff * cutoff, visit);
+    }
+  }
+
   /**
    * Clear the octree and reset to empty state
    */
@@ -1,10 +1,13 @@
-import { EnhancedTransformer } from './enhanced-transformer.js';
+import { EnhancedTransformer, LayoutDecision, LayoutOptions } from './enhanced-transformer.js';
+import { SeededRandom } from './seeded-random.js';
 import { CacheManager } from './cache-manager.js';
 import { ChunkedProcessor } from './stream-processor.js';
+import { SlugOptions } from './slugger.js';
 import { MetricsCollector } from './metrics.js';
 import { NM3Document } from '../models/types.js';
+import { FrontMatter } from './front-matter.js';
 
-export interface TransformOptions {
+export interface TransformOptions extends LayoutOptions {
   useCache?: boolean;
   useStreaming?: boolean;
   chunkSize?: number;
@@ -16,11 +19,13 @@ export class OptimizedTransformer extends EnhancedTransformer {
   private cacheManager: CacheManager;
   private chunkedProcessor: ChunkedProcessor;
   private metrics: MetricsCollector;
+  // Layout decisions travel with cached documents so cache hits can still report them
+  private layoutDecisions = new WeakMap<NM3Document, LayoutDecision>();
 
-  constructor() {
-    super();
+  constructor(slugOptions: SlugOptions = {}) {
+    super(slugOptions);
     this.cacheManager = new CacheManager();
-    this.chunkedProcessor = new ChunkedProcessor();
+    this.chunkedProcessor = new ChunkedProcessor(slugOptions);
     this.metrics = MetricsCollector.getInstance();
   }
 
@@ -31,14 +36,34 @@ export class OptimizedTransformer extends EnhancedTransformer {
     const startTime = Date.now();
     let success = false;
     let nodeCount = 0;
+    const layoutOptions: LayoutOptions = {
+      layout: options.layout,
+      maxIterations: options.maxIterations,
+      minSeparation: options.minSeparation,
+      forceConfig: options.forceConfig,
+      seed: options.seed,
+      previous: options.previous,
+      granularity: options.granularity,
+      calloutNodes: options.calloutNodes,
+      calloutStyles: options.calloutStyles,
+    };
+    // Different layout options produce different documents from the same markdown.
+    // A previous revision would put a whole document into the key, so
+    // incremental transforms are not cached.
+    const useCache = options.useCache !== false && !options.previous;
+    const cacheVariant = useCache ? JSON.stringify(layoutOptions) : '';
 
     try {
       // Check cache first
-      if (options.useCache !== false) {
-        const cached = this.cacheManager.getCachedTransform(markdown);
+      if (useCache) {
+        const cached = this.cacheManager.getCachedTransform(markdown, cacheVariant);
         if (cached) {
           console.error('✨ Cache hit! Returning cached result');
           this.metrics.recordCacheHit('transform');
+          const { frontMatter, warning } = this.frontMatterParser.extract(markdown);
+          this.lastFrontMatter = frontMatter;
+          this.frontMatterWarnings = warning ? [warning] : [];
+          this.lastLayoutDecision = this.layoutDecisions.get(cached) || null;
           
           // Apply overrides
           if (options.title) cached.meta.title = options.title;
@@ -54,27 +79,39 @@ export class OptimizedTransformer extends EnhancedTransformer {
       // Use streaming for large documents
       let document: NM3Document;
       
-      if (options.useStreaming && markdown.length > 50000) {
+      // The streaming parser only splits at headings
+      const headingsOnly = (options.granularity ?? 'section') === 'section' && !options.calloutNodes;
+      if (options.useStreaming && markdown.length > 50000 && headingsOnly) {
         console.error('📊 Using streaming processor for large document');
+        const { frontMatter, body, warning } = this.frontMatterParser.extract(markdown);
+        this.lastFrontMatter = frontMatter;
+        this.frontMatterWarnings = warning ? [warning] : [];
         const sections = await this.chunkedProcessor.processLargeMarkdown(
-          markdown,
-          options.chunkSize || 1000
+          body,
+          options.chunkSize || 1000,
+          frontMatter?.title
         );
         
         // Transform sections to NM3
-        document = await this.transformSections(sections);
+        document = await this.transformSections(sections, frontMatter, {
+          ...layoutOptions,
+          seed: layoutOptions.seed ?? SeededRandom.hashSeed(markdown),
+        });
       } else {
         // Use standard transform
-        document = await this.transform(markdown);
+        document = await this.transform(markdown, layoutOptions);
       }
 
-      // Apply options
+      // Apply options (explicit arguments take precedence over front matter)
       if (options.title) document.meta.title = options.title;
       if (options.author) document.meta.author = options.author;
 
       // Cache result
-      if (options.useCache !== false) {
-        this.cacheManager.setCachedTransform(markdown, document);
+      if (useCache) {
+        this.cacheManager.setCachedTransform(markdown, document, cacheVariant);
+        if (this.lastLayoutDecision) {
+          this.layoutDecisions.set(document, this.lastLayoutDecision);
+        }
       }
 
       success = true;
@@ -87,7 +124,11 @@ export class OptimizedTransformer extends EnhancedTransformer {
     }
   }
 
-  private async transformSections(sections: any[]): Promise<NM3Document> {
+  private async transformSections(
+    sections: any[],
+    frontMatter: FrontMatter | null = null,
+    layoutOptions: LayoutOptions = {}
+  ): Promise<NM3Document> {
     // Build NM3Document directly from sections without re-parsing
     console.error(`   Converting ${sections.length} sections to nodes...`);
     
@@ -101,17 +142,18 @@ export class OptimizedTransformer extends EnhancedTransformer {
     const nodes = sections.map((section, index) => {
       const classification = classifications.get(section.id);
       
-      // Assign shape and color using parent class methods
-      const shape = this.shapeAssigner.assignShape(section, classification);
-      const color = this.colorMapper.assignColor(section, classification);
+      // Assign shape and color using parent class methods, unless overridden
+      const directive = section.directives;
+      const shape = directive?.type || this.shapeAssigner.assignShape(section, classification);
+      const color = directive?.color || this.colorMapper.assignColor(section, classification);
       
       return {
         id: section.id || `node-${index}`,
         type: shape as any,
-        x: 0, // Will be optimized
-        y: 0,
-        z: 0,
-        scale: 1.0,
+        x: directive?.pin?.x ?? 0, // Will be optimized unless pinned
+        y: directive?.pin?.y ?? 0,
+        z: directive?.pin?.z ?? 0,
+        scale: directive?.scale ?? 1.0,
         color,
         title: section.title,
         content: section.content || '',
@@ -148,11 +190,8 @@ export class OptimizedTransformer extends EnhancedTransformer {
     
     // Apply spatial optimization using parent class method
     console.error(`   Applying spatial optimization...`);
-    this.spatialOptimizer.optimize(nodes, links, {
-      useForceDirected: nodes.length < 100,
-      useCollisionResolution: true,
-      maxIterations: 60,
-    });
+    this.random = new SeededRandom(layoutOptions.seed ?? 0);
+    this.optimizeSpatialLayout(nodes, links, sections, layoutOptions);
     
     // Calculate camera
     const camera = this.calculateOptimalCamera(nodes);
@@ -169,6 +208,7 @@ export class OptimizedTransformer extends EnhancedTransformer {
       },
       camera,
     };
+    this.frontMatterParser.applyToMeta(document.meta, frontMatter);
     
     console.error(`   ✅ Streaming transform complete: ${nodes.length} nodes, ${links.length} links`);
     return document;
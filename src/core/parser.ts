@@ -1,4 +1,39 @@
-import { marked } from 'marked';
+import { Marked } from 'marked';
+import { admonitionExtension, Callout, parseCallout } from './callouts.js';
+import { FrontMatter, FrontMatterParser } from './front-matter.js';
+import { DirectiveParser, VisualDirective } from './visual-directives.js';
+import { SlugOptions, Slugger } from './slugger.js';
+import { completionOf, TaskCompletion, TaskItem, tasksOfItem, tasksOfList } from './task-lists.js';
+
+export const GRANULARITIES = ['section', 'block', 'list-item'] as const;
+/**
+ * `section` makes one section per heading; `block` also gives each list,
+ * fenced code block, table and blockquote a child section of its own, and
+ * `list-item` goes on to split lists into one child per item (nested lists
+ * become nested children)
+ */
+export type Granularity = typeof GRANULARITIES[number];
+
+export type BlockKind = 'list' | 'list-item' | 'code' | 'table' | 'blockquote' | 'callout';
+
+export interface ParseOptions {
+  /** Which parts of the markdown become sections (default: section) */
+  granularity?: Granularity;
+  /** Give callouts and admonitions child sections of their own at any granularity (default: false) */
+  calloutNodes?: boolean;
+}
+
+const BLOCK_TOKENS = new Set(['list', 'code', 'table', 'blockquote', 'admonition']);
+
+const lexer = new Marked({ extensions: [admonitionExtension] });
+
+interface SectionBody {
+  /** Heading line as written; empty for the preamble and heading-less documents */
+  heading: string;
+  tokens: any[];
+  /** Attribute block of the heading, before comment directives were merged in */
+  directive?: VisualDirective;
+}
 
 export interface ParsedSection {
   id: string;
@@ -15,39 +50,113 @@ export interface ParsedSection {
     wordCount: number;
     isQuestion: boolean;
   };
+  directives?: VisualDirective;
+  /** Source file relative to the vault root, for sections read from a directory */
+  file?: string;
+  /** Callouts and admonitions in the section's own body */
+  callouts?: Callout[];
+  /** Task list items in the section's own body, nested ones included */
+  tasks?: TaskItem[];
+  /** Checked share of `tasks`; set only when there are tasks */
+  completion?: TaskCompletion;
+  /** Set on sections split out of their parent's body (see Granularity) */
+  block?: {
+    kind: BlockKind;
+    /** Numbered list, or an item of one */
+    ordered?: boolean;
+    /** Info string of a fenced code block */
+    language?: string;
+  };
+}
+
+/**
+ * Title for a preamble or a block: its first sentence as plain text, without
+ * list, quote, emphasis and link markup, cut at 60 characters
+ */
+export function preambleTitle(text: string, fallback = 'Preamble'): string {
+  const line = text.split('\n')
+    .map(line => line.replace(/^\s*(?:[-*+]|\d+[.)]|>)\s+/, '').trim())
+    .find(line => line && !line.startsWith('```') && !line.startsWith('<')) ?? '';
+  const plain = line
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target, text) => text ?? target)
+    .replace(/[*_`~]+/g, '')
+    .trim();
+  const sentence = plain.match(/^.*?[.!?。！？](?=\s|$)/)?.[0] ?? plain;
+  if (!sentence) return fallback;
+  return sentence.length > 60 ? `${sentence.substring(0, 59).trimEnd()}…` : sentence;
 }
 
 export class MarkdownParser {
   private sections: ParsedSection[] = [];
-  private idCounter = 0;
+  private slugger: Slugger;
+  private frontMatterParser = new FrontMatterParser();
+  private frontMatter: FrontMatter | null = null;
+  private frontMatterWarning: string | null = null;
+  private directiveParser = new DirectiveParser();
+
+  constructor(slugOptions: SlugOptions = {}) {
+    this.slugger = new Slugger(slugOptions);
+  }
 
-  parse(markdown: string): ParsedSection[] {
+  parse(source: string, options: ParseOptions = {}): ParsedSection[] {
+    const { granularity = 'section', calloutNodes = false } = options;
+    if (!GRANULARITIES.includes(granularity)) {
+      throw new Error(`Unknown granularity "${granularity}". Expected one of: ${GRANULARITIES.join(', ')}`);
+    }
     this.sections = [];
-    this.idCounter = 0;
+    this.slugger.reset();
+    
+    // Strip YAML front matter so it never lands in section content
+    const { frontMatter, body: markdown, warning } = this.frontMatterParser.extract(source);
+    this.frontMatter = frontMatter;
+    this.frontMatterWarning = warning ?? null;
     
     // Parse with marked to get tokens
-    const tokens = marked.lexer(markdown);
+    const tokens = lexer.lexer(markdown);
     
     let currentSection: ParsedSection | null = null;
     let contentBuffer: string[] = [];
     let markdownBuffer: string[] = [];
+    let body: SectionBody = { heading: '', tokens: [] };
+    const bodies = new Map<ParsedSection, SectionBody>();
     const sectionStack: ParsedSection[] = [];
 
-    for (const token of tokens) {
+    // Content before the first heading becomes a level 0 section that
+    // contains the top-level sections
+    const firstHeading = tokens.findIndex(token => token.type === 'heading');
+    if (firstHeading > 0) {
+      for (const token of tokens.slice(0, firstHeading)) {
+        this.accumulate(token, contentBuffer, markdownBuffer);
+      }
+      const preamble = this.createPreamble(contentBuffer, markdownBuffer);
+      if (preamble) {
+        bodies.set(preamble, { heading: '', tokens: tokens.slice(0, firstHeading) });
+        this.sections.push(preamble);
+        sectionStack.push(preamble);
+      }
+    }
+
+    for (const token of firstHeading > 0 ? tokens.slice(firstHeading) : tokens) {
       if (token.type === 'heading') {
         // Save previous section if exists
         if (currentSection) {
           currentSection.content = contentBuffer.join('\n').trim();
           currentSection.originalMarkdown = markdownBuffer.join('\n').trim();
+          this.applyDirectives(currentSection);
           this.analyzeMetadata(currentSection);
+          bodies.set(currentSection, body);
           this.sections.push(currentSection);
         }
 
+        // Heading attribute blocks ({.torus color=...}) are not part of the title
+        const heading = this.directiveParser.extractFromHeading(token.text);
+
         // Create new section
-        const id = this.generateId(token.text);
+        const id = this.slugger.unique(heading.title);
         currentSection = {
           id,
-          title: token.text,
+          title: heading.title,
           level: token.depth,
           content: '',
           originalMarkdown: '',
@@ -60,6 +169,9 @@ export class MarkdownParser {
             isQuestion: false
           }
         };
+        if (heading.directive) {
+          currentSection.directives = heading.directive;
+        }
 
         // Manage hierarchy
         while (sectionStack.length > 0 && 
@@ -75,21 +187,13 @@ export class MarkdownParser {
         
         sectionStack.push(currentSection);
         contentBuffer = [];
-        markdownBuffer = [token.raw];
+        markdownBuffer = [
+          heading.block ? token.raw.replace(heading.block, '').replace(/[ \t]+$/gm, '') : token.raw
+        ];
+        body = { heading: markdownBuffer[0], tokens: [], directive: heading.directive || undefined };
       } else {
-        // Accumulate content
-        if (token.raw) {
-          markdownBuffer.push(token.raw);
-        }
-        if (token.type === 'paragraph' || token.type === 'text') {
-          contentBuffer.push(token.raw || token.text || '');
-        } else if (token.type === 'code') {
-          contentBuffer.push(token.text);
-        } else if (token.type === 'list') {
-          contentBuffer.push(this.listToText(token));
-        } else if (token.type === 'table') {
-          contentBuffer.push(this.tableToText(token));
-        }
+        this.accumulate(token, contentBuffer, markdownBuffer);
+        body.tokens.push(token);
       }
     }
 
@@ -97,7 +201,9 @@ export class MarkdownParser {
     if (currentSection) {
       currentSection.content = contentBuffer.join('\n').trim();
       currentSection.originalMarkdown = markdownBuffer.join('\n').trim();
+      this.applyDirectives(currentSection);
       this.analyzeMetadata(currentSection);
+      bodies.set(currentSection, body);
       this.sections.push(currentSection);
     }
 
@@ -118,29 +224,255 @@ export class MarkdownParser {
           isQuestion: markdown.includes('?')
         }
       };
+      this.applyDirectives(section);
+      bodies.set(section, { heading: '', tokens });
       this.sections.push(section);
     }
 
+    // Blocks are split out once every heading has its id, so headings keep
+    // the same ids at every granularity
+    this.sections = this.sections.flatMap(section => [
+      section,
+      ...this.splitBlocks(section, bodies.get(section)!, granularity, calloutNodes),
+    ]);
+
     return this.sections;
   }
 
-  private generateId(title: string): string {
-    // Clean title for use as ID
-    const base = title.toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .substring(0, 30);
-    
-    // Ensure uniqueness
-    let id = base || `section-${this.idCounter}`;
-    let counter = 1;
-    while (this.sections.some(s => s.id === id)) {
-      id = `${base}-${counter}`;
-      counter++;
+  /**
+   * Front matter found by the most recent parse() call, if any
+   */
+  getFrontMatter(): FrontMatter | null {
+    return this.frontMatter;
+  }
+
+  /**
+   * Why the most recent parse() call left a front matter block in the body, if it did
+   */
+  getFrontMatterWarning(): string | null {
+    return this.frontMatterWarning;
+  }
+
+  private accumulate(token: any, contentBuffer: string[], markdownBuffer: string[]): void {
+    if (token.raw) {
+      markdownBuffer.push(token.raw);
+    }
+    if (token.type === 'paragraph' || token.type === 'text') {
+      contentBuffer.push(token.raw || token.text || '');
+    } else if (token.type === 'code') {
+      contentBuffer.push(token.text);
+    } else if (token.type === 'list') {
+      contentBuffer.push(this.listToText(token));
+    } else if (token.type === 'table') {
+      contentBuffer.push(this.tableToText(token));
+    } else {
+      // Plain quotes are not content, callouts are
+      const callout = parseCallout(token);
+      if (callout) {
+        contentBuffer.push(`${callout.title}\n${callout.content}`);
+      }
+    }
+  }
+
+  /**
+   * Section for the content before the first heading, titled from the front
+   * matter or the first sentence; null when there is nothing but blank lines
+   * and directives
+   */
+  private createPreamble(contentBuffer: string[], markdownBuffer: string[]): ParsedSection | null {
+    const section: ParsedSection = {
+      id: '',
+      title: '',
+      level: 0,
+      content: contentBuffer.join('\n').trim(),
+      originalMarkdown: markdownBuffer.join('\n').trim(),
+      children: [],
+      metadata: {
+        hasCode: false,
+        hasList: false,
+        hasTable: false,
+        wordCount: 0,
+        isQuestion: false
+      }
+    };
+    this.applyDirectives(section);
+    if (!section.originalMarkdown) {
+      return null;
+    }
+
+    section.id = this.slugger.unique('preamble');
+    section.title = this.frontMatter?.title || preambleTitle(section.content || section.originalMarkdown);
+    this.analyzeMetadata(section);
+    return section;
+  }
+
+  /**
+   * Child sections for the blocks in a section's body, in document order and
+   * ahead of its subsections. The section keeps only the text around them
+   * and the callouts that stay in it, but all the tasks of its lists, so its
+   * completion covers split lists too.
+   */
+  private splitBlocks(
+    section: ParsedSection,
+    body: SectionBody,
+    granularity: Granularity,
+    calloutNodes: boolean
+  ): ParsedSection[] {
+    const splits = (token: any) => granularity === 'section'
+      ? calloutNodes && parseCallout(token) !== null
+      : BLOCK_TOKENS.has(token.type);
+
+    const callouts = body.tokens.filter(token => !splits(token))
+      .map(token => parseCallout(token))
+      .filter((callout): callout is Callout => callout !== null);
+    if (callouts.length > 0) {
+      section.callouts = callouts;
+    }
+    this.setTasks(section, body.tokens.filter(token => token.type === 'list').flatMap(tasksOfList));
+    if (!body.tokens.some(splits)) {
+      return [];
+    }
+
+    const contentBuffer: string[] = [];
+    const markdownBuffer = body.heading ? [body.heading] : [];
+    const blocks: ParsedSection[] = [];
+    const direct: string[] = [];
+    for (const token of body.tokens) {
+      if (!splits(token)) {
+        this.accumulate(token, contentBuffer, markdownBuffer);
+      } else if (token.type === 'list' && granularity === 'list-item') {
+        const items = this.splitList(token, section);
+        blocks.push(...items);
+        direct.push(...items.filter(item => item.parent === section.id).map(item => item.id));
+      } else {
+        const block = this.createBlock(token, section);
+        blocks.push(block);
+        direct.push(block.id);
+      }
+    }
+
+    section.content = contentBuffer.join('\n').trim();
+    section.originalMarkdown = markdownBuffer.join('\n').trim();
+    section.children = [...direct, ...section.children];
+    // Directive comments inside a block belong to the block
+    section.directives = body.directive;
+    this.applyDirectives(section);
+    this.analyzeMetadata(section);
+    return blocks;
+  }
+
+  private createBlock(token: any, parent: ParsedSection): ParsedSection {
+    const callout = parseCallout(token);
+    if (callout) {
+      const section = this.createBlockSection(parent, { kind: 'callout' },
+        `${parent.id} ${callout.type}`, callout.title, callout.content, token.raw);
+      section.callouts = [callout];
+      return section;
+    }
+
+    switch (token.type) {
+      case 'code':
+        return this.createBlockSection(parent, { kind: 'code', language: token.lang || undefined },
+          `${parent.id} code`, token.lang ? `Code (${token.lang})` : 'Code', token.text, token.raw);
+      case 'table': {
+        const headers = (token.header ?? []).map((cell: any) => cell.text).join(', ');
+        return this.createBlockSection(parent, { kind: 'table' },
+          `${parent.id} table`, preambleTitle(`Table: ${headers}`, 'Table'), this.tableToText(token), token.raw);
+      }
+      case 'blockquote':
+        return this.createBlockSection(parent, { kind: 'blockquote' },
+          `${parent.id} quote`, preambleTitle(token.text, 'Quote'), token.text, token.raw);
+      default: {
+        const section = this.createBlockSection(parent, { kind: 'list', ordered: token.ordered },
+          `${parent.id} list`, preambleTitle(token.items[0]?.text ?? '', 'List'), this.listToText(token), token.raw);
+        this.setTasks(section, tasksOfList(token));
+        return section;
+      }
+    }
+  }
+
+  /**
+   * One section per list item, named after its text; items of a nested list
+   * are children of the item they belong to
+   */
+  private splitList(list: any, parent: ParsedSection): ParsedSection[] {
+    const sections: ParsedSection[] = [];
+    for (const item of list.items) {
+      // The item's own lines, up to its nested list
+      const lines = item.raw.replace(/\s+$/, '').split('\n');
+      const nested = lines.findIndex((line: string, index: number) => index > 0 && /^\s+(?:[-*+]|\d+[.)])\s/.test(line));
+      const markdown = (nested > 0 ? lines.slice(0, nested) : lines).join('\n');
+      const text = item.tokens.filter((token: any) => token.type !== 'list').map((token: any) => token.raw).join('').trim();
+
+      const title = preambleTitle(text, 'Item');
+      const section = this.createBlockSection(parent, { kind: 'list-item', ordered: list.ordered }, title, title, text, markdown);
+      section.metadata.hasList = false;
+      this.setTasks(section, tasksOfItem(item));
+      if (parent.block?.kind === 'list-item') {
+        parent.children.push(section.id);
+      }
+      sections.push(section);
+
+      for (const sublist of item.tokens.filter((token: any) => token.type === 'list')) {
+        sections.push(...this.splitList(sublist, section));
+      }
     }
+    return sections;
+  }
+
+  private setTasks(section: ParsedSection, tasks: TaskItem[]): void {
+    if (tasks.length > 0) {
+      section.tasks = tasks;
+      section.completion = completionOf(tasks);
+    }
+  }
+
+  private createBlockSection(
+    parent: ParsedSection,
+    block: NonNullable<ParsedSection['block']>,
+    idText: string,
+    title: string,
+    content: string,
+    originalMarkdown: string
+  ): ParsedSection {
+    const section: ParsedSection = {
+      id: this.slugger.unique(idText),
+      title,
+      level: parent.level + 1,
+      content: content.trim(),
+      originalMarkdown: originalMarkdown.trim(),
+      parent: parent.id,
+      children: [],
+      metadata: {
+        hasCode: false,
+        hasList: false,
+        hasTable: false,
+        wordCount: 0,
+        isQuestion: false
+      },
+      block
+    };
+    this.applyDirectives(section);
+    this.analyzeMetadata(section);
+    section.metadata.hasCode ||= block.kind === 'code';
+    section.metadata.hasList ||= block.kind === 'list';
+    section.metadata.hasTable ||= block.kind === 'table';
+    return section;
+  }
+
+  /**
+   * Pull <!-- nm3: ... --> comments out of the section body.
+   * Comment values override heading attribute blocks.
+   */
+  private applyDirectives(section: ParsedSection): void {
+    const fromMarkdown = this.directiveParser.extractFromContent(section.originalMarkdown);
+    section.originalMarkdown = fromMarkdown.content.trim();
+    section.content = this.directiveParser.stripFromContent(section.content).trim();
     
-    this.idCounter++;
-    return id;
+    const directive = this.directiveParser.merge(section.directives || null, fromMarkdown.directive);
+    if (directive) {
+      section.directives = directive;
+    }
   }
 
   private analyzeMetadata(section: ParsedSection): void {
@@ -156,7 +488,9 @@ export class MarkdownParser {
     const items: string[] = [];
     if (token.items) {
       for (const item of token.items) {
-        items.push('- ' + (item.text || ''));
+        // Task items keep their checkbox
+        const checkbox = item.task ? (item.checked ? '[x] ' : '[ ] ') : '';
+        items.push('- ' + checkbox + (item.text || ''));
       }
     }
     return items.join('\n');
@@ -1,4 +1,5 @@
 import { ParsedSection } from './parser.js';
+import { SlugOptions, Slugger } from './slugger.js';
 
 export interface CrossReference {
   fromSection: string;
@@ -11,13 +12,25 @@ export interface CrossReference {
 export class ReferenceExtractor {
   private references: CrossReference[] = [];
   private sectionMap: Map<string, ParsedSection> = new Map();
+  // Sections per source file, and file lookup by path or name, for vault transforms
+  private fileSections: Map<string, ParsedSection[]> = new Map();
+  private fileNames: Map<string, string> = new Map();
+  // Must slug like the parser did, so [[Heading]] finds the section's id
+  private slugger: Slugger;
+  
+  constructor(slugOptions: SlugOptions = {}) {
+    this.slugger = new Slugger(slugOptions);
+  }
   
   extractReferences(sections: ParsedSection[]): CrossReference[] {
     this.references = [];
     this.sectionMap.clear();
+    this.fileSections.clear();
+    this.fileNames.clear();
     
     // Build section map for lookups
     sections.forEach(s => this.sectionMap.set(s.id, s));
+    this.indexFiles(sections);
     
     for (const section of sections) {
       // Extract explicit references [[node-id]]
@@ -39,8 +52,9 @@ export class ReferenceExtractor {
     let match;
     
     while ((match = pattern.exec(section.originalMarkdown)) !== null) {
-      const targetId = this.normalizeId(match[1]);
+      const targetId = this.resolveInVault(match[1], section) ?? this.normalizeId(match[1]);
       const customText = match[2];
+      if (targetId === section.id) continue;
       
       // Check if target exists
       if (this.sectionMap.has(targetId)) {
@@ -67,6 +81,65 @@ export class ReferenceExtractor {
     }
   }
   
+  private indexFiles(sections: ParsedSection[]): void {
+    for (const section of sections) {
+      if (section.file === undefined) continue;
+      
+      if (!this.fileSections.has(section.file)) {
+        this.fileSections.set(section.file, []);
+        
+        // [[notes/Setup Guide]] and [[Setup Guide]] both name notes/Setup Guide.md;
+        // a bare name shared by several files resolves to the first one
+        const withoutExtension = section.file.replace(/\.(md|markdown)$/i, '');
+        const name = withoutExtension.split('/').pop()!;
+        for (const key of [withoutExtension, name]) {
+          const normalized = this.normalizeFileKey(key);
+          if (!this.fileNames.has(normalized)) {
+            this.fileNames.set(normalized, section.file);
+          }
+        }
+      }
+      this.fileSections.get(section.file)!.push(section);
+    }
+  }
+  
+  /**
+   * Resolve [[file]], [[file#heading]] and [[#heading]] when sections come
+   * from several files. A bare [[name]] names a file first, then a heading in
+   * the linking file; otherwise the usual id lookup applies.
+   */
+  private resolveInVault(target: string, from: ParsedSection): string | null {
+    if (from.file === undefined || this.fileSections.size === 0) return null;
+    
+    const hash = target.indexOf('#');
+    const filePart = (hash === -1 ? target : target.substring(0, hash)).trim();
+    const heading = hash === -1 ? '' : target.substring(hash + 1).trim();
+    
+    const file = filePart ? this.fileNames.get(this.normalizeFileKey(filePart)) : from.file;
+    if (file !== undefined) {
+      const sections = this.fileSections.get(file)!;
+      // Unknown headings (and Obsidian block ids) fall back to the file itself
+      return (heading && this.findHeading(sections, heading)) || sections[0].id;
+    }
+    
+    return this.findHeading(this.fileSections.get(from.file) ?? [], filePart);
+  }
+  
+  private findHeading(sections: ParsedSection[], heading: string): string | null {
+    const normalized = this.normalizeId(heading);
+    const match = sections.find(s => this.normalizeId(s.title) === normalized)
+      || sections.find(s => s.id.endsWith(`--${normalized}`));
+    return match ? match.id : null;
+  }
+  
+  private normalizeFileKey(name: string): string {
+    return name.toLowerCase()
+      .replace(/\\/g, '/')
+      .replace(/\.(md|markdown)$/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  
   private extractImplicitReferences(section: ParsedSection): void {
     const content = section.content.toLowerCase();
     const patterns = [
@@ -164,10 +237,7 @@ export class ReferenceExtractor {
   }
   
   private normalizeId(text: string): string {
-    return text.toLowerCase()
-      .trim()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-');
+    return this.slugger.slug(text.trim());
   }
   
   private findBestMatch(targetId: string): string | null {
@@ -0,0 +1,53 @@
+// Seeded Pseudo-Random Number Generator
+// Makes layouts reproducible: the same seed always yields the same sequence
+
+/**
+ * Mulberry32 generator - small, fast and good enough for spatial jitter.
+ * Not suitable for anything security related.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number | string) {
+    this.seed = typeof seed === 'string' ? SeededRandom.hashSeed(seed) : seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Derive a 32-bit seed from arbitrary text (FNV-1a)
+   */
+  static hashSeed(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Next value in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Random unit vector, used to separate nodes that sit on the same spot
+   */
+  unitVector(): { x: number; y: number; z: number } {
+    const theta = this.next() * Math.PI * 2;
+    const cosPhi = this.next() * 2 - 1;
+    const sinPhi = Math.sqrt(1 - cosPhi * cosPhi);
+    return {
+      x: sinPhi * Math.cos(theta),
+      y: sinPhi * Math.sin(theta),
+      z: cosPhi,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+// Shape Geometry
+// Triangle meshes for the five NM3 shapes and for link tubes, in the same
+// proportions as the HTML viewer so exports look alike
+
+import { NM3Node } from '../models/types.js';
+
+export type Vec3 = [number, number, number];
+
+export interface MeshData {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const mul = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const length = (a: Vec3): number => Math.hypot(a[0], a[1], a[2]);
+const normalize = (a: Vec3): Vec3 => mul(a, 1 / (length(a) || 1));
+
+/**
+ * Incrementally builds an indexed mesh; faces wind counter-clockwise when
+ * seen from outside, as glTF expects
+ */
+class MeshBuilder {
+  readonly mesh: MeshData = { positions: [], normals: [], indices: [] };
+  private vertexCount = 0;
+
+  vertex(position: Vec3, normal: Vec3): number {
+    this.mesh.positions.push(...position);
+    this.mesh.normals.push(...normal);
+    return this.vertexCount++;
+  }
+
+  triangle(a: number, b: number, c: number): void {
+    this.mesh.indices.push(a, b, c);
+  }
+
+  /** Flat triangle whose normal follows from the winding */
+  flatTriangle(a: Vec3, b: Vec3, c: Vec3): void {
+    const normal = normalize(cross(sub(b, a), sub(c, a)));
+    this.triangle(this.vertex(a, normal), this.vertex(b, normal), this.vertex(c, normal));
+  }
+
+  /** Grid of (rows + 1) x (columns + 1) vertices joined into quads */
+  grid(rows: number, columns: number, at: (row: number, column: number) => { position: Vec3; normal: Vec3 }): void {
+    const start = this.vertexCount;
+    for (let row = 0; row <= rows; row++) {
+      for (let column = 0; column <= columns; column++) {
+        const { position, normal } = at(row, column);
+        this.vertex(position, normal);
+      }
+    }
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const a = start + row * (columns + 1) + column;
+        const b = a + columns + 1;
+        this.triangle(a, b, a + 1);
+        this.triangle(a + 1, b, b + 1);
+      }
+    }
+  }
+}
+
+/**
+ * Shape Geometry - mesh generation for NM3 node types and links
+ */
+export class ShapeGeometry {
+  create(type: NM3Node['type']): MeshData {
+    switch (type) {
+      case 'cube':
+        return this.cube();
+      case 'cylinder':
+        return this.cylinder();
+      case 'pyramid':
+        return this.pyramid();
+      case 'torus':
+        return this.torus();
+      default:
+        return this.sphere();
+    }
+  }
+
+  /**
+   * Tube along a quadratic curve from `from` to `to`, bent sideways by
+   * `curve` (a fraction of the link length), like the HTML viewer draws links
+   */
+  tube(from: Vec3, to: Vec3, radius: number, curve: number = 0): MeshData {
+    const builder = new MeshBuilder();
+    const steps = curve ? 16 : 1;
+    const sides = 6;
+
+    const direction = sub(to, from);
+    let side = cross(normalize(direction), [0, 1, 0]);
+    if (length(side) < 1e-3) side = [1, 0, 0];
+    const control = add(mul(add(from, to), 0.5), mul(normalize(side), curve * length(direction) * 0.5));
+
+    const points: Vec3[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      points.push(add(add(mul(from, (1 - t) * (1 - t)), mul(control, 2 * t * (1 - t))), mul(to, t * t)));
+    }
+
+    for (let step = 0; step < steps; step++) {
+      const axis = normalize(sub(points[step + 1], points[step]));
+      let u = cross(axis, [0, 1, 0]);
+      if (length(u) < 1e-3) u = cross(axis, [1, 0, 0]);
+      u = normalize(u);
+      const v = cross(axis, u);
+
+      builder.grid(1, sides, (row, column) => {
+        const angle = (2 * Math.PI * column) / sides;
+        const normal = add(mul(u, Math.cos(angle)), mul(v, Math.sin(angle)));
+        return { position: add(points[step + row], mul(normal, radius)), normal };
+      });
+    }
+
+    return builder.mesh;
+  }
+
+  private sphere(): MeshData {
+    const builder = new MeshBuilder();
+    const rings = 14;
+    const segments = 24;
+
+    builder.grid(rings, segments, (ring, segment) => {
+      const phi = (Math.PI * ring) / rings;
+      const theta = (2 * Math.PI * segment) / segments;
+      const point: Vec3 = [Math.sin(phi) * Math.cos(-theta), Math.cos(phi), Math.sin(phi) * Math.sin(-theta)];
+      return { position: point, normal: point };
+    });
+
+    return builder.mesh;
+  }
+
+  private cube(): MeshData {
+    const builder = new MeshBuilder();
+    const half = 0.8;
+    const faces: Vec3[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+    for (const normal of faces) {
+      const u: Vec3 = Math.abs(normal[1]) === 1 ? [1, 0, 0] : [0, 1, 0];
+      const v = cross(normal, u);
+      const center = mul(normal, half);
+      const corner = (su: number, sv: number) => add(add(center, mul(u, su * half)), mul(v, sv * half));
+
+      const a = builder.vertex(corner(-1, -1), normal);
+      const b = builder.vertex(corner(1, -1), normal);
+      const c = builder.vertex(corner(1, 1), normal);
+      const d = builder.vertex(corner(-1, 1), normal);
+      builder.triangle(a, b, c);
+      builder.triangle(a, c, d);
+    }
+
+    return builder.mesh;
+  }
+
+  private cylinder(): MeshData {
+    const builder = new MeshBuilder();
+    const segments = 24;
+    const radius = 0.75;
+    const height = 1;
+
+    // Side wall
+    builder.grid(1, segments, (row, segment) => {
+      const angle = (-2 * Math.PI * segment) / segments;
+      const normal: Vec3 = [Math.cos(angle), 0, Math.sin(angle)];
+      return { position: [normal[0] * radius, row === 0 ? height : -height, normal[2] * radius], normal };
+    });
+
+    // Caps
+    for (const y of [height, -height]) {
+      const normal: Vec3 = [0, Math.sign(y), 0];
+      const center = builder.vertex([0, y, 0], normal);
+      const rim: number[] = [];
+      for (let segment = 0; segment <= segments; segment++) {
+        const angle = (-2 * Math.PI * segment) / segments;
+        rim.push(builder.vertex([Math.cos(angle) * radius, y, Math.sin(angle) * radius], normal));
+      }
+      for (let segment = 0; segment < segments; segment++) {
+        if (y > 0) {
+          builder.triangle(center, rim[segment], rim[segment + 1]);
+        } else {
+          builder.triangle(center, rim[segment + 1], rim[segment]);
+        }
+      }
+    }
+
+    return builder.mesh;
+  }
+
+  private pyramid(): MeshData {
+    const builder = new MeshBuilder();
+    const half = 0.9;
+    const apex: Vec3 = [0, 1.1, 0];
+    const base: Vec3[] = [[-half, -0.7, -half], [half, -0.7, -half], [half, -0.7, half], [-half, -0.7, half]];
+
+    for (let i = 0; i < 4; i++) {
+      builder.flatTriangle(apex, base[(i + 1) % 4], base[i]);
+    }
+    builder.flatTriangle(base[0], base[1], base[2]);
+    builder.flatTriangle(base[0], base[2], base[3]);
+
+    return builder.mesh;
+  }
+
+  private torus(): MeshData {
+    const builder = new MeshBuilder();
+    const major = 0.75;
+    const minor = 0.3;
+
+    builder.grid(32, 14, (ring, side) => {
+      const u = (-2 * Math.PI * ring) / 32;
+      const v = (2 * Math.PI * side) / 14;
+      const normal: Vec3 = [Math.cos(u) * Math.cos(v), Math.sin(v), Math.sin(u) * Math.cos(v)];
+      const center: Vec3 = [Math.cos(u) * major, 0, Math.sin(u) * major];
+      return { position: add(center, mul(normal, minor)), normal };
+    });
+
+    return builder.mesh;
+  }
+}
@@ -0,0 +1,130 @@
+// Slugger
+// Turns headings into section ids and [[...]] reference targets, for any script
+
+/**
+ * `nm3` folds accents and compatibility forms and cuts ids at 30 characters;
+ * `github` reproduces GitHub's heading anchors (accents kept, every space a dash)
+ */
+export const SLUG_STYLES = ['nm3', 'github'] as const;
+export type SlugStyle = typeof SLUG_STYLES[number];
+
+export interface SlugOptions {
+  /** Default: nm3 */
+  style?: SlugStyle;
+  /** Spell Cyrillic, Greek and special Latin letters (ß, æ, ø, ...) in ASCII (default: false) */
+  transliterate?: boolean;
+  /** Longest slug in characters (default: 30 for nm3, unlimited for github) */
+  maxLength?: number;
+}
+
+const TRANSLITERATIONS: Record<string, string> = {
+  // Latin letters without a decomposition
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i', 'ħ': 'h',
+  // Cyrillic
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z', 'и': 'i',
+  'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+  'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '',
+  'э': 'e', 'ю': 'yu', 'я': 'ya', 'є': 'ye', 'і': 'i', 'ї': 'yi', 'ґ': 'g', 'ў': 'u', 'ђ': 'dj', 'ј': 'j',
+  'љ': 'lj', 'њ': 'nj', 'ћ': 'c', 'џ': 'dz', 'ѓ': 'gj', 'ќ': 'kj', 'ѕ': 'dz',
+  // Greek
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k',
+  'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't',
+  'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+  'ά': 'a', 'έ': 'e', 'ή': 'i', 'ί': 'i', 'ό': 'o', 'ύ': 'y', 'ώ': 'o', 'ϊ': 'i', 'ϋ': 'y', 'ΐ': 'i', 'ΰ': 'y',
+};
+
+/**
+ * Slug options from `MARKDOWN3D_SLUG_STYLE` (`nm3` or `github`) and
+ * `MARKDOWN3D_SLUG_TRANSLITERATE` (`true` or `false`); an invalid value is
+ * reported and leaves that option at its default
+ */
+export function slugOptionsFromEnvironment(env: NodeJS.ProcessEnv = process.env): SlugOptions {
+  const options: SlugOptions = {};
+
+  const style = env.MARKDOWN3D_SLUG_STYLE?.trim().toLowerCase();
+  if (style) {
+    if ((SLUG_STYLES as readonly string[]).includes(style)) {
+      options.style = style as SlugStyle;
+    } else {
+      console.error(`⚠️  Warning: Ignoring MARKDOWN3D_SLUG_STYLE="${env.MARKDOWN3D_SLUG_STYLE}", expected one of: ${SLUG_STYLES.join(', ')}`);
+    }
+  }
+
+  const transliterate = env.MARKDOWN3D_SLUG_TRANSLITERATE?.trim().toLowerCase();
+  if (transliterate) {
+    if (['true', '1'].includes(transliterate)) {
+      options.transliterate = true;
+    } else if (['false', '0'].includes(transliterate)) {
+      options.transliterate = false;
+    } else {
+      console.error(`⚠️  Warning: Ignoring MARKDOWN3D_SLUG_TRANSLITERATE="${env.MARKDOWN3D_SLUG_TRANSLITERATE}", expected true or false`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Slugger
+ *
+ * Letters, marks and numbers of every script are kept, so `## 日本語の見出し`
+ * becomes `日本語の見出し` and `## Привет мир` becomes `привет-мир`. In the nm3
+ * style, NFKD normalization folds full-width forms and ligatures and strips
+ * accents from Latin letters (`Café` -> `cafe`); marks that are part of a
+ * letter in other scripts (kana voicing, Devanagari vowels) stay.
+ *
+ * `unique` hands out ids for one document: a repeated slug gets `-1`, `-2`,
+ * ... in order of appearance, and a heading without letters or numbers gets
+ * `section-N`, so the same document always gets the same ids.
+ */
+export class Slugger {
+  private readonly style: SlugStyle;
+  private readonly transliterate: boolean;
+  private readonly maxLength: number;
+  private taken = new Set<string>();
+  private counter = 0;
+
+  constructor(options: SlugOptions = {}) {
+    this.style = options.style ?? 'nm3';
+    this.transliterate = options.transliterate ?? false;
+    this.maxLength = options.maxLength ?? (this.style === 'nm3' ? 30 : Infinity);
+  }
+
+  slug(text: string): string {
+    let slug = this.style === 'nm3'
+      ? text.toLowerCase().normalize('NFKD').replace(/(\p{Script=Latin})\p{M}+/gu, '$1').normalize('NFC').trim()
+      : text.toLowerCase();
+
+    if (this.transliterate) {
+      slug = slug.replace(/[^\u0000-\u007f]/g, char => TRANSLITERATIONS[char] ?? char);
+    }
+
+    slug = this.style === 'nm3'
+      ? slug.replace(/[^\p{L}\p{M}\p{N}\s-]/gu, '').replace(/\s+/g, '-')
+      : slug.replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '').replace(/ /g, '-');
+
+    // Count code points, so a cut never splits a surrogate pair
+    const characters = Array.from(slug);
+    return characters.length > this.maxLength ? characters.slice(0, this.maxLength).join('') : slug;
+  }
+
+  /**
+   * Slug of `text` that no earlier call since the last reset has returned
+   */
+  unique(text: string): string {
+    const base = this.slug(text) || `section-${this.counter}`;
+    let id = base;
+    for (let suffix = 1; this.taken.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    this.counter++;
+    this.taken.add(id);
+    return id;
+  }
+
+  reset(): void {
+    this.taken.clear();
+    this.counter = 0;
+  }
+}
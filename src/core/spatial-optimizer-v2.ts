@@ -5,6 +5,7 @@ import { NM3Node, NM3Link } from '../models/types.js';
 import { ForceDirected3D, ForceConfig } from './force-directed-3d.js';
 import { CollisionDetector } from './collision-detector.js';
 import { LayoutTemplates, LayoutType } from './layout-templates.js';
+import { SeededRandom } from './seeded-random.js';
 
 export interface OptimizationConfig {
   useForceDirected: boolean;
@@ -13,8 +14,32 @@ export interface OptimizationConfig {
   forceConfig?: Partial<ForceConfig>;
   maxIterations?: number;
   minSeparation?: number;
+  /** Node positions that must survive optimization unchanged (e.g. nm3 pin directives) */
+  pinnedPositions?: Map<string, { x: number; y: number; z: number }>;
+  /** Source of randomness; the same seed reproduces the same layout (default: seed 0) */
+  random?: SeededRandom;
 }
 
+export interface IncrementalLayoutStats {
+  /** Nodes from the previous revision that stayed within MOVE_TOLERANCE */
+  kept: number;
+  /** Nodes from the previous revision that had to move further than that */
+  moved: number;
+  /** Nodes without a previous position */
+  added: number;
+  /** Previous nodes that no longer exist */
+  removed: number;
+}
+
+// Displacement (in scene units) below which a previously placed node counts as kept
+const MOVE_TOLERANCE = 0.5;
+
+// Distance from linked neighbors at which new nodes are first placed
+const NEIGHBOR_OFFSET = 3;
+
+// Empty space kept between the bounding spheres of clusters
+const CLUSTER_GAP = 6;
+
 /**
  * Spatial Optimizer V2 - Unified spatial optimization system
  * Integrates layout templates, force-directed layout, and collision resolution
@@ -43,6 +68,13 @@ export class SpatialOptimizerV2 {
   ): void {
     console.error('🎯 Starting spatial optimization...');
 
+    const pinned = config.pinnedPositions || new Map();
+    const fixedIds = new Set(pinned.keys());
+    const random = config.random || new SeededRandom(0);
+    if (pinned.size > 0) {
+      console.error(`   Keeping ${pinned.size} pinned node(s) in place`);
+    }
+
     // Step 1: Apply layout template if specified, OR initialize with random positions
     if (config.useLayoutTemplate) {
       console.error(`   Applying ${config.useLayoutTemplate} template...`);
@@ -50,19 +82,20 @@ export class SpatialOptimizerV2 {
     } else {
       // Initialize with random positions to give force-directed layout something to work with
       console.error('   Initializing random positions...');
-      this.initializeRandomPositions(nodes);
+      this.initializeRandomPositions(nodes, random);
     }
+    this.restorePinnedPositions(nodes, pinned);
 
     // Step 2: Apply force-directed layout for organic positioning
     if (config.useForceDirected) {
       console.error('   Running force-directed simulation...');
       
-      // Create custom force config if provided
-      if (config.forceConfig) {
-        this.forceDirected = new ForceDirected3D(config.forceConfig);
-      }
+      // Custom force config applies to this run only
+      const forceDirected = config.forceConfig
+        ? new ForceDirected3D(config.forceConfig)
+        : this.forceDirected;
       
-      this.forceDirected.simulate(
+      forceDirected.simulate(
         nodes,
         links,
         config.maxIterations || 100,
@@ -70,7 +103,9 @@ export class SpatialOptimizerV2 {
           if (iter % 20 === 0) {
             console.error(`      Iteration ${iter}: energy = ${energy.toFixed(4)}`);
           }
-        }
+        },
+        fixedIds,
+        random
       );
     }
 
@@ -78,28 +113,254 @@ export class SpatialOptimizerV2 {
     if (config.useCollisionResolution) {
       console.error('   Resolving collisions...');
       
-      if (config.minSeparation) {
-        this.collisionDetector = new CollisionDetector(config.minSeparation);
-      }
+      const collisionDetector = config.minSeparation
+        ? new CollisionDetector(config.minSeparation)
+        : this.collisionDetector;
       
-      const resolved = this.collisionDetector.resolveCollisions(nodes, 20);
+      const resolved = collisionDetector.resolveCollisions(nodes, 20, fixedIds, random);
       console.error(`      Resolved ${resolved} collision(s)`);
     }
 
     // Step 4: Apply spatial conventions
-    this.applySpatialConventions(nodes);
+    this.applySpatialConventions(nodes, fixedIds);
+    this.restorePinnedPositions(nodes, pinned);
 
     console.error('✅ Spatial optimization complete!');
   }
 
+  /**
+   * Lay out a new revision of a document while preserving the previous one.
+   * Nodes whose id existed before start at their old coordinates; new nodes
+   * start next to their linked neighbors. New nodes settle with the old ones
+   * held still, then a short, heavily damped pass lets everything relax a little.
+   */
+  optimizeIncremental(
+    nodes: NM3Node[],
+    links: NM3Link[],
+    previousPositions: Map<string, { x: number; y: number; z: number }>,
+    config: OptimizationConfig = {
+      useForceDirected: true,
+      useCollisionResolution: true,
+    }
+  ): IncrementalLayoutStats {
+    console.error('🎯 Starting incremental spatial optimization...');
+
+    const pinned = config.pinnedPositions || new Map();
+    const pinnedIds = new Set(pinned.keys());
+    const random = config.random || new SeededRandom(0);
+
+    // Step 1: Restore previous positions, collect new nodes
+    const existingIds = new Set<string>();
+    const addedNodes: NM3Node[] = [];
+    for (const node of nodes) {
+      const previous = previousPositions.get(node.id);
+      if (previous) {
+        node.x = previous.x;
+        node.y = previous.y;
+        node.z = previous.z;
+        existingIds.add(node.id);
+      } else {
+        addedNodes.push(node);
+      }
+    }
+    console.error(`   Reusing ${existingIds.size} previous position(s), placing ${addedNodes.length} new node(s)`);
+
+    this.placeNearNeighbors(nodes, addedNodes, links, existingIds, random);
+    this.restorePinnedPositions(nodes, pinned);
+
+    // Step 2: Settle new nodes, then a low-temperature pass over the whole scene
+    if (config.useForceDirected && addedNodes.length > 0) {
+      console.error('   Settling new nodes...');
+      const forceDirected = config.forceConfig
+        ? new ForceDirected3D(config.forceConfig)
+        : this.forceDirected;
+      const anchoredIds = new Set([...existingIds, ...pinnedIds]);
+      forceDirected.simulate(nodes, links, config.maxIterations || 100, undefined, anchoredIds, random);
+
+      console.error('   Running low-temperature pass...');
+      new ForceDirected3D({ ...config.forceConfig, damping: 0.2 })
+        .simulate(nodes, links, 10, undefined, pinnedIds, random);
+    }
+
+    // Step 3: Resolve collisions
+    if (config.useCollisionResolution) {
+      console.error('   Resolving collisions...');
+      const collisionDetector = config.minSeparation
+        ? new CollisionDetector(config.minSeparation)
+        : this.collisionDetector;
+      const resolved = collisionDetector.resolveCollisions(nodes, 20, pinnedIds, random);
+      console.error(`      Resolved ${resolved} collision(s)`);
+    }
+
+    // Step 4: Spatial conventions only for new nodes; old ones already had them applied
+    this.applySpatialConventions(nodes, new Set([...existingIds, ...pinnedIds]));
+    this.restorePinnedPositions(nodes, pinned);
+
+    // Step 5: Report
+    let kept = 0;
+    let moved = 0;
+    for (const node of nodes) {
+      const previous = previousPositions.get(node.id);
+      if (!previous) continue;
+      const displacement = Math.hypot(node.x - previous.x, node.y - previous.y, node.z - previous.z);
+      if (displacement < MOVE_TOLERANCE) {
+        kept++;
+      } else {
+        moved++;
+      }
+    }
+    const currentIds = new Set(nodes.map(n => n.id));
+    const removed = [...previousPositions.keys()].filter(id => !currentIds.has(id)).length;
+
+    console.error(`✅ Incremental optimization complete: ${kept} kept, ${moved} moved, ` +
+                  `${addedNodes.length} added, ${removed} removed`);
+
+    return { kept, moved, added: addedNodes.length, removed };
+  }
+
+  /**
+   * Place new nodes next to the centroid of their already placed neighbors
+   * (or of the whole scene if they have none), in document order so that
+   * children follow their parents
+   */
+  private placeNearNeighbors(
+    nodes: NM3Node[],
+    addedNodes: NM3Node[],
+    links: NM3Link[],
+    placedIds: Set<string>,
+    random: SeededRandom
+  ): void {
+    const nodeIndex = new Map(nodes.map(node => [node.id, node]));
+    const placed = new Set(placedIds);
+
+    // Running centroid of the placed scene, for nodes without placed neighbors
+    const centroid = { x: 0, y: 0, z: 0, count: 0 };
+    const addToCentroid = (node: NM3Node) => {
+      centroid.x += node.x;
+      centroid.y += node.y;
+      centroid.z += node.z;
+      centroid.count++;
+    };
+    placed.forEach(id => addToCentroid(nodeIndex.get(id)!));
+
+    const neighbors = new Map<string, string[]>();
+    for (const link of links) {
+      if (!neighbors.has(link.from)) neighbors.set(link.from, []);
+      if (!neighbors.has(link.to)) neighbors.set(link.to, []);
+      neighbors.get(link.from)!.push(link.to);
+      neighbors.get(link.to)!.push(link.from);
+    }
+
+    for (const node of addedNodes) {
+      const anchors = (neighbors.get(node.id) || [])
+        .filter(id => placed.has(id))
+        .map(id => nodeIndex.get(id)!);
+
+      let center = { x: 0, y: 0, z: 0 };
+      let offset = NEIGHBOR_OFFSET;
+      if (anchors.length > 0) {
+        center = {
+          x: anchors.reduce((sum, n) => sum + n.x, 0) / anchors.length,
+          y: anchors.reduce((sum, n) => sum + n.y, 0) / anchors.length,
+          z: anchors.reduce((sum, n) => sum + n.z, 0) / anchors.length,
+        };
+      } else {
+        if (centroid.count > 0) {
+          center = {
+            x: centroid.x / centroid.count,
+            y: centroid.y / centroid.count,
+            z: centroid.z / centroid.count,
+          };
+        }
+        offset = NEIGHBOR_OFFSET * 2;
+      }
+
+      const direction = random.unitVector();
+      node.x = center.x + direction.x * offset;
+      node.y = center.y + direction.y * offset;
+      node.z = center.z + direction.z * offset;
+
+      placed.add(node.id);
+      addToCentroid(node);
+    }
+  }
+
+  /**
+   * Arrange groups of already laid-out nodes (e.g. one group per file) as
+   * separate clusters. Each group is stood in for by one sphere of its radius;
+   * a force simulation over the links between groups pulls related clusters
+   * together, then collision resolution keeps the spheres CLUSTER_GAP apart.
+   * Each group keeps its internal shape and is centered on its stand-in.
+   */
+  arrangeClusters(
+    clusters: NM3Node[][],
+    links: NM3Link[],
+    random: SeededRandom = new SeededRandom(0)
+  ): void {
+    const clusterOf = new Map<string, number>();
+    const standIns: NM3Node[] = clusters.map((cluster, index) => {
+      const { centerX, centerY, centerZ } = this.calculateBounds(cluster);
+      let radius = 1;
+      for (const node of cluster) {
+        node.x -= centerX;
+        node.y -= centerY;
+        node.z -= centerZ;
+        radius = Math.max(radius, Math.hypot(node.x, node.y, node.z) + (node.scale || 1));
+        clusterOf.set(node.id, index);
+      }
+      return { id: `cluster-${index}`, type: 'sphere' as const, x: 0, y: 0, z: 0, scale: radius, content: '' };
+    });
+    if (clusters.length < 2) return;
+
+    const pairs = new Set<string>();
+    const clusterLinks: NM3Link[] = [];
+    for (const link of links) {
+      const from = clusterOf.get(link.from);
+      const to = clusterOf.get(link.to);
+      if (from === undefined || to === undefined || from === to) continue;
+      const key = from < to ? `${from}:${to}` : `${to}:${from}`;
+      if (!pairs.has(key)) {
+        pairs.add(key);
+        clusterLinks.push({ from: standIns[from].id, to: standIns[to].id });
+      }
+    }
+
+    // Start on a Fibonacci sphere large enough to hold every cluster
+    const spread = Math.cbrt(clusters.length) * Math.max(...standIns.map(node => node.scale!)) * 2;
+    standIns.forEach((node, index) => {
+      const y = 1 - (2 * (index + 0.5)) / standIns.length;
+      const ring = Math.sqrt(1 - y * y);
+      const angle = index * Math.PI * (3 - Math.sqrt(5));
+      node.x = Math.cos(angle) * ring * spread;
+      node.y = y * spread;
+      node.z = Math.sin(angle) * ring * spread;
+    });
+
+    console.error(`   Arranging ${clusters.length} clusters (${clusterLinks.length} linked pair(s))...`);
+    new ForceDirected3D({ minDistance: 1, maxDistance: spread * 2 }).simulate(
+      standIns, clusterLinks, 100, undefined, new Set(), random
+    );
+    new CollisionDetector(CLUSTER_GAP).resolveCollisions(standIns, 100, new Set(), random);
+
+    clusters.forEach((cluster, index) => {
+      for (const node of cluster) {
+        node.x += standIns[index].x;
+        node.y += standIns[index].y;
+        node.z += standIns[index].z;
+      }
+    });
+  }
+
   /**
    * Apply NM3 spatial conventions
    * Z-axis: Importance (forward/back)
    * Y-axis: Abstraction level (up/down)
    * X-axis: Categorization (left/right)
    */
-  private applySpatialConventions(nodes: NM3Node[]): void {
+  private applySpatialConventions(nodes: NM3Node[], fixedIds: Set<string>): void {
     for (const node of nodes) {
+      if (fixedIds.has(node.id)) continue;
+
       const scale = node.scale || 1.0;
 
       // Z-axis: Importance (scale-based)
@@ -127,18 +388,37 @@ export class SpatialOptimizerV2 {
     }
   }
 
+  /**
+   * Put pinned nodes back at their exact requested coordinates
+   */
+  private restorePinnedPositions(
+    nodes: NM3Node[],
+    pinned: Map<string, { x: number; y: number; z: number }>
+  ): void {
+    if (pinned.size === 0) return;
+
+    for (const node of nodes) {
+      const position = pinned.get(node.id);
+      if (position) {
+        node.x = position.x;
+        node.y = position.y;
+        node.z = position.z;
+      }
+    }
+  }
+
   /**
    * Initialize nodes with random positions
    * This gives force-directed layout initial separation to work with
    */
-  private initializeRandomPositions(nodes: NM3Node[]): void {
+  private initializeRandomPositions(nodes: NM3Node[], random: SeededRandom): void {
     const spreadRadius = Math.max(10, nodes.length * 2);
     
     nodes.forEach(node => {
       // Random spherical distribution
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const r = Math.random() * spreadRadius;
+      const theta = random.next() * Math.PI * 2;
+      const phi = random.next() * Math.PI;
+      const r = random.next() * spreadRadius;
       
       node.x = r * Math.sin(phi) * Math.cos(theta);
       node.y = r * Math.sin(phi) * Math.sin(theta);
@@ -1,7 +1,9 @@
 import { Transform } from 'stream';
 import split2 from 'split2';
 import through2 from 'through2';
-import { ParsedSection } from './parser.js';
+import { ParsedSection, preambleTitle } from './parser.js';
+import { DirectiveParser } from './visual-directives.js';
+import { SlugOptions, Slugger } from './slugger.js';
 
 export interface StreamChunk {
   type: 'heading' | 'content' | 'code' | 'list' | 'table';
@@ -15,6 +17,14 @@ export class StreamingMarkdownParser {
   private sectionBuffer: string[] = [];
   private lineNumber: number = 0;
   private sections: ParsedSection[] = [];
+  private directiveParser = new DirectiveParser();
+  private slugger: Slugger;
+  private frontMatterTitle?: string;
+
+  constructor(slugOptions: SlugOptions = {}, frontMatterTitle?: string) {
+    this.slugger = new Slugger(slugOptions);
+    this.frontMatterTitle = frontMatterTitle;
+  }
 
   createParseStream(): Transform {
     return through2.obj((line: string, enc, callback) => {
@@ -36,10 +46,11 @@ export class StreamingMarkdownParser {
 
       // Start new section
       const level = headingMatch[1].length;
-      const title = headingMatch[2].trim();
+      const heading = this.directiveParser.extractFromHeading(headingMatch[2].trim());
+      const title = heading.title;
       
       this.currentSection = {
-        id: this.generateId(title),
+        id: this.slugger.unique(title),
         title,
         level,
         children: [],
@@ -51,8 +62,27 @@ export class StreamingMarkdownParser {
           isQuestion: title.includes('?'),
         },
       };
+      if (heading.directive) {
+        this.currentSection.directives = heading.directive;
+      }
       this.sectionBuffer = [];
     } else {
+      // Content before the first heading collects into a preamble, named once it is complete
+      if (!this.currentSection) {
+        this.currentSection = {
+          level: 0,
+          children: [],
+          metadata: {
+            hasCode: false,
+            hasList: false,
+            hasTable: false,
+            wordCount: 0,
+            isQuestion: false,
+          },
+        };
+        this.sectionBuffer = [];
+      }
+
       // Accumulate content
       if (this.currentSection) {
         this.sectionBuffer.push(line);
@@ -74,9 +104,19 @@ export class StreamingMarkdownParser {
   private finalizeSection(): void {
     if (!this.currentSection) return;
 
-    const content = this.sectionBuffer.join('\n').trim();
+    const extracted = this.directiveParser.extractFromContent(this.sectionBuffer.join('\n'));
+    const content = extracted.content.trim();
+    const directives = this.directiveParser.merge(this.currentSection.directives || null, extracted.directive);
     const wordCount = content.split(/\s+/).filter(w => w.length > 0).length;
 
+    // A preamble of blank lines and directives is dropped
+    if (this.currentSection.id === undefined) {
+      if (!content) return;
+      this.currentSection.id = this.slugger.unique('preamble');
+      this.currentSection.title = this.frontMatterTitle || preambleTitle(content);
+      this.currentSection.metadata!.isQuestion = content.includes('?');
+    }
+
     const section: ParsedSection = {
       id: this.currentSection.id!,
       title: this.currentSection.title!,
@@ -89,11 +129,22 @@ export class StreamingMarkdownParser {
         wordCount,
       },
     };
+    if (directives) {
+      section.directives = directives;
+    }
 
     this.sections.push(section);
   }
 
   getResults(): ParsedSection[] {
+    // Without any heading the whole document is one section, as in MarkdownParser
+    if (this.currentSection && this.currentSection.id === undefined) {
+      this.currentSection.id = 'main';
+      this.currentSection.title = 'Document';
+      this.currentSection.level = 1;
+      this.currentSection.metadata!.isQuestion = this.sectionBuffer.some(line => line.includes('?'));
+    }
+
     // Finalize last section
     if (this.currentSection) {
       this.finalizeSection();
@@ -101,20 +152,19 @@ export class StreamingMarkdownParser {
 
     return this.sections;
   }
-
-  private generateId(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .substring(0, 30);
-  }
 }
 
 export class ChunkedProcessor {
+  private slugOptions: SlugOptions;
+
+  constructor(slugOptions: SlugOptions = {}) {
+    this.slugOptions = slugOptions;
+  }
+
   async processLargeMarkdown(
     markdown: string,
-    chunkSize: number = 1000
+    chunkSize: number = 1000,
+    frontMatterTitle?: string
   ): Promise<ParsedSection[]> {
     const lines = markdown.split('\n');
     const chunks: string[][] = [];
@@ -124,29 +174,25 @@ export class ChunkedProcessor {
       chunks.push(lines.slice(i, i + chunkSize));
     }
 
-    // Process chunks
-    const allSections: ParsedSection[] = [];
+    // One parser reads every chunk, so a section running into the next chunk
+    // keeps its content and only the start of the document can be a preamble
+    const parser = new StreamingMarkdownParser(this.slugOptions, frontMatterTitle);
+    const stream = parser.createParseStream();
     
-    for (const chunk of chunks) {
-      const parser = new StreamingMarkdownParser();
-      const stream = parser.createParseStream();
+    // Properly await stream completion
+    await new Promise<void>((resolve, reject) => {
+      stream.on('finish', () => resolve());
+      stream.on('error', (err) => reject(err));
       
-      // Properly await stream completion
-      await new Promise<void>((resolve, reject) => {
-        stream.on('finish', () => resolve());
-        stream.on('error', (err) => reject(err));
-        
-        // Push lines through stream
+      // Push lines through stream
+      for (const chunk of chunks) {
         for (const line of chunk) {
           stream.write(line);
         }
-        stream.end();
-      });
-      
-      const sections = parser.getResults();
-      allSections.push(...sections);
-    }
+      }
+      stream.end();
+    });
 
-    return allSections;
+    return parser.getResults();
   }
 }
@@ -0,0 +1,72 @@
+// Task Lists
+// GitHub task list items (`- [ ]`, `- [x]`) with assignees, due dates and blockers
+
+export interface TaskItem {
+  /** Item text without the checkbox or nested lists */
+  text: string;
+  checked: boolean;
+  /** `@mentions` in the text, without the `@` */
+  assignees: string[];
+  /** `due:2025-03-01`, `due 2025-03-01`, `@due(2025-03-01)` or `📅 2025-03-01`, as YYYY-MM-DD */
+  due?: string;
+  /** The item says it blocks other work (`blocker`, `blocked`, `#blocker`, ⛔) */
+  blocker: boolean;
+}
+
+export interface TaskCompletion {
+  done: number;
+  total: number;
+  /** done / total, 0 to 1 */
+  ratio: number;
+}
+
+const MENTION = /(?<![\w.])@([\w-]+(?:\.[\w-]+)*)(?![\w(-])/g;
+const DUE_DATE = /(?:📅\s*|\bdue\b[:(\s]\s*)(\d{4}-\d{2}-\d{2})\b/i;
+const BLOCKER = /\bblock(?:er|ers|ed|ing)\b|⛔|🚫/i;
+
+/**
+ * Task for a list item token from marked, or null when it has no checkbox
+ */
+export function taskFromItem(item: any): TaskItem | null {
+  if (!item.task) {
+    return null;
+  }
+
+  const text = (item.tokens ?? [])
+    .filter((token: any) => token.type !== 'list')
+    .map((token: any) => token.raw)
+    .join('')
+    .trim();
+  return {
+    text,
+    checked: item.checked === true,
+    assignees: [...new Set([...text.matchAll(MENTION)].map(match => match[1]))],
+    due: text.match(DUE_DATE)?.[1],
+    blocker: BLOCKER.test(text),
+  };
+}
+
+/**
+ * Tasks of a list item token: its own, then those of its nested lists, so a
+ * checked item with open subtasks is not complete
+ */
+export function tasksOfItem(item: any): TaskItem[] {
+  const task = taskFromItem(item);
+  const tasks = task ? [task] : [];
+  for (const nested of (item.tokens ?? []).filter((token: any) => token.type === 'list')) {
+    tasks.push(...tasksOfList(nested));
+  }
+  return tasks;
+}
+
+/**
+ * Tasks of a list token, including those of nested lists, in document order
+ */
+export function tasksOfList(list: any): TaskItem[] {
+  return (list.items ?? []).flatMap(tasksOfItem);
+}
+
+export function completionOf(tasks: TaskItem[]): TaskCompletion {
+  const done = tasks.filter(task => task.checked).length;
+  return { done, total: tasks.length, ratio: tasks.length > 0 ? done / tasks.length : 0 };
+}
@@ -1,6 +1,6 @@
 import { ParsedSection } from './parser.js';
 import { NM3Document, NM3Node, NM3Link } from '../models/types.js';
-import { sanitizeColor, sanitizeShape } from '../constants/validation.js';
+import { DEFAULT_FOV, sanitizeColor, sanitizeShape } from '../constants/validation.js';
 
 export class SimpleTransformer {
   private nodeMap: Map<string, NM3Node> = new Map();
@@ -249,7 +249,7 @@ export class SimpleTransformer {
       "look-at-x": centerX,
       "look-at-y": centerY,
       "look-at-z": centerZ,
-      fov: 75
+      fov: DEFAULT_FOV
     };
   }
 
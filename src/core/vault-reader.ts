@@ -0,0 +1,143 @@
+// Vault Reader
+// Collects the markdown files of a directory (an Obsidian-style vault) for a multi-file transform
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Slugger } from './slugger.js';
+
+export interface VaultFile {
+  /** Path relative to the vault root, with forward slashes */
+  path: string;
+  /** Id-safe, unique name derived from the path; prefixes the file's node ids */
+  slug: string;
+  markdown: string;
+}
+
+export interface VaultReadOptions {
+  /** Globs a file must match (default: all .md and .markdown files) */
+  include?: string[];
+  /** Globs that drop a file or directory (default: hidden directories and node_modules) */
+  exclude?: string[];
+}
+
+export const DEFAULT_VAULT_INCLUDE = ['**/*.md', '**/*.markdown'];
+export const DEFAULT_VAULT_EXCLUDE = ['**/.*/**', '**/node_modules/**'];
+
+/**
+ * Vault Reader
+ *
+ * Globs match paths relative to the vault root and support `*`, `**`, `?`,
+ * `[abc]` and `{a,b}`. A glob without a slash matches the file name at any
+ * depth, so `*.md` finds markdown files in every folder. Files come back
+ * sorted by path, so the same directory always gives the same scene.
+ */
+export class VaultReader {
+  // File slugs prefix node ids and are not cut short
+  private readonly slugger = new Slugger({ maxLength: Infinity });
+
+  async read(directory: string, options: VaultReadOptions = {}): Promise<VaultFile[]> {
+    const root = path.resolve(directory);
+    const stats = await fs.stat(root).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`);
+    }
+
+    const include = (options.include?.length ? options.include : DEFAULT_VAULT_INCLUDE).map(glob => this.compile(glob));
+    const exclude = (options.exclude ?? DEFAULT_VAULT_EXCLUDE).map(glob => this.compile(glob));
+
+    const paths: string[] = [];
+    const walk = async (relativeDir: string) => {
+      const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        const relative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          // Test a file inside the directory so `dir/**` style excludes prune whole subtrees
+          if (!exclude.some(pattern => pattern.test(`${relative}/_`))) {
+            await walk(relative);
+          }
+        } else if (entry.isFile()) {
+          if (include.some(pattern => pattern.test(relative)) && !exclude.some(pattern => pattern.test(relative))) {
+            paths.push(relative);
+          }
+        }
+      }
+    };
+    await walk('');
+
+    paths.sort();
+    const slugs = new Set<string>();
+    const files: VaultFile[] = [];
+
+    for (const relative of paths) {
+      const markdown = await fs.readFile(path.join(root, relative), 'utf-8');
+      files.push({ path: relative, slug: this.uniqueSlug(relative, slugs), markdown });
+    }
+
+    return files;
+  }
+
+  private uniqueSlug(relative: string, taken: Set<string>): string {
+    // Path separators and punctuation become single dashes
+    const base = this.slugger.slug(relative
+      .replace(/\.[^./]+$/, '')
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')) || 'file';
+
+    let slug = base;
+    for (let counter = 2; taken.has(slug); counter++) {
+      slug = `${base}-${counter}`;
+    }
+    taken.add(slug);
+    return slug;
+  }
+
+  /**
+   * Translate a glob into a regular expression over slash-separated paths
+   */
+  private compile(glob: string): RegExp {
+    const pattern = glob.replace(/\\/g, '/').replace(/^\.\//, '');
+    const anchored = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < anchored.length; i++) {
+      const char = anchored[i];
+
+      if (char === '*') {
+        if (anchored[i + 1] === '*') {
+          // `**/` matches zero or more directories, a trailing `**` everything below
+          if (anchored[i + 2] === '/') {
+            source += '(?:[^/]*/)*';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = anchored.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          source += `[${anchored.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+          i = end;
+        }
+      } else if (char === '{') {
+        source += '(?:';
+        inGroup = true;
+      } else if (char === '}' && inGroup) {
+        source += ')';
+        inGroup = false;
+      } else if (char === ',' && inGroup) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${source}$`, 'i');
+  }
+}
@@ -0,0 +1,144 @@
+// Visual Override Directives
+// Lets authors overrule shape/color heuristics from the markdown source:
+//   <!-- nm3: type=torus color=pastel-orange scale=1.8 pin=0,10,0 -->
+//   ## Heading {.torus color=pastel-mint}
+
+import { NM3Node } from '../models/types.js';
+import { isValidColor, isValidShape } from '../constants/validation.js';
+
+export interface VisualDirective {
+  type?: NM3Node['type'];
+  color?: string;
+  scale?: number;
+  pin?: { x: number; y: number; z: number };
+}
+
+/**
+ * Directive parser - extracts and validates inline NM3 overrides.
+ * Invalid values are reported and ignored so the heuristics still apply.
+ */
+export class DirectiveParser {
+  private readonly commentPattern = /<!--\s*nm3:([\s\S]*?)-->[ \t]*\r?\n?/gi;
+  private readonly headingPattern = /\s*\{([^{}]*)\}\s*$/;
+
+  /**
+   * Extract a trailing `{.shape key=value}` attribute block from heading text.
+   * Blocks without any recognized directive are left in the title.
+   */
+  extractFromHeading(text: string): { title: string; directive: VisualDirective | null; block?: string } {
+    const match = text.match(this.headingPattern);
+    if (!match) {
+      return { title: text, directive: null };
+    }
+
+    const directive = this.parseAttributes(match[1]);
+    if (!directive) {
+      return { title: text, directive: null };
+    }
+
+    return {
+      title: text.substring(0, match.index).trim(),
+      directive,
+      block: match[0].trim(),
+    };
+  }
+
+  /**
+   * Extract all `<!-- nm3: ... -->` comments from section content.
+   * Later comments override earlier ones key by key.
+   */
+  extractFromContent(content: string): { content: string; directive: VisualDirective | null } {
+    let directive: VisualDirective | null = null;
+
+    // Directive comments are always stripped, even when none of their values are valid
+    const cleaned = content.replace(this.commentPattern, (_match, body: string) => {
+      directive = this.merge(directive, this.parseAttributes(body));
+      return '';
+    });
+
+    return { content: cleaned, directive };
+  }
+
+  /**
+   * Remove directive comments without interpreting them
+   */
+  stripFromContent(content: string): string {
+    return content.replace(this.commentPattern, '');
+  }
+
+  /**
+   * Merge two directives, values from `override` winning
+   */
+  merge(base: VisualDirective | null, override: VisualDirective | null): VisualDirective | null {
+    if (!base) return override;
+    if (!override) return base;
+    return { ...base, ...override };
+  }
+
+  private parseAttributes(body: string): VisualDirective | null {
+    const directive: VisualDirective = {};
+    const tokens = body.trim().match(/[^\s=]+=(?:"[^"]*"|'[^']*'|\S+)|\S+/g) || [];
+
+    for (const token of tokens) {
+      if (token.startsWith('.')) {
+        this.setShape(directive, token.substring(1));
+        continue;
+      }
+
+      const eq = token.indexOf('=');
+      if (eq === -1) {
+        // Bare shape names are accepted in comments as a shorthand
+        if (isValidShape(token)) {
+          directive.type = token as NM3Node['type'];
+        }
+        continue;
+      }
+
+      const key = token.substring(0, eq).toLowerCase();
+      const value = token.substring(eq + 1).replace(/^["']|["']$/g, '');
+
+      switch (key) {
+        case 'type':
+        case 'shape':
+          this.setShape(directive, value);
+          break;
+        case 'color':
+          if (isValidColor(value)) {
+            directive.color = value;
+          } else {
+            console.error(`⚠️  Ignoring nm3 directive color '${value}' (not in the NM3 palette)`);
+          }
+          break;
+        case 'scale': {
+          const scale = parseFloat(value);
+          if (isFinite(scale) && scale > 0) {
+            directive.scale = scale;
+          } else {
+            console.error(`⚠️  Ignoring nm3 directive scale '${value}'`);
+          }
+          break;
+        }
+        case 'pin':
+        case 'position': {
+          const coords = value.split(',').map(v => parseFloat(v));
+          if (coords.length === 3 && coords.every(v => isFinite(v))) {
+            directive.pin = { x: coords[0], y: coords[1], z: coords[2] };
+          } else {
+            console.error(`⚠️  Ignoring nm3 directive pin '${value}' (expected x,y,z)`);
+          }
+          break;
+        }
+      }
+    }
+
+    return Object.keys(directive).length > 0 ? directive : null;
+  }
+
+  private setShape(directive: VisualDirective, shape: string): void {
+    if (isValidShape(shape)) {
+      directive.type = shape as NM3Node['type'];
+    } else {
+      console.error(`⚠️  Ignoring nm3 directive shape '${shape}' (not a valid NM3 shape)`);
+    }
+  }
+}
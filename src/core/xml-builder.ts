@@ -1,6 +1,6 @@
 import { XMLBuilder, XMLValidator } from 'fast-xml-parser';
 import { NM3Document } from '../models/types.js';
-import { isValidColor, isValidShape, sanitizeColor } from '../constants/validation.js';
+import { DEFAULT_FOV, isValidColor, isValidShape, sanitizeColor } from '../constants/validation.js';
 
 export class NM3XMLBuilder {
   private builder: XMLBuilder;
@@ -72,13 +72,13 @@ export class NM3XMLBuilder {
 
   private buildCamera(camera: any) {
     return {
-      '@_position-x': camera['position-x'].toFixed(3),
-      '@_position-y': camera['position-y'].toFixed(3),
-      '@_position-z': camera['position-z'].toFixed(3),
-      '@_look-at-x': camera['look-at-x'].toFixed(3),
-      '@_look-at-y': camera['look-at-y'].toFixed(3),
-      '@_look-at-z': camera['look-at-z'].toFixed(3),
-      '@_fov': camera.fov || 75
+      '@_position-x': this.formatNumber(camera['position-x'], 3),
+      '@_position-y': this.formatNumber(camera['position-y'], 3),
+      '@_position-z': this.formatNumber(camera['position-z'], 3),
+      '@_look-at-x': this.formatNumber(camera['look-at-x'], 3),
+      '@_look-at-y': this.formatNumber(camera['look-at-y'], 3),
+      '@_look-at-z': this.formatNumber(camera['look-at-z'], 3),
+      '@_fov': camera.fov ?? DEFAULT_FOV
     };
   }
 
@@ -91,16 +91,16 @@ export class NM3XMLBuilder {
       const nodeObj: any = {
         '@_id': node.id,
         '@_type': node.type,
-        '@_x': node.x.toFixed(3),
-        '@_y': node.y.toFixed(3),
-        '@_z': node.z.toFixed(3)
+        '@_x': this.formatNumber(node.x, 3),
+        '@_y': this.formatNumber(node.y, 3),
+        '@_z': this.formatNumber(node.z, 3)
       };
 
       if (node.scale) nodeObj['@_scale'] = node.scale.toFixed(2);
       if (node.color) nodeObj['@_color'] = sanitizeColor(node.color);
-      if (node['rotation-x']) nodeObj['@_rotation-x'] = node['rotation-x'].toFixed(3);
-      if (node['rotation-y']) nodeObj['@_rotation-y'] = node['rotation-y'].toFixed(3);
-      if (node['rotation-z']) nodeObj['@_rotation-z'] = node['rotation-z'].toFixed(3);
+      if (node['rotation-x']) nodeObj['@_rotation-x'] = this.formatNumber(node['rotation-x'], 3);
+      if (node['rotation-y']) nodeObj['@_rotation-y'] = this.formatNumber(node['rotation-y'], 3);
+      if (node['rotation-z']) nodeObj['@_rotation-z'] = this.formatNumber(node['rotation-z'], 3);
 
       // Add child elements
       if (node.title) {
@@ -145,6 +145,15 @@ export class NM3XMLBuilder {
     return { link: linkElements };
   }
 
+  /**
+   * Fixed-precision number formatting that never emits "-0.000", so
+   * values read back by NM3XMLParser rebuild to identical XML
+   */
+  private formatNumber(value: number, digits: number): string {
+    const text = value.toFixed(digits);
+    return Number(text) === 0 ? (0).toFixed(digits) : text;
+  }
+
   validateXML(xml: string): { valid: boolean; error?: string } {
     const result = XMLValidator.validate(xml);
     if (result === true) {
@@ -0,0 +1,206 @@
+// NM3 XML Reader
+// Inverse of NM3XMLBuilder: turns NM3 XML back into a typed NM3Document
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { NM3Document, NM3Node, NM3Link } from '../models/types.js';
+
+/**
+ * NM3 XML Parser
+ *
+ * Reads the same attribute (`@_`) and CDATA (`__cdata`) conventions that
+ * NM3XMLBuilder writes, so that buildXML(parse(xml)) reproduces builder
+ * output byte for byte and parse(buildXML(doc)) restores every value at the
+ * precision the builder writes it (3 decimals for coordinates, 2 for scale).
+ *
+ * Parsing is deliberately lenient about vocabulary (unknown shapes or colors
+ * are kept as-is); use NM3Validator to check a document against the spec.
+ */
+export class NM3XMLParser {
+  private parser: XMLParser;
+
+  constructor() {
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      cdataPropName: '__cdata',
+      textNodeName: '#text',
+      parseAttributeValue: false,
+      parseTagValue: false,
+      trimValues: false,
+      isArray: (name, jpath) => jpath === 'nm3.nodes.node' || jpath === 'nm3.links.link',
+    });
+  }
+
+  parse(xml: string): NM3Document {
+    const wellFormed = XMLValidator.validate(xml);
+    if (wellFormed !== true) {
+      throw new Error(`Malformed NM3 XML at line ${wellFormed.err.line}: ${wellFormed.err.msg}`);
+    }
+
+    const root = this.parser.parse(xml).nm3;
+    if (!root || typeof root !== 'object') {
+      throw new Error('Not an NM3 document: missing <nm3> root element');
+    }
+
+    return {
+      version: '1.0',
+      meta: this.parseMeta(root.meta),
+      camera: this.parseCamera(root.camera),
+      nodes: this.parseNodes(root.nodes),
+      links: this.parseLinks(root.links),
+    };
+  }
+
+  private parseMeta(meta: any): NM3Document['meta'] {
+    const attributes = this.attributesOf(meta);
+    const result: NM3Document['meta'] = {
+      title: attributes.title ?? '',
+      created: attributes.created ?? '',
+    };
+
+    for (const key of ['modified', 'author', 'tags', 'description'] as const) {
+      if (attributes[key] !== undefined) {
+        result[key] = attributes[key];
+      }
+    }
+
+    return result;
+  }
+
+  private parseCamera(camera: any): NM3Document['camera'] {
+    const attributes = this.attributesOf(camera);
+    const path = '/nm3/camera';
+
+    const result: NM3Document['camera'] = {
+      'position-x': this.requireNumber(attributes, 'position-x', path),
+      'position-y': this.requireNumber(attributes, 'position-y', path),
+      'position-z': this.requireNumber(attributes, 'position-z', path),
+      'look-at-x': this.requireNumber(attributes, 'look-at-x', path),
+      'look-at-y': this.requireNumber(attributes, 'look-at-y', path),
+      'look-at-z': this.requireNumber(attributes, 'look-at-z', path),
+    };
+
+    const fov = this.optionalNumber(attributes, 'fov', path);
+    if (fov !== undefined) result.fov = fov;
+
+    return result;
+  }
+
+  private parseNodes(nodes: any): NM3Node[] {
+    // An empty <nodes></nodes> element parses as a (whitespace) string
+    const elements: any[] = (nodes && typeof nodes === 'object' && nodes.node) || [];
+
+    return elements.map((element, index) => {
+      const attributes = this.attributesOf(element);
+      const path = `/nm3/nodes/node[${index + 1}]`;
+
+      if (!attributes.id) {
+        throw new Error(`${path}: missing required attribute "id"`);
+      }
+
+      const node: NM3Node = {
+        id: attributes.id,
+        type: (attributes.type || 'sphere') as NM3Node['type'],
+        x: this.requireNumber(attributes, 'x', path),
+        y: this.requireNumber(attributes, 'y', path),
+        z: this.requireNumber(attributes, 'z', path),
+        content: this.textOf(element.content) ?? '',
+      };
+
+      const scale = this.optionalNumber(attributes, 'scale', path);
+      if (scale !== undefined) node.scale = scale;
+      if (attributes.color !== undefined) node.color = attributes.color;
+
+      const title = this.textOf(element.title);
+      if (title !== undefined) node.title = title;
+      const tags = this.textOf(element.tags);
+      if (tags !== undefined) node.tags = tags;
+
+      for (const key of ['rotation-x', 'rotation-y', 'rotation-z'] as const) {
+        const value = this.optionalNumber(attributes, key, path);
+        if (value !== undefined) node[key] = value;
+      }
+
+      return node;
+    });
+  }
+
+  private parseLinks(links: any): NM3Link[] {
+    const elements: any[] = (links && typeof links === 'object' && links.link) || [];
+
+    return elements.map((element, index) => {
+      const attributes = this.attributesOf(element);
+      const path = `/nm3/links/link[${index + 1}]`;
+
+      if (!attributes.from || !attributes.to) {
+        throw new Error(`${path}: links require both "from" and "to" attributes`);
+      }
+
+      const link: NM3Link = {
+        from: attributes.from,
+        to: attributes.to,
+      };
+
+      if (attributes.type !== undefined) link.type = attributes.type as NM3Link['type'];
+      if (attributes.color !== undefined) link.color = attributes.color;
+
+      const thickness = this.optionalNumber(attributes, 'thickness', path);
+      if (thickness !== undefined) link.thickness = thickness;
+      const curve = this.optionalNumber(attributes, 'curve', path);
+      if (curve !== undefined) link.curve = curve;
+
+      return link;
+    });
+  }
+
+  /**
+   * Collect `@_`-prefixed attributes into a plain name → value map
+   */
+  private attributesOf(element: any): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    if (!element || typeof element !== 'object') return attributes;
+
+    for (const [key, value] of Object.entries(element)) {
+      if (key.startsWith('@_')) {
+        attributes[key.substring(2)] = String(value);
+      }
+    }
+    return attributes;
+  }
+
+  /**
+   * Text of a child element: CDATA sections (split by the builder around
+   * `]]>`) are joined, otherwise the plain text value is used
+   */
+  private textOf(element: any): string | undefined {
+    if (element === undefined || element === null) return undefined;
+    if (typeof element !== 'object') return String(element);
+
+    if (element.__cdata !== undefined) {
+      return Array.isArray(element.__cdata) ? element.__cdata.join('') : String(element.__cdata);
+    }
+    if (element['#text'] !== undefined) {
+      return String(element['#text']).trim();
+    }
+    return '';
+  }
+
+  private requireNumber(attributes: Record<string, string>, name: string, path: string): number {
+    const value = this.optionalNumber(attributes, name, path);
+    if (value === undefined) {
+      throw new Error(`${path}: missing numeric attribute "${name}"`);
+    }
+    return value;
+  }
+
+  private optionalNumber(attributes: Record<string, string>, name: string, path: string): number | undefined {
+    const raw = attributes[name];
+    if (raw === undefined || raw.trim() === '') return undefined;
+
+    const value = Number(raw);
+    if (!isFinite(value)) {
+      throw new Error(`${path}: attribute "${name}" is not a number ("${raw}")`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,55 @@
+// Test Runner
+// Runs every src/test-*.ts script that reports through test-checks, one at a time
+
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const SOURCE_DIR = path.dirname(fileURLToPath(import.meta.url));
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Scripts to run: those that import test-checks, optionally narrowed to
+ * names containing one of the filters (`npm run test:checks -- front-matter`)
+ */
+function findTests(filters: string[]): string[] {
+  return fs.readdirSync(SOURCE_DIR)
+    .filter(file => /^test-.*\.ts$/.test(file))
+    .filter(file => fs.readFileSync(path.join(SOURCE_DIR, file), 'utf-8').includes("from './test-checks.js'"))
+    .filter(file => filters.length === 0 || filters.some(filter => file.includes(filter)))
+    .sort();
+}
+
+function runTests(): void {
+  const tests = findTests(process.argv.slice(2));
+  const failed: string[] = [];
+
+  for (const file of tests) {
+    console.log(`\n▶ ${file}`);
+    const started = Date.now();
+    const result = spawnSync(process.execPath, ['--import', 'tsx', path.join(SOURCE_DIR, file)], {
+      stdio: 'inherit',
+      timeout: TIMEOUT_MS,
+    });
+
+    if (result.status !== 0) {
+      const reason = result.error ? result.error.message : result.signal ? `killed by ${result.signal}` : `exit code ${result.status}`;
+      console.error(`✗ ${file} failed (${reason})`);
+      failed.push(file);
+    } else {
+      console.log(`✓ ${file} (${Date.now() - started}ms)`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed.length}/${tests.length} test scripts passed`);
+  if (failed.length > 0) {
+    console.error(`❌ Failed: ${failed.join(', ')}`);
+    process.exitCode = 1;
+  } else if (tests.length === 0) {
+    console.error('❌ No test scripts matched');
+    process.exitCode = 1;
+  }
+}
+
+runTests();
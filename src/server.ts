@@ -3,13 +3,113 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
   ListToolsRequestSchema,
+  McpError,
+  RootsListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { OptimizedTransformer } from './core/optimized-transformer.js';
 import { NM3XMLBuilder } from './core/xml-builder.js';
 import { MemoryMonitor } from './core/memory-monitor.js';
 import { MetricsCollector } from './core/metrics.js';
-import { ChunkManager } from './core/chunk-manager.js';
+import { ChunkManager, ChunkManifest, ChunkMode, CHUNK_MODES } from './core/chunk-manager.js';
+import { Compression, COMPRESSIONS, NM3Compressor } from './core/nm3-compression.js';
+import { NM3Validator, ValidationIssue } from './core/nm3-validator.js';
+import { NM3XMLParser } from './core/xml-parser.js';
+import { NM3HTMLExporter } from './core/html-exporter.js';
+import { NM3GLTFExporter } from './core/gltf-exporter.js';
+import { NM3GraphExporter, GRAPH_FORMATS } from './core/graph-exporter.js';
+import { NM3MarkdownExporter } from './core/markdown-exporter.js';
+import { VaultReader, DEFAULT_VAULT_INCLUDE, DEFAULT_VAULT_EXCLUDE } from './core/vault-reader.js';
+import { FileRoots, PathAccessError } from './core/file-roots.js';
+import { LAYOUT_TYPES } from './core/layout-templates.js';
+import { FORCE_LAYOUTS, LayoutDecision } from './core/enhanced-transformer.js';
+import { GRANULARITIES } from './core/parser.js';
+import { CALLOUT_KINDS } from './core/callouts.js';
+import { slugOptionsFromEnvironment } from './core/slugger.js';
+import { VALID_COLORS, VALID_SHAPES } from './constants/validation.js';
+import { NM3Document } from './models/types.js';
+import { LRUCache } from 'lru-cache';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const RELAYOUT_SELECTIONS: string[] = [...LAYOUT_TYPES, ...FORCE_LAYOUTS];
+const LAYOUT_SELECTIONS = [...RELAYOUT_SELECTIONS, 'auto'];
+
+// XML above this size is returned through chunk files instead of inline
+const INLINE_XML_LIMIT = 100000;
+
+// Chunk sessions older than this are removed (MARKDOWN3D_CHUNK_TTL_HOURS, 0 keeps them)
+const DEFAULT_CHUNK_TTL_HOURS = 24;
+
+// XML kept for repair_chunks (MARKDOWN3D_REPAIR_CACHE_MB, 0 disables it)
+const DEFAULT_REPAIR_CACHE_MB = 20;
+
+/**
+ * A non-negative number from the environment; unset, invalid or negative
+ * values fall back to the default, with a warning for the latter two
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    console.error(`⚠️  Warning: Ignoring ${name}="${raw}", expected a number of at least 0. Using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+const CHUNK_MODE_SCHEMA = {
+  type: 'string',
+  enum: CHUNK_MODES,
+  description: 'text: cut at line breaks near 30KB; elements: cut between <node>/<link> elements and wrap each chunk as a well-formed <nm3-chunk> that validate_nm3 accepts on its own (default: text)',
+  default: 'text'
+};
+
+const GRANULARITY_SCHEMA = {
+  type: 'string',
+  enum: GRANULARITIES,
+  description: 'section: one node per heading; block: lists, fenced code, tables and blockquotes also become child nodes; list-item: like block, with one node per list item and nested lists as nested nodes (default: section)',
+  default: 'section'
+};
+
+const CALLOUT_STYLES_SCHEMA = {
+  type: 'object',
+  description: `Color and shape per callout kind (${CALLOUT_KINDS.join(', ')}) or per type as written (e.g. caution, or a custom type), over the defaults`,
+  additionalProperties: {
+    type: 'object',
+    properties: {
+      color: { type: 'string', enum: VALID_COLORS },
+      shape: { type: 'string', enum: VALID_SHAPES }
+    }
+  }
+};
+
+const CHUNK_COMPRESSION_SCHEMA = {
+  type: 'string',
+  enum: COMPRESSIONS,
+  description: 'Store chunk files gzip or brotli compressed; get_chunk and assemble_chunks decompress them transparently (default: none)',
+  default: 'none'
+};
+
+const FORCE_CONFIG_SCHEMA = {
+  type: 'object',
+  description: 'Force simulation parameters',
+  properties: {
+    repulsionStrength: { type: 'number' },
+    attractionStrength: { type: 'number' },
+    centeringStrength: { type: 'number' },
+    damping: { type: 'number' },
+    minDistance: { type: 'number' },
+    maxDistance: { type: 'number' },
+    theta: { type: 'number', description: 'Barnes–Hut accuracy, 0 = exact (default: 0.8)' },
+    barnesHutThreshold: { type: 'number', description: 'Node count from which Barnes–Hut is used (default: 200)' }
+  }
+};
 
 export class Markdown3DServer {
   private server: Server;
@@ -18,8 +118,18 @@ export class Markdown3DServer {
   private memoryMonitor: MemoryMonitor;
   private metrics: MetricsCollector;
   private chunkManager: ChunkManager;
+  private chunkSources: LRUCache<string, string> | null;
+  private validator: NM3Validator;
+  private xmlParser: NM3XMLParser;
+  private htmlExporter: NM3HTMLExporter;
+  private gltfExporter: NM3GLTFExporter;
+  private graphExporter: NM3GraphExporter;
+  private markdownExporter: NM3MarkdownExporter;
+  private vaultReader: VaultReader;
+  private compressor: NM3Compressor;
+  private fileRoots: FileRoots;
 
-  constructor() {
+  constructor(fileRoots: FileRoots = FileRoots.fromEnvironment()) {
     this.server = new Server(
       {
         name: 'markdown3d-mcp',
@@ -32,31 +142,74 @@ export class Markdown3DServer {
       }
     );
 
-    this.transformer = new OptimizedTransformer();
+    // Section ids and the exporter's reference matching follow the same slug settings
+    const slugOptions = slugOptionsFromEnvironment();
+    this.transformer = new OptimizedTransformer(slugOptions);
     this.xmlBuilder = new NM3XMLBuilder();
     this.memoryMonitor = new MemoryMonitor();
     this.metrics = MetricsCollector.getInstance();
-    this.chunkManager = new ChunkManager(30000); // 30KB chunks
+    this.fileRoots = fileRoots;
+    this.chunkManager = new ChunkManager(30000, process.env.MARKDOWN3D_CHUNK_DIR, fileRoots); // 30KB chunks
+    // XML of recent chunked transforms by source hash, so repair_chunks can regenerate chunks
+    const repairCacheMB = numberFromEnv('MARKDOWN3D_REPAIR_CACHE_MB', DEFAULT_REPAIR_CACHE_MB);
+    this.chunkSources = repairCacheMB > 0 ? new LRUCache({
+      max: 10,
+      maxSize: Math.max(1, Math.floor(repairCacheMB * 1024 * 1024)), // characters, roughly bytes for NM3 XML
+      sizeCalculation: (xml) => Math.max(1, xml.length),
+    }) : null;
+    this.validator = new NM3Validator();
+    this.xmlParser = new NM3XMLParser();
+    this.htmlExporter = new NM3HTMLExporter();
+    this.gltfExporter = new NM3GLTFExporter();
+    this.graphExporter = new NM3GraphExporter();
+    this.markdownExporter = new NM3MarkdownExporter(slugOptions);
+    this.vaultReader = new VaultReader();
+    this.compressor = new NM3Compressor();
     
-    // Start memory monitoring
+    // Start memory monitoring; cached XML is the first thing to go when memory runs short
+    this.memoryMonitor.onCritical(() => {
+      if (this.chunkSources && this.chunkSources.size > 0) {
+        console.error(`🗑️  Dropping ${this.chunkSources.size} cached document(s) kept for repair_chunks`);
+        this.chunkSources.clear();
+      }
+    });
     this.memoryMonitor.startMonitoring(30000);
     
+    // Remove abandoned chunk sessions now and periodically
+    const ttlHours = numberFromEnv('MARKDOWN3D_CHUNK_TTL_HOURS', DEFAULT_CHUNK_TTL_HOURS);
+    if (ttlHours > 0) {
+      const ttlMs = ttlHours * 60 * 60 * 1000;
+      this.chunkManager.startCleanup(ttlMs, Math.min(ttlMs, 60 * 60 * 1000));
+    }
+    
     this.setupHandlers();
   }
 
   private setupHandlers() {
+    // Roots announced by the client restrict file access from then on
+    this.server.oninitialized = () => {
+      void this.refreshClientRoots();
+    };
+    this.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      await this.refreshClientRoots();
+    });
+
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'transform_to_nm3',
-          description: 'Transform markdown to NM3 (returns full XML - may truncate for large docs >300 nodes)',
+          description: 'Transform markdown to NM3 (returns full XML - may truncate for large docs >300 nodes; use inputPath/outputPath to read and write files on the server instead)',
           inputSchema: {
             type: 'object',
             properties: {
               markdown: {
                 type: 'string',
-                description: 'Markdown content to transform'
+                description: 'Markdown content to transform (or use inputPath)'
+              },
+              inputPath: {
+                type: 'string',
+                description: 'Markdown file to read instead of passing markdown inline; must be under the allowed roots'
               },
               title: {
                 type: 'string',
@@ -75,9 +228,46 @@ export class Markdown3DServer {
                 type: 'boolean',
                 description: 'Enable streaming for large documents (default: true)',
                 default: true
+              },
+              layout: {
+                type: 'string',
+                enum: LAYOUT_SELECTIONS,
+                description: 'Layout template, force-only (alias force-directed) for physics only, or auto to detect from the document structure (default: auto)',
+                default: 'auto'
+              },
+              maxIterations: {
+                type: 'number',
+                description: 'Maximum force simulation iterations (default depends on document size)'
+              },
+              minSeparation: {
+                type: 'number',
+                description: 'Minimum gap between node surfaces during collision resolution (default: 2.0)'
+              },
+              forceConfig: FORCE_CONFIG_SCHEMA,
+              granularity: GRANULARITY_SCHEMA,
+              calloutNodes: {
+                type: 'boolean',
+                description: 'Make every > [!TYPE] callout and !!! admonition a child node of its section, also at section granularity (default: false)'
+              },
+              calloutStyles: CALLOUT_STYLES_SCHEMA,
+              seed: {
+                type: 'number',
+                description: 'Layout seed; the same markdown, options and seed give the same scene (default: hash of the markdown)'
+              },
+              previousPath: {
+                type: 'string',
+                description: 'Path to the previous .nm3 revision; nodes that still exist keep their positions'
+              },
+              previousXml: {
+                type: 'string',
+                description: 'Previous NM3 XML revision (alternative to previousPath)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the NM3 XML to this file (under the allowed roots) and return only a summary; a name ending in .gz is written gzip compressed'
               }
             },
-            required: ['markdown']
+            required: []
           }
         },
         {
@@ -88,17 +278,22 @@ export class Markdown3DServer {
             properties: {
               markdown: {
                 type: 'string',
-                description: 'Markdown content to transform'
+                description: 'Markdown content to transform (or use inputPath)'
+              },
+              inputPath: {
+                type: 'string',
+                description: 'Markdown file to read instead of passing markdown inline; must be under the allowed roots'
               },
               outputName: {
                 type: 'string',
-                description: 'Output filename (default: output.nm3)',
-                default: 'output.nm3'
+                description: 'Output filename (default: the input file name with .nm3, or output.nm3)'
               },
               workingDirectory: {
                 type: 'string',
                 description: 'Working directory for output file (captures where the final NM3 should be saved)'
               },
+              chunkMode: CHUNK_MODE_SCHEMA,
+              chunkCompression: CHUNK_COMPRESSION_SCHEMA,
               title: {
                 type: 'string',
                 description: 'Optional document title'
@@ -116,9 +311,129 @@ export class Markdown3DServer {
                 type: 'boolean',
                 description: 'Enable streaming for large documents (default: true)',
                 default: true
+              },
+              layout: {
+                type: 'string',
+                enum: LAYOUT_SELECTIONS,
+                description: 'Layout template, force-only (alias force-directed) for physics only, or auto to detect from the document structure (default: auto)',
+                default: 'auto'
+              },
+              maxIterations: {
+                type: 'number',
+                description: 'Maximum force simulation iterations (default depends on document size)'
+              },
+              minSeparation: {
+                type: 'number',
+                description: 'Minimum gap between node surfaces during collision resolution (default: 2.0)'
+              },
+              forceConfig: FORCE_CONFIG_SCHEMA,
+              granularity: GRANULARITY_SCHEMA,
+              calloutNodes: {
+                type: 'boolean',
+                description: 'Make every > [!TYPE] callout and !!! admonition a child node of its section, also at section granularity (default: false)'
+              },
+              calloutStyles: CALLOUT_STYLES_SCHEMA,
+              seed: {
+                type: 'number',
+                description: 'Layout seed; the same markdown, options and seed give the same scene (default: hash of the markdown)'
+              },
+              previousPath: {
+                type: 'string',
+                description: 'Path to the previous .nm3 revision; nodes that still exist keep their positions'
+              },
+              previousXml: {
+                type: 'string',
+                description: 'Previous NM3 XML revision (alternative to previousPath)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the NM3 XML straight to this file (under the allowed roots) instead of chunking it; a name ending in .gz is written gzip compressed'
               }
             },
-            required: ['markdown']
+            required: []
+          }
+        },
+        {
+          name: 'transform_directory_to_nm3',
+          description: 'Transform a folder of markdown files (e.g. an Obsidian vault) into one NM3 scene. Each file becomes a cluster, section ids are prefixed with the file name, and [[file]] / [[file#heading]] links connect files. Large scenes are returned as chunks like transform_to_nm3_chunked',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              directory: {
+                type: 'string',
+                description: 'Directory to read markdown files from (recursively)'
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: `Globs relative to the directory; a glob without "/" matches file names at any depth (default: ${DEFAULT_VAULT_INCLUDE.join(', ')})`
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: `Globs for files or folders to skip (default: ${DEFAULT_VAULT_EXCLUDE.join(', ')})`
+              },
+              title: {
+                type: 'string',
+                description: 'Scene title (default: the directory name)'
+              },
+              author: {
+                type: 'string',
+                description: 'Optional author name'
+              },
+              layout: {
+                type: 'string',
+                enum: LAYOUT_SELECTIONS,
+                description: 'Layout used inside each file cluster (default: auto, chosen per file)',
+                default: 'auto'
+              },
+              maxIterations: {
+                type: 'number',
+                description: 'Maximum force simulation iterations per file (default depends on file size)'
+              },
+              minSeparation: {
+                type: 'number',
+                description: 'Minimum gap between node surfaces during collision resolution (default: 2.0)'
+              },
+              forceConfig: FORCE_CONFIG_SCHEMA,
+              granularity: GRANULARITY_SCHEMA,
+              calloutNodes: {
+                type: 'boolean',
+                description: 'Make every > [!TYPE] callout and !!! admonition a child node of its section, also at section granularity (default: false)'
+              },
+              calloutStyles: CALLOUT_STYLES_SCHEMA,
+              seed: {
+                type: 'number',
+                description: 'Layout seed (default: hash of the file paths and contents)'
+              },
+              previousPath: {
+                type: 'string',
+                description: 'Path to the previous .nm3 revision of this directory; nodes that still exist keep their positions'
+              },
+              previousXml: {
+                type: 'string',
+                description: 'Previous NM3 XML revision (alternative to previousPath)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the NM3 XML to this file (under the allowed roots) and return only a summary; a name ending in .gz is written gzip compressed'
+              },
+              chunked: {
+                type: 'boolean',
+                description: `Return the XML as chunk files (default: only when it exceeds ${INLINE_XML_LIMIT.toLocaleString('en-US')} characters)`
+              },
+              outputName: {
+                type: 'string',
+                description: 'Output filename for chunked output (default: <directory name>.nm3)'
+              },
+              workingDirectory: {
+                type: 'string',
+                description: 'Working directory for the final NM3 file when chunked'
+              },
+              chunkMode: CHUNK_MODE_SCHEMA,
+              chunkCompression: CHUNK_COMPRESSION_SCHEMA
+            },
+            required: ['directory']
           }
         },
         {
@@ -134,6 +449,16 @@ export class Markdown3DServer {
               outputDirectory: {
                 type: 'string',
                 description: 'Optional output directory for the final NM3 file (defaults to current working directory)'
+              },
+              keepChunks: {
+                type: 'boolean',
+                description: 'Keep the chunk files after assembly, so they can still be read with get_chunk (default: false)',
+                default: false
+              },
+              gzip: {
+                type: 'boolean',
+                description: 'Write the final file gzip compressed, as .nm3.gz (default: false)',
+                default: false
               }
             },
             required: ['manifestPath']
@@ -141,7 +466,61 @@ export class Markdown3DServer {
         },
         {
           name: 'get_chunk_status',
-          description: 'Check status of chunked output',
+          description: 'Check status of chunked output: missing chunks and chunks whose content no longer matches the manifest',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              manifestPath: {
+                type: 'string',
+                description: 'Path to manifest.json'
+              }
+            },
+            required: ['manifestPath']
+          }
+        },
+        {
+          name: 'list_chunks',
+          description: 'List the chunks of a chunked output (sequence, id, size, hash and offsets), so clients without access to the server filesystem can page through it with get_chunk',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              manifestPath: {
+                type: 'string',
+                description: 'Path to manifest.json'
+              }
+            },
+            required: ['manifestPath']
+          }
+        },
+        {
+          name: 'get_chunk',
+          description: 'Return the content of one chunk of a chunked output, verified against the hash in the manifest. Concatenating chunks 1..N in order gives the NM3 XML',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              manifestPath: {
+                type: 'string',
+                description: 'Path to manifest.json'
+              },
+              sequence: {
+                type: 'number',
+                description: 'Chunk sequence number, starting at 1'
+              }
+            },
+            required: ['manifestPath', 'sequence']
+          }
+        },
+        {
+          name: 'list_chunk_sessions',
+          description: 'List the chunked outputs waiting on the server, with their age and size. Sessions older than MARKDOWN3D_CHUNK_TTL_HOURS (default: 24) are removed automatically',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'repair_chunks',
+          description: 'Regenerate the missing or corrupted chunks of a chunked output from the cached transform, leaving intact chunks alone',
           inputSchema: {
             type: 'object',
             properties: {
@@ -155,7 +534,7 @@ export class Markdown3DServer {
         },
         {
           name: 'validate_nm3',
-          description: 'Validate NM3 XML for compliance with spec',
+          description: 'Validate NM3 XML against the spec (shapes, colors, link types, unique ids, coordinates, link targets). Returns errors and warnings with element paths',
           inputSchema: {
             type: 'object',
             properties: {
@@ -167,6 +546,197 @@ export class Markdown3DServer {
             required: ['xml']
           }
         },
+        {
+          name: 'read_nm3',
+          description: 'Parse an existing NM3 file (or XML string) and return a JSON summary of its metadata, camera, nodes and links',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              includeNodes: {
+                type: 'boolean',
+                description: 'Include per-node details (id, title, type, color, position) in the summary (default: true)',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'export_html',
+          description: 'Export an NM3 document as a single self-contained HTML page with a built-in WebGL viewer (no installs or network needed to open it)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Where to write the .html file. If omitted, the HTML is returned directly'
+              }
+            }
+          }
+        },
+        {
+          name: 'export_gltf',
+          description: 'Export an NM3 document as a glTF 2.0 scene (nodes as meshes, links as tubes, camera included) for Blender, three.js, Unity and other 3D tools',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              outputDirectory: {
+                type: 'string',
+                description: 'Directory to write the file to (created if missing)'
+              },
+              format: {
+                type: 'string',
+                enum: ['glb', 'gltf'],
+                description: 'Binary .glb or text .gltf with an embedded buffer (default: glb)',
+                default: 'glb'
+              },
+              fileName: {
+                type: 'string',
+                description: 'File name without extension (default: the input file name or the document title)'
+              }
+            },
+            required: ['outputDirectory']
+          }
+        },
+        {
+          name: 'export_graph',
+          description: 'Export the node/link structure of an NM3 document for graph tools: GraphML, GEXF (Gephi, with 3D positions and colors), Cytoscape.js JSON or Graphviz DOT',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              format: {
+                type: 'string',
+                enum: GRAPH_FORMATS,
+                description: 'Graph format to export'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Where to write the file. If omitted, the export is returned directly'
+              }
+            },
+            required: ['format']
+          }
+        },
+        {
+          name: 'export_markdown',
+          description: 'Turn an NM3 document back into markdown: headings rebuilt from contains links, node content written verbatim, other links as [[node-id|link-type]] references, meta as front matter. Use it to bring edits made in a 3D viewer back to the source document',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Where to write the .md file. If omitted, the markdown is returned directly'
+              },
+              frontMatter: {
+                type: 'boolean',
+                description: 'Write document meta as YAML front matter (default: true)',
+                default: true
+              },
+              visualDirectives: {
+                type: 'boolean',
+                description: 'Write each node\'s shape, color, scale and position as an <!-- nm3: ... --> directive so the next transform keeps them (default: false)',
+                default: false
+              }
+            }
+          }
+        },
+        {
+          name: 'relayout_nm3',
+          description: 'Re-run spatial layout on an existing NM3 document (no re-parsing). Node ids, content, shapes, colors, links and meta are kept; positions and camera are recomputed. Documents with invalid shapes or colors are refused. Returns the updated XML, or a summary with outputPath',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Path to an .nm3 file'
+              },
+              xml: {
+                type: 'string',
+                description: 'NM3 XML content (alternative to path)'
+              },
+              layout: {
+                type: 'string',
+                enum: RELAYOUT_SELECTIONS,
+                description: 'Layout template to apply, or force-only (alias force-directed) for physics only (default: force-only)',
+                default: 'force-only'
+              },
+              useForceDirected: {
+                type: 'boolean',
+                description: 'Run the force simulation after a template (default: on for force-directed or fewer than 100 nodes)'
+              },
+              forceConfig: FORCE_CONFIG_SCHEMA,
+              maxIterations: {
+                type: 'number',
+                description: 'Maximum force simulation iterations (default: 100)'
+              },
+              minSeparation: {
+                type: 'number',
+                description: 'Minimum gap between node surfaces during collision resolution (default: 2.0)'
+              },
+              seed: {
+                type: 'number',
+                description: 'Layout seed (default: hash of the node ids)'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Write the NM3 XML to this file (under the allowed roots) and return only a summary; a name ending in .gz is written gzip compressed'
+              },
+              chunked: {
+                type: 'boolean',
+                description: `Return the XML as chunk files (default: only when it exceeds ${INLINE_XML_LIMIT.toLocaleString('en-US')} characters)`
+              },
+              outputName: {
+                type: 'string',
+                description: 'Output filename for chunked output (default: relayout.nm3)'
+              },
+              workingDirectory: {
+                type: 'string',
+                description: 'Working directory for the final NM3 file when chunked'
+              },
+              chunkMode: CHUNK_MODE_SCHEMA,
+              chunkCompression: CHUNK_COMPRESSION_SCHEMA
+            }
+          }
+        },
         {
           name: 'get_performance_stats',
           description: 'Get performance and cache statistics',
@@ -193,10 +763,20 @@ export class Markdown3DServer {
       try {
         switch (name) {
           case 'transform_to_nm3': {
-            const { markdown, title, author, useCache = true, useStreaming = true } = args as any;
+            const { title, author, useCache = true, useStreaming = true, layout, maxIterations, minSeparation, forceConfig, granularity, calloutNodes, calloutStyles, seed, previousPath, previousXml, outputPath } = args as any;
+            
+            const layoutError = this.checkLayoutSelection(layout);
+            if (layoutError) {
+              return { content: [{ type: 'text', text: layoutError }] };
+            }
+            const previous = previousXml || previousPath
+              ? await this.loadNM3({ xml: previousXml, path: previousPath })
+              : undefined;
+            const markdown = await this.readMarkdownInput(args as any);
+            const outputFile = outputPath ? await this.fileRoots.resolve(outputPath) : undefined;
             
-            // Warn about large documents
-            if (markdown.length > 100000) {
+            // Warn about large documents that come back inline
+            if (markdown.length > 100000 && !outputFile) {
               console.error('⚠️  WARNING: Large document detected. Consider using transform_to_nm3_chunked instead.');
             }
             
@@ -212,7 +792,16 @@ export class Markdown3DServer {
               title,
               author,
               useCache,
-              useStreaming
+              useStreaming,
+              layout,
+              maxIterations,
+              minSeparation,
+              forceConfig,
+              granularity,
+              calloutNodes,
+              calloutStyles,
+              seed,
+              previous
             });
             
             // Build XML
@@ -235,27 +824,67 @@ export class Markdown3DServer {
             }
             
             console.error('Transform complete!');
+            if (outputFile) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: await this.writeNM3Output(nm3Doc, xml, outputFile)
+                }]
+              };
+            }
+            
+            const decision = this.transformer.getLayoutDecision();
+            const notes = (decision ? `📐 Layout: ${this.formatLayoutDecision(decision)}` : '') +
+              this.formatFrontMatterWarnings();
             return {
               content: [
                 {
                   type: 'text',
                   text: xml
-                }
+                },
+                ...(notes ? [{
+                  type: 'text',
+                  text: notes.trim()
+                }] : [])
               ]
             };
           }
           
           case 'transform_to_nm3_chunked': {
             const { 
-              markdown, 
-              outputName = 'output.nm3',
+              inputPath,
+              outputPath,
               workingDirectory,
+              chunkMode,
+              chunkCompression,
               title, 
               author, 
               useCache = true, 
-              useStreaming = true 
+              useStreaming = true,
+              layout,
+              maxIterations,
+              minSeparation,
+              forceConfig,
+              granularity,
+              calloutNodes,
+              calloutStyles,
+              seed,
+              previousPath,
+              previousXml
             } = args as any;
             
+            const layoutError = this.checkLayoutSelection(layout);
+            if (layoutError) {
+              return { content: [{ type: 'text', text: layoutError }] };
+            }
+            const previous = previousXml || previousPath
+              ? await this.loadNM3({ xml: previousXml, path: previousPath })
+              : undefined;
+            const markdown = await this.readMarkdownInput(args as any);
+            const outputFile = outputPath ? await this.fileRoots.resolve(outputPath) : undefined;
+            const outputName = (args as any).outputName
+              || (inputPath ? `${path.basename(inputPath, path.extname(inputPath))}.nm3` : 'output.nm3');
+            
             console.error('🔨 Starting chunked transformation...');
             if (workingDirectory) {
               console.error(`   📁 Capturing working directory: ${workingDirectory}`);
@@ -273,7 +902,16 @@ export class Markdown3DServer {
               title,
               author,
               useCache,
-              useStreaming
+              useStreaming,
+              layout,
+              maxIterations,
+              minSeparation,
+              forceConfig,
+              granularity,
+              calloutNodes,
+              calloutStyles,
+              seed,
+              previous
             });
             
             console.error(`   ✨ Generated ${nm3Doc.nodes.length} nodes`);
@@ -294,42 +932,145 @@ export class Markdown3DServer {
               };
             }
             
+            // A file on disk needs no chunks
+            if (outputFile) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: await this.writeNM3Output(nm3Doc, xml, outputFile)
+                }]
+              };
+            }
+            
             // Chunk the XML
             console.error('   Phase 3: Chunking XML output...');
-            const chunkResult = await this.chunkManager.chunkXML(xml, outputName, workingDirectory);
+            const chunkResult = await this.chunkXML(xml, outputName, workingDirectory, chunkMode, chunkCompression);
             
             // Return manifest info (NOT the XML itself)
-            const response = `✅ Chunked transformation complete!
-
-**Document Statistics:**
-- Nodes: ${nm3Doc.nodes.length}
-- Links: ${nm3Doc.links.length}
-- Total size: ${xml.length} characters
-
-**Chunking Results:**
-- Total chunks: ${chunkResult.chunkCount}
-- Chunk size: 30,000 characters each
-- Manifest path: ${chunkResult.manifestPath}
-- Temp directory: ${chunkResult.tempDir}
-
-**Next Step:**
-Call \`assemble_chunks\` with the manifest path to create the final ${outputName} file.
-
-**Manifest Path:**
-\`\`\`
-${chunkResult.manifestPath}
-\`\`\``;
-
             return {
               content: [{
                 type: 'text',
-                text: response
+                text: this.formatChunkedResponse(nm3Doc, xml, chunkResult, outputName)
               }]
             };
           }
           
+          case 'transform_directory_to_nm3': {
+            const {
+              directory,
+              include,
+              exclude,
+              title,
+              author,
+              layout,
+              maxIterations,
+              minSeparation,
+              forceConfig,
+              granularity,
+              calloutNodes,
+              calloutStyles,
+              seed,
+              previousPath,
+              previousXml,
+              outputPath,
+              chunked,
+              outputName,
+              workingDirectory,
+              chunkMode,
+              chunkCompression
+            } = args as any;
+            
+            const layoutError = this.checkLayoutSelection(layout);
+            if (layoutError) {
+              return { content: [{ type: 'text', text: layoutError }] };
+            }
+            const previous = previousXml || previousPath
+              ? await this.loadNM3({ xml: previousXml, path: previousPath })
+              : undefined;
+            const outputFile = outputPath ? await this.fileRoots.resolve(outputPath) : undefined;
+            
+            const root = await this.fileRoots.resolve(directory);
+            console.error(`📚 Reading markdown files from ${root}...`);
+            const files = await this.vaultReader.read(root, { include, exclude });
+            if (files.length === 0) {
+              throw new Error(`No markdown files matched in ${root}`);
+            }
+            console.error(`   Found ${files.length} file(s)`);
+            
+            const memStatus = this.memoryMonitor.checkMemory();
+            if (memStatus === 'critical') {
+              this.memoryMonitor.forceGC();
+            }
+            
+            const directoryName = path.basename(root);
+            const nm3Doc = await this.transformer.transformVault(files, {
+              title: title || directoryName,
+              layout,
+              maxIterations,
+              minSeparation,
+              forceConfig,
+              granularity,
+              calloutNodes,
+              calloutStyles,
+              seed,
+              previous
+            });
+            if (author) nm3Doc.meta.author = author;
+            
+            console.error(`✨ Generated ${nm3Doc.nodes.length} nodes from ${files.length} file(s)`);
+            const xml = this.xmlBuilder.buildXML(nm3Doc);
+            
+            const validation = this.xmlBuilder.validateXML(xml);
+            if (!validation.valid) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: `Error: Generated invalid XML - ${validation.error}`
+                }]
+              };
+            }
+            
+            if (outputFile) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: `📚 ${files.length} file(s) from ${root}\n\n` +
+                    await this.writeNM3Output(nm3Doc, xml, outputFile)
+                }]
+              };
+            }
+            
+            const decision = this.transformer.getLayoutDecision();
+            if (chunked ?? xml.length > INLINE_XML_LIMIT) {
+              const name = outputName || `${directoryName}.nm3`;
+              const chunkResult = await this.chunkXML(xml, name, workingDirectory, chunkMode, chunkCompression);
+              return {
+                content: [{
+                  type: 'text',
+                  text: `📚 ${files.length} file(s) from ${root}\n\n` +
+                    this.formatChunkedResponse(nm3Doc, xml, chunkResult, name)
+                }]
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: xml
+                },
+                {
+                  type: 'text',
+                  text: `📚 ${files.length} file(s) from ${root}` +
+                    (decision ? `\n📐 Layout: ${this.formatLayoutDecision(decision)}` : '') +
+                    this.formatFrontMatterWarnings()
+                }
+              ]
+            };
+          }
+          
           case 'assemble_chunks': {
-            const { manifestPath, outputDirectory } = args as any;
+            const { manifestPath, outputDirectory, keepChunks = false, gzip = false } = args as any;
             
             console.error('🔨 Assembling chunks...');
             if (outputDirectory) {
@@ -337,15 +1078,17 @@ ${chunkResult.manifestPath}
             }
             
             try {
-              const outputPath = await this.chunkManager.assembleChunks(manifestPath, outputDirectory);
+              const outputPath = await this.chunkManager.assembleChunks(manifestPath, outputDirectory, keepChunks, gzip);
               
               return {
                 content: [{
                   type: 'text',
-                  text: `✅ Assembly complete!\n\nFinal file written to: ${outputPath}\n\nAll chunks verified and concatenated successfully.`
+                  text: `✅ Assembly complete!\n\nFinal file written to: ${outputPath}\n\nAll chunks verified and concatenated successfully.` +
+                    (keepChunks ? `\n\nChunks kept at ${manifestPath}.` : '')
                 }]
               };
             } catch (error: any) {
+              if (error instanceof PathAccessError) throw error;
               return {
                 content: [{
                   type: 'text',
@@ -375,9 +1118,15 @@ ${chunkResult.manifestPath}
 **Total chunks:** ${status.totalChunks}
 **Chunks present:** ${status.chunksPresent}
 **Missing chunks:** ${status.missingChunks.length}
+**Corrupted chunks:** ${status.corruptChunks.length}
+**Compression:** ${status.compression}
+**Raw size:** ${this.formatBytes(status.rawSize)}
+**Stored size:** ${this.formatBytes(status.storedSize)}${status.rawSize > 0 ? ` (${Math.round(status.storedSize / status.rawSize * 100)}% of raw)` : ''}
 
 ${status.missingChunks.length > 0 ? 
-  `⚠️  Missing chunks:\n${status.missingChunks.map(c => `  - ${c}`).join('\n')}` : 
+  `⚠️  Missing chunks:\n${status.missingChunks.map(c => `  - ${c}`).join('\n')}\n\n` : ''}${status.corruptChunks.length > 0 ? 
+  `⚠️  Corrupted chunks (hash or size mismatch):\n${status.corruptChunks.map(c => `  - ${c}`).join('\n')}\n\n` : ''}${status.missingChunks.length + status.corruptChunks.length > 0 ? 
+  'Call `repair_chunks` with this manifest path to regenerate them.' : 
   '✅ All chunks present and ready for assembly'}`;
             
             return {
@@ -388,17 +1137,340 @@ ${status.missingChunks.length > 0 ?
             };
           }
           
+          case 'list_chunks': {
+            const { manifestPath } = args as any;
+            const manifest = await this.chunkManager.readManifest(manifestPath);
+            
+            const rows = manifest.chunks.map(chunk =>
+              `| ${chunk.sequence} | ${chunk.chunkId} | ${chunk.size} | ${chunk.startOffset}–${chunk.endOffset} | ${chunk.hash.substring(0, 12)}… |`);
+            const listing = `📋 Chunk Manifest
+
+**Manifest:** ${manifestPath}
+**Document ID:** ${manifest.documentId}
+**Output file:** ${manifest.outputPath}
+**Chunk mode:** ${manifest.mode ?? 'text'}
+**Compression:** ${manifest.compression ?? 'none'}
+**Total size:** ${manifest.totalSize} characters in ${manifest.totalChunks} chunk(s)
+**Source hash:** ${manifest.sourceHash}
+
+| Sequence | Chunk | Characters | Offsets | SHA-256 |
+|----------|-------|------------|---------|---------|
+${rows.join('\n')}
+
+Call \`get_chunk\` with this manifest path and a sequence number to read a chunk.`;
+            
+            return {
+              content: [{
+                type: 'text',
+                text: listing
+              }]
+            };
+          }
+          
+          case 'get_chunk': {
+            const { manifestPath, sequence } = args as any;
+            
+            if (!Number.isInteger(sequence)) {
+              throw new Error(`Invalid sequence "${sequence}". Expected a chunk number starting at 1`);
+            }
+            
+            const chunk = await this.chunkManager.readChunk(manifestPath, sequence);
+            const { metadata, totalChunks } = chunk;
+            const next = metadata.sequence < totalChunks
+              ? `Next: \`get_chunk\` with sequence ${metadata.sequence + 1}.`
+              : 'This is the last chunk.';
+            
+            // Element chunks are documents of their own and can be checked as such
+            let validity = '';
+            if (chunk.mode === 'elements') {
+              const result = this.validator.validate(chunk.content);
+              validity = result.valid
+                ? ` Valid <nm3-chunk> (${result.stats.nodes} nodes, ${result.stats.links} links).`
+                : ` ⚠️ Invalid <nm3-chunk>: ${result.errors.map(issue => `${issue.path}: ${issue.message}`).join('; ')}.`;
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: chunk.content
+                },
+                {
+                  type: 'text',
+                  text: `🧩 Chunk ${metadata.sequence} of ${totalChunks} (${metadata.chunkId}): characters ${metadata.startOffset}–${metadata.endOffset}, SHA-256 verified.${validity} ${next}`
+                }
+              ]
+            };
+          }
+          
+          case 'list_chunk_sessions': {
+            const sessions = await this.chunkManager.listSessions();
+            
+            if (sessions.length === 0) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: '📭 No pending chunk sessions'
+                }]
+              };
+            }
+            
+            const rows = sessions.map(session =>
+              `| ${session.documentId} | ${session.outputPath} | ${this.formatAge(session.ageMs)} | ${session.totalChunks} | ${(session.size / 1024).toFixed(1)} KB | ${session.manifestPath} |`);
+            const listing = `🗂️ Chunk Sessions
+
+| Document ID | Output file | Age | Chunks | Size | Manifest |
+|-------------|-------------|-----|--------|------|----------|
+${rows.join('\n')}`;
+            
+            return {
+              content: [{
+                type: 'text',
+                text: listing
+              }]
+            };
+          }
+          
+          case 'repair_chunks': {
+            const { manifestPath } = args as any;
+            const manifest = await this.chunkManager.readManifest(manifestPath);
+            
+            if (!this.chunkSources) {
+              throw new Error('repair_chunks is disabled (MARKDOWN3D_REPAIR_CACHE_MB=0). Run the chunked transform again');
+            }
+            const xml = this.chunkSources.get(manifest.sourceHash);
+            if (xml === undefined) {
+              throw new Error(`The transform behind ${manifest.documentId} is no longer cached. Run the chunked transform again`);
+            }
+            
+            const repaired = await this.chunkManager.repairChunks(manifestPath, xml);
+            return {
+              content: [{
+                type: 'text',
+                text: repaired.length > 0
+                  ? `🩹 Regenerated ${repaired.length} chunk(s): ${repaired.join(', ')}\n\n✅ All chunks present and ready for assembly`
+                  : '✅ Nothing to repair: all chunks present and intact'
+              }]
+            };
+          }
+          
           case 'validate_nm3': {
             const { xml } = args as any;
-            const validation = this.xmlBuilder.validateXML(xml);
+            const result = this.validator.validate(xml);
+            
+            const formatIssues = (issues: ValidationIssue[]) =>
+              issues.map(issue => `- \`${issue.path}\`: ${issue.message}`).join('\n');
+            
+            const summary = result.valid
+              ? `✅ Valid NM3 XML! (${result.stats.nodes} nodes, ${result.stats.links} links)`
+              : `❌ Invalid NM3 XML: ${result.errors.length} error(s), ${result.warnings.length} warning(s)`;
+            
+            const report = `${summary}
+${result.errors.length > 0 ? `\n**Errors:**\n${formatIssues(result.errors)}\n` : ''}${result.warnings.length > 0 ? `\n**Warnings:**\n${formatIssues(result.warnings)}\n` : ''}
+\`\`\`json
+${JSON.stringify(result, null, 2)}
+\`\`\``;
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: report
+                }
+              ]
+            };
+          }
+          
+          case 'read_nm3': {
+            const { includeNodes = true } = args as any;
+            const nm3Doc = await this.loadNM3(args as any);
+            const summary = this.summarizeNM3(nm3Doc, includeNodes);
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(summary, null, 2)
+                }
+              ]
+            };
+          }
+          
+          case 'export_html': {
+            const { outputPath } = args as any;
+            const nm3Doc = await this.loadNM3(args as any);
+            const html = this.htmlExporter.exportHTML(nm3Doc);
+            
+            if (!outputPath) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: html
+                }]
+              };
+            }
+            
+            const resolved = await this.fileRoots.resolve(outputPath);
+            await fs.mkdir(path.dirname(resolved), { recursive: true });
+            await fs.writeFile(resolved, html, 'utf-8');
+            console.error(`🌐 Exported HTML viewer to ${resolved}`);
+            
+            return {
+              content: [{
+                type: 'text',
+                text: `✅ HTML viewer written to ${resolved}\n\n- Nodes: ${nm3Doc.nodes.length}\n- Links: ${nm3Doc.links.length}\n- Size: ${(Buffer.byteLength(html) / 1024).toFixed(1)} KB\n\nOpen the file in any browser with WebGL.`
+              }]
+            };
+          }
+          
+          case 'export_gltf': {
+            const { outputDirectory, format = 'glb', fileName, path: inputPath } = args as any;
+            
+            if (format !== 'glb' && format !== 'gltf') {
+              throw new Error(`Invalid format "${format}". Expected "glb" or "gltf"`);
+            }
+            
+            const nm3Doc = await this.loadNM3(args as any);
+            const baseName = fileName
+              || (inputPath ? path.basename(inputPath, path.extname(inputPath)) : '')
+              || nm3Doc.meta.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+              || 'scene';
+            const data = format === 'glb'
+              ? this.gltfExporter.exportGLB(nm3Doc)
+              : Buffer.from(this.gltfExporter.exportGLTF(nm3Doc), 'utf-8');
+            
+            const resolved = await this.fileRoots.resolve(path.join(outputDirectory, `${baseName}.${format}`));
+            await fs.mkdir(path.dirname(resolved), { recursive: true });
+            await fs.writeFile(resolved, data);
+            console.error(`🧊 Exported ${format.toUpperCase()} scene to ${resolved}`);
+            
+            return {
+              content: [{
+                type: 'text',
+                text: `✅ ${format.toUpperCase()} scene written to ${resolved}\n\n- Nodes: ${nm3Doc.nodes.length}\n- Links: ${nm3Doc.links.length}\n- Size: ${(data.length / 1024).toFixed(1)} KB`
+              }]
+            };
+          }
+          
+          case 'export_graph': {
+            const { format, outputPath } = args as any;
+            
+            if (!GRAPH_FORMATS.includes(format)) {
+              throw new Error(`Invalid format "${format}". Expected one of: ${GRAPH_FORMATS.join(', ')}`);
+            }
+            
+            const nm3Doc = await this.loadNM3(args as any);
+            const output = this.graphExporter.export(nm3Doc, format);
+            
+            if (!outputPath) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: output
+                }]
+              };
+            }
+            
+            const resolved = await this.fileRoots.resolve(outputPath);
+            await fs.mkdir(path.dirname(resolved), { recursive: true });
+            await fs.writeFile(resolved, output, 'utf-8');
+            console.error(`🕸️ Exported ${format} graph to ${resolved}`);
+            
+            return {
+              content: [{
+                type: 'text',
+                text: `✅ ${format} graph written to ${resolved}\n\n- Nodes: ${nm3Doc.nodes.length}\n- Links: ${nm3Doc.links.length}\n- Size: ${(Buffer.byteLength(output) / 1024).toFixed(1)} KB`
+              }]
+            };
+          }
+          
+          case 'export_markdown': {
+            const { outputPath, frontMatter, visualDirectives } = args as any;
+            const nm3Doc = await this.loadNM3(args as any);
+            const markdown = this.markdownExporter.exportMarkdown(nm3Doc, { frontMatter, visualDirectives });
+            
+            if (!outputPath) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: markdown
+                }]
+              };
+            }
+            
+            const resolved = await this.fileRoots.resolve(outputPath);
+            await fs.mkdir(path.dirname(resolved), { recursive: true });
+            await fs.writeFile(resolved, markdown, 'utf-8');
+            console.error(`📝 Exported markdown to ${resolved}`);
+            
+            return {
+              content: [{
+                type: 'text',
+                text: `✅ Markdown written to ${resolved}\n\n- Sections: ${nm3Doc.nodes.length}\n- Size: ${(Buffer.byteLength(markdown) / 1024).toFixed(1)} KB`
+              }]
+            };
+          }
+          
+          case 'relayout_nm3': {
+            const {
+              layout,
+              useForceDirected,
+              forceConfig,
+              maxIterations,
+              minSeparation,
+              seed,
+              outputPath,
+              chunked,
+              outputName,
+              workingDirectory,
+              chunkMode,
+              chunkCompression
+            } = args as any;
+            
+            const layoutError = this.checkLayoutSelection(layout, RELAYOUT_SELECTIONS);
+            if (layoutError) {
+              return { content: [{ type: 'text', text: layoutError }] };
+            }
+            
+            const nm3Doc = await this.loadNM3(args as any);
+            const outputFile = outputPath ? await this.fileRoots.resolve(outputPath) : undefined;
+            this.transformer.relayout(nm3Doc, {
+              layout,
+              useForceDirected,
+              forceConfig,
+              maxIterations,
+              minSeparation,
+              seed
+            });
+            
+            const xml = this.xmlBuilder.buildXML(nm3Doc);
+            console.error(`✨ Relayout complete: ${nm3Doc.nodes.length} nodes repositioned`);
+            
+            if (outputFile) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: await this.writeNM3Output(nm3Doc, xml, outputFile)
+                }]
+              };
+            }
+            
+            if (chunked ?? xml.length > INLINE_XML_LIMIT) {
+              const name = outputName || 'relayout.nm3';
+              const chunkResult = await this.chunkXML(xml, name, workingDirectory, chunkMode, chunkCompression);
+              return {
+                content: [{
+                  type: 'text',
+                  text: this.formatChunkedResponse(nm3Doc, xml, chunkResult, name)
+                }]
+              };
+            }
             
             return {
               content: [
                 {
                   type: 'text',
-                  text: validation.valid 
-                    ? 'Valid NM3 XML!'
-                    : `Invalid NM3 XML: ${validation.error}`
+                  text: xml
                 }
               ]
             };
@@ -468,6 +1540,9 @@ ${metrics}
         }
       } catch (error: any) {
         console.error('Error in tool handler:', error);
+        if (error instanceof PathAccessError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
         return {
           content: [
             {
@@ -480,6 +1555,210 @@ ${metrics}
     });
   }
 
+  /**
+   * Narrow the allowed roots to the ones the client announces, if it supports roots
+   */
+  private async refreshClientRoots(): Promise<void> {
+    if (!this.server.getClientCapabilities()?.roots) return;
+    
+    try {
+      const { roots } = await this.server.listRoots();
+      const directories = roots
+        .filter(root => root.uri.startsWith('file://'))
+        .map(root => fileURLToPath(root.uri));
+      this.fileRoots.setClientRoots(directories);
+      console.error(`📂 Client roots: ${directories.join(', ') || '(none)'}`);
+      console.error(`   Allowed roots: ${this.fileRoots.getRoots().join(', ') || '(none)'}`);
+    } catch (error: any) {
+      console.error(`⚠️  Could not list client roots: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load an NM3 document from either an inline `xml` argument or a file `path`
+   */
+  private async loadNM3(args: { xml?: string; path?: string }): Promise<NM3Document> {
+    if (args.xml) {
+      return this.xmlParser.parse(args.xml);
+    }
+    if (args.path) {
+      const xml = await this.compressor.readFile(await this.fileRoots.resolve(args.path));
+      return this.xmlParser.parse(xml);
+    }
+    throw new Error('Either "xml" or "path" must be provided');
+  }
+
+  /**
+   * Markdown from the inline `markdown` argument or from `inputPath` under the allowed roots
+   */
+  private async readMarkdownInput(args: { markdown?: string; inputPath?: string }): Promise<string> {
+    if (typeof args.markdown === 'string') {
+      return args.markdown;
+    }
+    if (args.inputPath) {
+      const resolved = await this.fileRoots.resolve(args.inputPath);
+      const markdown = await fs.readFile(resolved, 'utf-8');
+      console.error(`📄 Read ${(Buffer.byteLength(markdown) / 1024).toFixed(1)} KB from ${resolved}`);
+      return markdown;
+    }
+    throw new Error('Either "markdown" or "inputPath" must be provided');
+  }
+
+  /**
+   * Write generated XML to a path already checked against the allowed roots
+   * (gzip compressed for `.gz` names); returns the summary sent instead of the XML
+   */
+  private async writeNM3Output(nm3Doc: NM3Document, xml: string, resolved: string): Promise<string> {
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    const written = await this.compressor.writeFile(resolved, xml);
+    console.error(`💾 Wrote NM3 to ${resolved}`);
+    
+    const size = Buffer.byteLength(xml);
+    const decision = this.transformer.getLayoutDecision();
+    return `✅ NM3 written to ${resolved}\n\n- Nodes: ${nm3Doc.nodes.length}\n- Links: ${nm3Doc.links.length}\n- Size: ${this.formatBytes(size)}` +
+      (written !== size ? ` (${this.formatBytes(written)} ${this.compressor.compressionOf(resolved)})` : '') +
+      (decision ? `\n\n📐 Layout: ${this.formatLayoutDecision(decision)}` : '') +
+      this.formatFrontMatterWarnings();
+  }
+
+  /**
+   * Front matter warnings of the most recent transform, one line each
+   */
+  private formatFrontMatterWarnings(): string {
+    return this.transformer.getFrontMatterWarnings().map(warning => `\n⚠️  Warning: ${warning}`).join('');
+  }
+
+  private summarizeNM3(document: NM3Document, includeNodes: boolean) {
+    const countBy = <T>(items: T[], key: (item: T) => string | undefined) => {
+      const counts: Record<string, number> = {};
+      for (const item of items) {
+        const value = key(item) || 'unspecified';
+        counts[value] = (counts[value] || 0) + 1;
+      }
+      return counts;
+    };
+
+    // A loop, not Math.min(...values): spreading a huge node list overflows the call stack
+    const axis = (name: 'x' | 'y' | 'z') => {
+      if (document.nodes.length === 0) {
+        return { min: 0, max: 0 };
+      }
+      let min = Infinity;
+      let max = -Infinity;
+      for (const node of document.nodes) {
+        min = Math.min(min, node[name]);
+        max = Math.max(max, node[name]);
+      }
+      return { min, max };
+    };
+
+    return {
+      meta: document.meta,
+      camera: document.camera,
+      stats: {
+        nodes: document.nodes.length,
+        links: document.links.length,
+        shapes: countBy(document.nodes, n => n.type),
+        colors: countBy(document.nodes, n => n.color),
+        linkTypes: countBy(document.links, l => l.type),
+        bounds: { x: axis('x'), y: axis('y'), z: axis('z') },
+      },
+      nodes: includeNodes
+        ? document.nodes.map(n => ({
+            id: n.id,
+            title: n.title,
+            type: n.type,
+            color: n.color,
+            scale: n.scale,
+            position: [n.x, n.y, n.z],
+            contentLength: n.content.length,
+          }))
+        : undefined,
+    };
+  }
+
+  /**
+   * Returns an error message for an unknown layout selection, or null if it is valid
+   */
+  private checkLayoutSelection(layout: string | undefined, allowed: string[] = LAYOUT_SELECTIONS): string | null {
+    if (layout === undefined || allowed.includes(layout)) {
+      return null;
+    }
+    return `Error: Unknown layout "${layout}". Use one of: ${allowed.join(', ')}`;
+  }
+
+  /**
+   * Write XML as chunk files and remember it, so damaged chunks can be regenerated
+   */
+  private async chunkXML(xml: string, outputName: string, workingDirectory?: string, mode?: ChunkMode, compression?: Compression) {
+    const chunkResult = await this.chunkManager.chunkXML(xml, outputName, workingDirectory, mode, compression);
+    this.chunkSources?.set(chunkResult.manifest.sourceHash, xml);
+    return chunkResult;
+  }
+
+  private formatBytes(bytes: number): string {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  private formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return 'under a minute';
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours} h ${minutes % 60} min` : `${Math.floor(hours / 24)} days`;
+  }
+
+  /**
+   * Manifest summary returned instead of the XML when output is chunked
+   */
+  private formatChunkedResponse(
+    nm3Doc: NM3Document,
+    xml: string,
+    chunkResult: { chunkCount: number; manifestPath: string; tempDir: string; manifest: ChunkManifest },
+    outputName: string
+  ): string {
+    const decision = this.transformer.getLayoutDecision();
+    const { compression = 'none', chunks } = chunkResult.manifest;
+    const storedSize = chunks.reduce((sum, chunk) => sum + (chunk.storedSize ?? 0), 0);
+    return `✅ Chunked transformation complete!
+
+**Document Statistics:**
+- Nodes: ${nm3Doc.nodes.length}
+- Links: ${nm3Doc.links.length}
+- Total size: ${xml.length} characters
+${decision ? `
+**Layout:**
+- ${this.formatLayoutDecision(decision)}
+` : ''}
+**Chunking Results:**
+- Total chunks: ${chunkResult.chunkCount}
+- Chunk size: ${chunkResult.manifest.mode === 'elements' ? 'up to about 30,000 characters, split between elements' : '30,000 characters each'}
+${compression !== 'none' ? `- Compression: ${compression} (${this.formatBytes(storedSize)} on disk)
+` : ''}- Manifest path: ${chunkResult.manifestPath}
+- Temp directory: ${chunkResult.tempDir}
+
+**Next Step:**
+Call \`assemble_chunks\` with the manifest path to create the final ${outputName} file.
+Without access to the server's filesystem, read the XML with \`get_chunk\` (sequence 1 to ${chunkResult.chunkCount}) instead.
+
+**Manifest Path:**
+\`\`\`
+${chunkResult.manifestPath}
+\`\`\``;
+  }
+
+  private formatLayoutDecision(decision: LayoutDecision): string {
+    const physics = decision.forceDirected
+      ? `force-directed refinement (${decision.maxIterations} iterations)`
+      : 'no force-directed refinement';
+    const summary = `${decision.layout} (requested: ${decision.requested}) — ${decision.reason}; ${physics}; seed ${decision.seed}`;
+    if (!decision.incremental) {
+      return summary;
+    }
+    const { kept, moved, added, removed } = decision.incremental;
+    return `${summary}; ${kept} kept, ${moved} moved, ${added} added, ${removed} removed`;
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
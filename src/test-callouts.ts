@@ -0,0 +1,108 @@
+// Callouts Test
+// Obsidian callouts and MkDocs admonitions as blocks with a kind, color and shape
+
+import { calloutKind, calloutStyle } from './core/callouts.js';
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3MarkdownExporter } from './core/markdown-exporter.js';
+import { MarkdownParser } from './core/parser.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `# Deploy
+
+Ship the release.
+
+> [!WARNING] Backups first
+> Take a snapshot before you start.
+
+!!! tip "Faster builds"
+    Use the cache.
+
+    It helps twice.
+
+> [!FAQ]-
+> Does it roll back?
+
+> [!CAUTION]
+> Mind the gap.
+
+> A plain quote.
+
+## Rollback
+
+??? danger
+    Data loss ahead.
+`;
+
+async function testCallouts(check: Check) {
+  console.log('📣 Testing callouts...\n');
+
+  // Test 1: Recognition
+  console.log('Test 1: Recognition');
+  const parser = new MarkdownParser();
+  const [deploy, rollback] = parser.parse(source);
+  const callouts = deploy.callouts ?? [];
+  check('Obsidian callouts and admonitions found, plain quotes skipped', callouts.map(c => c.type).join() === 'warning,tip,faq,caution');
+  check('titles from the marker line', callouts[0].title === 'Backups first' && callouts[1].title === 'Faster builds');
+  check('untitled callouts titled after their type', callouts[2].title === 'Faq' && rollback.callouts?.[0].title === 'Danger');
+  check('aliases map to kinds', callouts[2].kind === 'question' && callouts[3].kind === 'warning' &&
+    calloutKind('tldr') === 'abstract' && calloutKind('recipe') === 'note');
+  check('bodies without markers or indentation', callouts[0].content === 'Take a snapshot before you start.' &&
+    callouts[1].content === 'Use the cache.\n\nIt helps twice.');
+  check('callouts count as section content', deploy.content.includes('Take a snapshot') && !deploy.content.includes('plain quote'));
+  check('collapsible admonitions recognized', rollback.callouts?.[0].kind === 'danger');
+
+  // Test 2: Callout nodes
+  console.log('\nTest 2: Callout nodes');
+  const split = parser.parse(source, { calloutNodes: true });
+  check('one child per callout at section granularity', split.map(s => s.id).join() ===
+    'deploy,deploy-warning,deploy-tip,deploy-faq,deploy-caution,rollback,rollback-danger');
+  check('section keeps its text and plain quotes', split[0].originalMarkdown.includes('> A plain quote.') &&
+    !split[0].originalMarkdown.includes('[!WARNING]') && split[0].callouts === undefined);
+  const blocks = parser.parse(source, { granularity: 'block' });
+  check('callouts are callout blocks at block granularity', blocks.find(s => s.id === 'deploy-warning')?.block?.kind === 'callout' &&
+    blocks.find(s => s.id === 'deploy-quote')?.block?.kind === 'blockquote');
+
+  // Test 3: Styles
+  console.log('\nTest 3: Styles');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source, { calloutNodes: true });
+  const node = (id: string) => doc.nodes.find(n => n.id === id)!;
+  check('warning is an orange pyramid', node('deploy-warning').color === 'pastel-orange' && node('deploy-warning').type === 'pyramid');
+  check('tip is green, question yellow, danger pink', node('deploy-tip').color === 'pastel-green' &&
+    node('deploy-faq').color === 'pastel-yellow' && node('rollback-danger').color === 'pastel-pink');
+  check('tagged with their kind', node('deploy-faq').tags?.split(',').includes('callout-question') === true);
+
+  const styled = await transformer.transform(source, {
+    calloutNodes: true,
+    calloutStyles: { warning: { color: 'pastel-gray' }, caution: { shape: 'cube' } },
+  });
+  const styledNode = (id: string) => styled.nodes.find(n => n.id === id)!;
+  check('overrides by kind', styledNode('deploy-warning').color === 'pastel-gray' && styledNode('deploy-warning').type === 'pyramid');
+  check('overrides by type win over the kind', styledNode('deploy-caution').type === 'cube' &&
+    styledNode('deploy-caution').color === 'pastel-gray');
+  const directed = await transformer.transform('# A\n\n> [!TIP]\n> <!-- nm3: color=pastel-rose -->\n> Quick.', { calloutNodes: true });
+  check('directives win over callout styles, for the callout only', directed.nodes[1]?.color === 'pastel-rose' &&
+    directed.nodes[0].color !== 'pastel-rose');
+  check('same callout, same style', JSON.stringify(calloutStyle(callouts[3])) === JSON.stringify(calloutStyle(callouts[0])));
+
+  let rejected = false;
+  try {
+    await transformer.transform(source, { calloutStyles: { warning: { color: 'red' as any } } });
+  } catch {
+    rejected = true;
+  }
+  check('colors outside the palette rejected', rejected);
+
+  const sectionOnly = await transformer.transform('# Outage\n\nThe service went down.\n\n> [!DANGER]\n> Customers affected.');
+  check('callouts color the section they stay in', sectionOnly.nodes[0].color === 'pastel-pink');
+
+  // Test 4: Markdown export
+  console.log('\nTest 4: Markdown export');
+  const markdown = new NM3MarkdownExporter().exportMarkdown(doc, { frontMatter: false });
+  const again = await transformer.transform(markdown, { calloutNodes: true });
+  check('callouts written back verbatim', markdown.includes('> [!WARNING] Backups first\n> Take a snapshot') &&
+    markdown.includes('!!! tip "Faster builds"\n    Use the cache.'));
+  check('round trip keeps nodes', again.nodes.map(n => `${n.id}:${n.color}`).join() === doc.nodes.map(n => `${n.id}:${n.color}`).join());
+}
+
+runChecks('callout', testCallouts);
@@ -0,0 +1,28 @@
+// Test Checks
+// Shared ✓/✗ reporting for the src/test-*.ts scripts that `npm test` runs
+
+export type Check = (label: string, condition: boolean) => void;
+
+/**
+ * Runs a test with a `check` that prints one ✓/✗ line per condition.
+ * A failed check or a thrown error sets a non-zero exit code, so the
+ * test runner sees the failure.
+ */
+export async function runChecks(name: string, test: (check: Check) => Promise<void>): Promise<void> {
+  let failures = 0;
+  const check: Check = (label, condition) => {
+    console.log(`  ${condition ? '✓' : '✗'} ${label}`);
+    if (!condition) failures++;
+  };
+
+  try {
+    await test(check);
+  } catch (error) {
+    console.error('\n❌ Test threw:', error);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(failures === 0 ? `\n✅ All ${name} checks passed` : `\n❌ ${failures} check(s) failed`);
+  if (failures > 0) process.exitCode = 1;
+}
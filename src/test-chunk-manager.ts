@@ -0,0 +1,199 @@
+// Chunk Manager Test
+// Chunks written by chunkXML can be listed, read back one by one, repaired and assembled
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ChunkManager } from './core/chunk-manager.js';
+import { FileRoots } from './core/file-roots.js';
+import { NM3Compressor } from './core/nm3-compression.js';
+import { NM3Validator } from './core/nm3-validator.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<nm3 version="1.0">
+  <nodes>
+${Array.from({ length: 60 }, (_, i) => `    <node id="n${i}" type="sphere" x="${i}" y="0" z="0"><![CDATA[# Node ${i} <b>bold</b>]]></node>`).join('\n')}
+  </nodes>
+</nm3>
+`;
+
+// Content that trips up a tag-counting split: markup inside CDATA and attributes
+const scene: NM3Document = {
+  version: '1.0',
+  meta: { title: 'Chunks <&> "quotes"', created: '2025-01-01T00:00:00Z' },
+  camera: { 'position-x': 0, 'position-y': 5, 'position-z': 20, 'look-at-x': 0, 'look-at-y': 0, 'look-at-z': 0 },
+  nodes: Array.from({ length: 40 }, (_, i) => ({
+    id: `n${i}`,
+    type: 'cube' as const,
+    x: i, y: 0, z: 0,
+    color: 'pastel-blue' as const,
+    title: `Node ${i} > <b>`,
+    content: `# Node ${i}\n\nCompare a < b and </node><node id="fake">\n\n\`\`\`html\n<div>${'x'.repeat(i * 10)}</div>\n\`\`\``,
+  })),
+  links: Array.from({ length: 39 }, (_, i) => ({ from: `n${i}`, to: `n${i + 1}`, type: 'leads-to' as const })),
+};
+
+async function testChunkManager(check: Check) {
+  console.log('🧩 Testing chunk manager...\n');
+
+  const sandbox = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'nm3-chunks-')));
+  const chunks = new ChunkManager(1000, path.join(sandbox, 'chunks'), new FileRoots([sandbox]));
+  const fails = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  try {
+    const result = await chunks.chunkXML(xml, 'scene.nm3');
+
+    // Test 1: Manifest listing
+    console.log('Test 1: Manifest listing');
+    const manifest = await chunks.readManifest(result.manifestPath);
+    check('manifest lists every chunk', manifest.totalChunks === result.chunkCount && manifest.chunks.length === result.chunkCount);
+    check('sequences start at 1 and are contiguous', manifest.chunks.every((chunk, i) => chunk.sequence === i + 1));
+    check('offsets cover the document', manifest.chunks[0].startOffset === 0 &&
+      manifest.chunks[manifest.chunks.length - 1].endOffset === xml.length);
+
+    // Test 2: Paging through chunks
+    console.log('\nTest 2: Reading chunks');
+    let paged = '';
+    for (let sequence = 1; sequence <= manifest.totalChunks; sequence++) {
+      paged += (await chunks.readChunk(result.manifestPath, sequence)).content;
+    }
+    check('chunks 1..N concatenate to the document', paged === xml);
+    check('unknown sequence rejected', await fails(() => chunks.readChunk(result.manifestPath, manifest.totalChunks + 1)));
+
+    const second = path.join(result.tempDir, `${manifest.chunks[1].chunkId}.xml`);
+    const original = await fs.readFile(second, 'utf-8');
+    await fs.writeFile(second, original.replace('Node', 'Edit'));
+    check('modified chunk fails hash verification', await fails(() => chunks.readChunk(result.manifestPath, 2)));
+    await fs.writeFile(second, original);
+
+    // Test 3: Assembly
+    console.log('\nTest 3: Assembly');
+    const output = await chunks.assembleChunks(result.manifestPath, sandbox);
+    check('assembled file matches the document', await fs.readFile(output, 'utf-8') === xml);
+
+    // Test 4: Element chunks
+    console.log('\nTest 4: Element chunks');
+    const validator = new NM3Validator();
+    const sceneXML = new NM3XMLBuilder().buildXML(scene);
+    const elements = await chunks.chunkXML(sceneXML, 'elements.nm3', undefined, 'elements');
+    const contents: string[] = [];
+    for (let sequence = 1; sequence <= elements.chunkCount; sequence++) {
+      contents.push((await chunks.readChunk(elements.manifestPath, sequence)).content);
+    }
+    const results = contents.map(content => validator.validate(content));
+
+    check('document split into several chunks', elements.chunkCount > 3 && elements.manifest.mode === 'elements');
+    check('every chunk is a valid <nm3-chunk> on its own', results.every(result => result.valid));
+    check('every node and link lands in exactly one chunk',
+      results.reduce((sum, result) => sum + result.stats.nodes, 0) === scene.nodes.length &&
+      results.reduce((sum, result) => sum + result.stats.links, 0) === scene.links.length);
+    check('chunks start with their sequence and section', contents.every((content, i) =>
+      content.startsWith(`<nm3-chunk seq="${i + 1}" section="${i === 0 ? 'head' : /<links>/.test(content) ? 'links' : 'nodes'}"`)));
+    check('markup inside CDATA does not split a node', results.every((result, i) =>
+      result.stats.nodes === (contents[i].match(/<node id="n\d+"/g) || []).length));
+    check('offsets still cover the document', elements.manifest.chunks[elements.chunkCount - 1].endOffset === sceneXML.length);
+
+    const broken = contents[1].replace('type="cube"', 'type="blob"');
+    check('an invalid chunk is reported with its path', validator.validate(broken).errors.some(issue =>
+      issue.path.startsWith(`/nm3-chunk[@seq='2']/nodes/node[1]`) && issue.message.includes('blob')));
+
+    const elementOutput = await chunks.assembleChunks(elements.manifestPath, sandbox);
+    check('assembly reproduces the exact document', await fs.readFile(elementOutput, 'utf-8') === sceneXML);
+
+    // Test 5: Repairing a session
+    console.log('\nTest 5: Repair');
+    for (const mode of ['text', 'elements'] as const) {
+      const session = await chunks.chunkXML(sceneXML, `repair-${mode}.nm3`, undefined, mode);
+      const dir = session.tempDir;
+      await fs.rm(path.join(dir, 'chunk-002.xml'));
+      await fs.appendFile(path.join(dir, 'chunk-004.xml'), 'garbage');
+      const status = await chunks.getChunkStatus(session.manifestPath);
+      check(`${mode}: missing and corrupted chunks reported`, status.missingChunks.join() === 'chunk-002' &&
+        status.corruptChunks.join() === 'chunk-004' && status.chunksPresent === session.chunkCount - 1);
+
+      const untouched = (await fs.stat(path.join(dir, 'chunk-003.xml'))).mtimeMs;
+      const repaired = await chunks.repairChunks(session.manifestPath, sceneXML);
+      check(`${mode}: only the damaged chunks are rewritten`, repaired.join() === 'chunk-002,chunk-004' &&
+        (await fs.stat(path.join(dir, 'chunk-003.xml'))).mtimeMs === untouched);
+      const repairedStatus = await chunks.getChunkStatus(session.manifestPath);
+      check(`${mode}: session is complete again`, repairedStatus.missingChunks.length === 0 && repairedStatus.corruptChunks.length === 0);
+      check(`${mode}: a different document is refused`, await fails(() => chunks.repairChunks(session.manifestPath, xml)));
+
+      const kept = await chunks.assembleChunks(session.manifestPath, sandbox, true);
+      check(`${mode}: keepChunks leaves the session readable`, await fs.readFile(kept, 'utf-8') === sceneXML &&
+        (await chunks.readChunk(session.manifestPath, 1)).metadata.sequence === 1);
+    }
+
+    // Test 6: Session listing and expiry
+    console.log('\nTest 6: Sessions');
+    const sessions = await chunks.listSessions();
+    check('kept sessions are listed with size and age', sessions.length === 2 &&
+      sessions.every(session => session.size > 0 && session.ageMs >= 0 && session.totalChunks > 3) &&
+      sessions.map(session => session.outputPath).sort().join() === 'repair-elements.nm3,repair-text.nm3');
+
+    const stale = await chunks.chunkXML(xml, 'stale.nm3');
+    const staleManifest = JSON.parse(await fs.readFile(stale.manifestPath, 'utf-8'));
+    staleManifest.created = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
+    await fs.writeFile(stale.manifestPath, JSON.stringify(staleManifest, null, 2));
+    const foreign = ['important', 'orphan', 'doc-1-abc', 'doc-2-broken'].map(name => path.join(sandbox, 'chunks', name));
+    for (const directory of foreign) {
+      await fs.mkdir(directory);
+      await fs.writeFile(path.join(directory, 'notes.txt'), 'keep me');
+      await fs.utimes(directory, new Date(0), new Date(0));
+    }
+    await fs.writeFile(path.join(foreign[3], 'manifest.json'), '{ not json');
+
+    const removed = await chunks.cleanupExpired(24 * 60 * 60 * 1000);
+    check('sessions past the TTL are removed', removed.map(session => session.documentId).join() === stale.manifest.documentId);
+    check('fresh sessions survive cleanup', (await chunks.listSessions()).length === 2);
+    const survivors = await Promise.all(foreign.map(directory => fs.readFile(path.join(directory, 'notes.txt'), 'utf-8').catch(() => null)));
+    check('other directories and manifest-less doc-* directories are never listed or removed',
+      survivors.every(text => text === 'keep me'));
+
+    // Test 7: Compressed chunks
+    console.log('\nTest 7: Compression');
+    const compressor = new NM3Compressor();
+    const plain = await chunks.chunkXML(sceneXML, 'plain.nm3', undefined, 'elements');
+    const plainStatus = await chunks.getChunkStatus(plain.manifestPath);
+    check('uncompressed chunks are stored at their raw size', plainStatus.compression === 'none' &&
+      plainStatus.rawSize > 0 && plainStatus.storedSize === plainStatus.rawSize);
+    for (const compression of ['gzip', 'brotli'] as const) {
+      const packed = await chunks.chunkXML(sceneXML, 'packed.nm3', undefined, 'elements', compression);
+      const extension = compressor.extension(compression);
+      check(`${compression}: chunk files carry the extension`, (await fs.readdir(packed.tempDir))
+        .filter(name => name !== 'manifest.json').every(name => name.endsWith(`.xml${extension}`)));
+      check(`${compression}: hashes match uncompressed chunks`, packed.manifest.chunks.map(chunk => chunk.hash).join() ===
+        plain.manifest.chunks.map(chunk => chunk.hash).join());
+
+      const status = await chunks.getChunkStatus(packed.manifestPath);
+      check(`${compression}: status reports compressed and raw sizes`, status.compression === compression &&
+        status.rawSize === plainStatus.rawSize && status.storedSize > 0 && status.storedSize < status.rawSize / 2);
+      check(`${compression}: chunks read back decompressed`, (await chunks.readChunk(packed.manifestPath, 2)).content ===
+        (await chunks.readChunk(plain.manifestPath, 2)).content);
+
+      await fs.writeFile(path.join(packed.tempDir, `chunk-003.xml${extension}`), 'not compressed');
+      check(`${compression}: undecodable chunk reported as corrupted`,
+        (await chunks.getChunkStatus(packed.manifestPath)).corruptChunks.join() === 'chunk-003');
+      check(`${compression}: repair writes compressed chunks`, (await chunks.repairChunks(packed.manifestPath, sceneXML)).join() === 'chunk-003' &&
+        (await chunks.getChunkStatus(packed.manifestPath)).corruptChunks.length === 0);
+
+      const gz = await chunks.assembleChunks(packed.manifestPath, sandbox, false, true);
+      check(`${compression}: assembly writes .nm3.gz`, gz.endsWith('packed.nm3.gz') &&
+        await compressor.decompress(await fs.readFile(gz), 'gzip') === sceneXML);
+    }
+  } finally {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  }
+}
+
+runChecks('chunk manager', testChunkManager);
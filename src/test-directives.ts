@@ -0,0 +1,105 @@
+// Visual Directives Test
+// `<!-- nm3: ... -->` comments and `{.shape key=value}` heading blocks override shapes, colors, scale and position
+
+import { CollisionDetector } from './core/collision-detector.js';
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { ForceDirected3D } from './core/force-directed-3d.js';
+import { DirectiveParser } from './core/visual-directives.js';
+import { NM3Link, NM3Node } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `# Overview {.torus color=pastel-mint}
+
+<!-- nm3: color=pastel-orange scale=1.8 -->
+The big picture.
+
+## Anchor
+
+<!-- nm3: pin=0,10,0 -->
+Stays where it is put.
+
+## Details {.hexagon color=red}
+
+<!-- nm3: type=cube color=crimson -->
+Invalid values are ignored.
+
+## Budget {not a directive}
+
+Plain text.
+
+## Timeline
+
+Dates.
+`;
+
+async function testDirectives(check: Check) {
+  console.log('🎛️  Testing visual directives...\n');
+
+  const parser = new DirectiveParser();
+
+  // Test 1: Comment syntax
+  console.log('Test 1: <!-- nm3: --> comments');
+  const comment = parser.extractFromContent('Intro\n<!-- nm3: type=torus color=pastel-orange scale=1.8 pin=1,-2,3.5 -->\nText');
+  check('all keys read', JSON.stringify(comment.directive) ===
+    '{"type":"torus","color":"pastel-orange","scale":1.8,"pin":{"x":1,"y":-2,"z":3.5}}');
+  check('comment stripped from content', comment.content === 'Intro\nText');
+  const merged = parser.extractFromContent('<!-- nm3: cube color=pastel-blue -->\n<!-- NM3: color="pastel-pink" -->');
+  check('later comments win key by key, bare shapes and quotes accepted', merged.directive?.type === 'cube' &&
+    merged.directive?.color === 'pastel-pink');
+  check('aliases', parser.extractFromContent('<!-- nm3: shape=pyramid position=4,5,6 -->').directive?.pin?.z === 6 &&
+    parser.extractFromContent('<!-- nm3: shape=pyramid -->').directive?.type === 'pyramid');
+
+  // Test 2: Heading syntax
+  console.log('\nTest 2: Heading attribute blocks');
+  const heading = parser.extractFromHeading('Overview {.torus color=pastel-mint}');
+  check('shape class and color read', heading.directive?.type === 'torus' && heading.directive?.color === 'pastel-mint');
+  check('block removed from the title', heading.title === 'Overview' && heading.block === '{.torus color=pastel-mint}');
+  const plain = parser.extractFromHeading('Budget {not a directive}');
+  check('blocks without directives stay in the title', plain.title === 'Budget {not a directive}' && plain.directive === null);
+
+  // Test 3: Validation
+  console.log('\nTest 3: Validation');
+  check('invalid shapes rejected', parser.extractFromHeading('Details {.hexagon}').directive === null &&
+    parser.extractFromContent('<!-- nm3: type=star -->').directive === null);
+  check('invalid colors rejected', parser.extractFromContent('<!-- nm3: color=red -->').directive === null &&
+    parser.extractFromHeading('A {color=crimson}').directive === null);
+  check('invalid scale and pin rejected', parser.extractFromContent('<!-- nm3: scale=-1 pin=1,2 -->').directive === null &&
+    parser.extractFromContent('<!-- nm3: scale=big pin=a,b,c -->').directive === null);
+  const mixed = parser.extractFromContent('<!-- nm3: type=hexagon color=pastel-lavender -->\nText');
+  check('valid values kept next to invalid ones, comment still stripped', mixed.directive?.type === undefined &&
+    mixed.directive?.color === 'pastel-lavender' && mixed.content === 'Text');
+
+  // Test 4: Transform
+  console.log('\nTest 4: Transform');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source);
+  const node = (id: string) => doc.nodes.find(n => n.id === id)!;
+  check('heading and comment directives combine, comments winning', node('overview').type === 'torus' &&
+    node('overview').color === 'pastel-orange' && node('overview').scale === 1.8);
+  check('directives not left in titles or content', node('overview').title === 'Overview' &&
+    doc.nodes.every(n => !n.content.includes('nm3:')));
+  const details = doc.nodes.find(n => n.title?.startsWith('Details'))!;
+  check('invalid values fall back to heuristics, valid ones still apply', details.type === 'cube' && details.color !== 'red' &&
+    details.color !== 'crimson' && details.title === 'Details {.hexagon color=red}');
+
+  // Test 5: Pins survive layout
+  console.log('\nTest 5: Pins');
+  const anchor = node('anchor');
+  check('pinned node keeps its position through the full layout', anchor.x === 0 && anchor.y === 10 && anchor.z === 0);
+
+  const nodes: NM3Node[] = Array.from({ length: 6 }, (_, i) => ({ id: `n${i}`, type: 'sphere', x: i * 0.5, y: 0, z: 0, content: '' }));
+  const links: NM3Link[] = nodes.slice(1).map(n => ({ from: 'n0', to: n.id }));
+  new ForceDirected3D().simulate(nodes, links, 50, undefined, new Set(['n0']));
+  check('force simulation leaves fixed nodes alone', nodes[0].x === 0 && nodes[0].y === 0 && nodes[0].z === 0 &&
+    nodes.slice(1).some(n => n.x !== nodes.indexOf(n) * 0.5));
+
+  const crowded: NM3Node[] = [
+    { id: 'pinned', type: 'sphere', x: 0, y: 0, z: 0, content: '' },
+    { id: 'free', type: 'sphere', x: 0.5, y: 0, z: 0, content: '' },
+  ];
+  new CollisionDetector(2).resolveCollisions(crowded, 20, new Set(['pinned']));
+  check('collision resolution moves only the free node', crowded[0].x === 0 && crowded[0].y === 0 && crowded[0].z === 0 &&
+    Math.hypot(crowded[1].x, crowded[1].y, crowded[1].z) > 0.5);
+}
+
+runChecks('directive', testDirectives);
@@ -0,0 +1,89 @@
+// File Roots Test
+// Reads and writes must stay inside the allowed roots, symlinks included
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileRoots, PathAccessError } from './core/file-roots.js';
+import { ChunkManager } from './core/chunk-manager.js';
+import { Check, runChecks } from './test-checks.js';
+
+async function testFileRoots(check: Check) {
+  console.log('🔒 Testing file roots...\n');
+
+  const sandbox = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'nm3-roots-')));
+  const rejects = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return false;
+    } catch (error) {
+      return error instanceof PathAccessError;
+    }
+  };
+
+  try {
+    const docs = path.join(sandbox, 'docs');
+    const out = path.join(sandbox, 'out');
+    const secret = path.join(sandbox, 'secret');
+    await Promise.all([docs, out, secret].map(dir => fs.mkdir(dir)));
+    await fs.writeFile(path.join(secret, 'keys.md'), '# Keys');
+    await fs.symlink(secret, path.join(docs, 'escape'));
+    await fs.symlink(path.join(out), path.join(docs, 'inside'));
+
+    const roots = new FileRoots([docs, out]);
+
+    // Test 1: Paths inside the roots
+    console.log('Test 1: Paths inside the roots');
+    check('absolute path accepted', await roots.resolve(path.join(docs, 'a.md')) === path.join(docs, 'a.md'));
+    check('relative path resolves against the first root', await roots.resolve('notes/a.md') === path.join(docs, 'notes', 'a.md'));
+    check('second root accepted', await roots.resolve(path.join(out, 'a.nm3')) === path.join(out, 'a.nm3'));
+    check('name starting with dots accepted', await roots.resolve('..notes.md') === path.join(docs, '..notes.md'));
+    check('symlink to another root followed', await roots.resolve('inside/a.nm3') === path.join(out, 'a.nm3'));
+
+    // Test 2: Paths outside the roots
+    console.log('\nTest 2: Paths outside the roots');
+    check('parent traversal rejected', await rejects(() => roots.resolve('../secret/keys.md')));
+    check('sibling with a shared prefix rejected', await rejects(() => roots.resolve(`${docs}-private/a.md`)));
+    check('symlink out of the sandbox rejected', await rejects(() => roots.resolve('escape/keys.md')));
+    check('new file below an escaping symlink rejected', await rejects(() => roots.resolve('escape/new/file.nm3')));
+
+    // Test 3: Client roots
+    console.log('\nTest 3: Client roots');
+    roots.setClientRoots([path.join(docs, 'notes'), secret]);
+    check('only the overlap with configured roots is allowed', roots.getRoots().join() === path.join(docs, 'notes'));
+    check('configured root outside the client roots rejected', await rejects(() => roots.resolve(path.join(out, 'a.nm3'))));
+    roots.setClientRoots(null);
+    check('configured roots restored', roots.getRoots().join() === [docs, out].join());
+    const unconfigured = new FileRoots();
+    unconfigured.setClientRoots([secret]);
+    check('client roots replace the working directory', unconfigured.getRoots().join() === secret);
+
+    // Test 4: Configuration
+    console.log('\nTest 4: Configuration');
+    process.env.MARKDOWN3D_ROOTS = [docs, '', out].join(path.delimiter);
+    check('roots read from MARKDOWN3D_ROOTS', FileRoots.fromEnvironment().getRoots().join() === [docs, out].join());
+    delete process.env.MARKDOWN3D_ROOTS;
+    check('working directory by default', FileRoots.fromEnvironment().getRoots().join() === process.cwd());
+
+    // Test 5: Chunk manifests
+    console.log('\nTest 5: Chunk manifests');
+    const chunks = new ChunkManager(100, path.join(sandbox, 'chunks'), new FileRoots([out]));
+    const xml = `<nm3>${'<node/>'.repeat(40)}</nm3>`;
+    check('output name with directories rejected', await rejects(() => chunks.chunkXML(xml, '../escape.nm3')));
+    check('working directory outside the roots rejected', await rejects(() => chunks.chunkXML(xml, 'a.nm3', secret)));
+    check('manifest outside the chunk directory rejected', await rejects(() => chunks.assembleChunks(path.join(secret, 'manifest.json'))));
+
+    const result = await chunks.chunkXML(xml, 'scene.nm3');
+    const manifest = JSON.parse(await fs.readFile(result.manifestPath, 'utf-8'));
+    await fs.writeFile(result.manifestPath, JSON.stringify({ ...manifest, outputPath: '../../secret/scene.nm3' }));
+    check('tampered manifest output path rejected', await rejects(() => chunks.assembleChunks(result.manifestPath)));
+    await fs.writeFile(result.manifestPath, JSON.stringify(manifest));
+    check('explicit output directory outside the roots rejected', await rejects(() => chunks.assembleChunks(result.manifestPath, secret)));
+    check('assembly inside the roots succeeds', await chunks.assembleChunks(result.manifestPath) === path.join(out, 'scene.nm3') &&
+      await fs.readFile(path.join(out, 'scene.nm3'), 'utf-8') === xml);
+  } finally {
+    await fs.rm(sandbox, { recursive: true, force: true });
+  }
+}
+
+runChecks('file root', testFileRoots);
@@ -0,0 +1,169 @@
+// Force Layout Benchmark
+// Compares the exact all-pairs simulation with the Barnes–Hut approximation
+// and times a full transform of a large generated document
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { ForceDirected3D } from './core/force-directed-3d.js';
+import { Octree } from './core/octree.js';
+import { SeededRandom } from './core/seeded-random.js';
+import { NM3Node, NM3Link } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const SIZES = [200, 1000, 5000];
+const ITERATIONS = 25;
+// Timings are the best of a few runs, after a warm-up, and only reported
+const RUNS = 3;
+// The end-to-end transform is checked against a generous budget instead
+const DOCUMENT_SECTIONS = 1000;
+const DOCUMENT_BUDGET_MS = 30000;
+
+/**
+ * Generated corpus: a ternary section tree plus a few cross-references,
+ * scattered through a sphere whose volume grows with the node count
+ */
+function generateCorpus(size: number): { nodes: NM3Node[]; links: NM3Link[] } {
+  const random = new SeededRandom(size);
+  const radius = 4 * Math.cbrt(size);
+
+  const nodes: NM3Node[] = Array.from({ length: size }, (_, i) => {
+    const direction = random.unitVector();
+    const r = radius * Math.cbrt(random.next());
+    return {
+      id: `node-${i}`,
+      type: 'sphere',
+      x: direction.x * r,
+      y: direction.y * r,
+      z: direction.z * r,
+      content: '',
+    };
+  });
+
+  const links: NM3Link[] = [];
+  for (let i = 1; i < size; i++) {
+    links.push({ from: `node-${Math.floor((i - 1) / 3)}`, to: `node-${i}` });
+  }
+  for (let i = 0; i < size / 10; i++) {
+    const from = Math.floor(random.next() * size);
+    const to = Math.floor(random.next() * size);
+    if (from !== to) links.push({ from: `node-${from}`, to: `node-${to}`, type: 'relates' });
+  }
+
+  return { nodes, links };
+}
+
+/**
+ * Generated markdown: chapters of nine subsections each, every section
+ * linking to another one further along
+ */
+function generateDocument(sections: number): string {
+  return Array.from({ length: sections }, (_, i) =>
+    `${i % 10 === 0 ? '#' : '##'} Topic ${i}\n\n` +
+    `Notes on topic ${i}, see [[Topic ${(i * 7) % sections}]].\n`
+  ).join('\n');
+}
+
+function run(size: number, theta: number, runs: number = RUNS) {
+  let result = { nodes: [] as NM3Node[], energies: [] as number[], time: Infinity };
+
+  for (let i = 0; i < runs; i++) {
+    const { nodes, links } = generateCorpus(size);
+    // Threshold 0 forces the chosen mode regardless of size
+    const simulation = new ForceDirected3D({ theta, barnesHutThreshold: 0 });
+    const energies: number[] = [];
+
+    const start = Date.now();
+    simulation.simulate(nodes, links, ITERATIONS, (_, energy) => energies.push(energy));
+    const time = Date.now() - start;
+
+    if (time < result.time) {
+      result = { nodes, energies, time };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mean bodies (nodes or aggregated cells) each node interacts with in one
+ * Barnes–Hut pass over the given positions; the exact loop visits size - 1.
+ * Unlike wall-clock time, this does not depend on the machine.
+ */
+function interactionsPerNode(nodes: NM3Node[], theta: number, cutoff: number): number {
+  const bounds = { minX: Infinity, minY: Infinity, minZ: Infinity, maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity };
+  for (const node of nodes) {
+    bounds.minX = Math.min(bounds.minX, node.x - 1);
+    bounds.minY = Math.min(bounds.minY, node.y - 1);
+    bounds.minZ = Math.min(bounds.minZ, node.z - 1);
+    bounds.maxX = Math.max(bounds.maxX, node.x + 1);
+    bounds.maxY = Math.max(bounds.maxY, node.y + 1);
+    bounds.maxZ = Math.max(bounds.maxZ, node.z + 1);
+  }
+
+  const octree = new Octree(bounds, 32);
+  for (const node of nodes) {
+    octree.insert({ id: node.id, x: node.x, y: node.y, z: node.z, radius: 0, data: node });
+  }
+  octree.computeMassDistribution();
+
+  let interactions = 0;
+  for (const node of nodes) {
+    octree.visitApproximate(node.x, node.y, node.z, theta, cutoff, (_mass, _x, _y, _z, body) => {
+      if (body?.data !== node) interactions++;
+    });
+  }
+  return interactions / nodes.length;
+}
+
+async function benchmark(check: Check) {
+  console.log('⚡ Force Layout Benchmark (exact vs Barnes–Hut)\n');
+  run(SIZES[0], 0, 1);
+  run(SIZES[0], 0.8, 1);
+
+  for (const size of SIZES) {
+    console.log(`Corpus: ${size} nodes, ${ITERATIONS} iterations`);
+
+    const exact = run(size, 0);
+    const approx = run(size, 0.8);
+
+    const firstError = Math.abs(approx.energies[0] - exact.energies[0]) / exact.energies[0];
+    const finalExact = exact.energies[exact.energies.length - 1];
+    const finalApprox = approx.energies[approx.energies.length - 1];
+    const finalError = Math.abs(finalApprox - finalExact) / finalExact;
+
+    let drift = 0;
+    for (let i = 0; i < size; i++) {
+      drift += Math.hypot(
+        approx.nodes[i].x - exact.nodes[i].x,
+        approx.nodes[i].y - exact.nodes[i].y,
+        approx.nodes[i].z - exact.nodes[i].z
+      );
+    }
+
+    console.log(`  Exact:       ${exact.time}ms, final energy ${finalExact.toFixed(4)}`);
+    console.log(`  Barnes–Hut:  ${approx.time}ms, final energy ${finalApprox.toFixed(4)}`);
+    console.log(`  Speedup:     ${(exact.time / Math.max(approx.time, 1)).toFixed(1)}x`);
+    console.log(`  Energy error: first iteration ${(firstError * 100).toFixed(2)}%, ` +
+                `final ${(finalError * 100).toFixed(2)}%`);
+    console.log(`  Mean position drift: ${(drift / size).toFixed(3)} units`);
+
+    const interactions = interactionsPerNode(generateCorpus(size).nodes, 0.8, 30);
+    console.log(`  Interactions per node: ${interactions.toFixed(1)} (exact: ${size - 1})`);
+
+    check('first-iteration energy within 5% of exact', firstError < 0.05);
+    if (size >= 1000) {
+      check('approximation interacts with under a fifth of the nodes', interactions < (size - 1) / 5);
+    }
+    console.log();
+  }
+
+  console.log(`Document: ${DOCUMENT_SECTIONS} sections, full transform`);
+  const start = Date.now();
+  const document = await new EnhancedTransformer().transform(generateDocument(DOCUMENT_SECTIONS));
+  const time = Date.now() - start;
+  console.log(`  Transform:   ${time}ms`);
+
+  check('every section becomes a node', document.nodes.length === DOCUMENT_SECTIONS);
+  check(`transform finishes within ${DOCUMENT_BUDGET_MS / 1000}s`, time < DOCUMENT_BUDGET_MS);
+}
+
+runChecks('benchmark', benchmark);
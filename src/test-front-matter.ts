@@ -0,0 +1,93 @@
+// Front Matter Test
+// YAML front matter is stripped from the body and mapped onto NM3 metadata
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { FrontMatterParser } from './core/front-matter.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `---
+Title: Research Notes
+authors: [Jane Doe, John Roe]
+keywords: machine learning, ai
+date: 2025-01-15
+updated: "last spring"
+description: Notes on models
+status: draft
+---
+# Introduction
+
+Body text.
+`;
+
+async function testFrontMatter(check: Check) {
+  console.log('🗂️  Testing front matter...\n');
+
+  const parser = new FrontMatterParser();
+
+  // Test 1: Stripping
+  console.log('Test 1: Stripping');
+  const { frontMatter, body, raw } = parser.extract(source);
+  check('block removed from the body', body === '# Introduction\n\nBody text.\n' && raw?.startsWith('Title: Research Notes') === true);
+  check('CRLF, BOM and "..." closers', parser.extract('\uFEFF---\r\ntitle: A\r\n...\r\n# A').body === '# A' &&
+    parser.extract('\uFEFF---\r\ntitle: A\r\n...\r\n# A').frontMatter?.title === 'A');
+  check('empty block stripped without keys', parser.extract('---\n\n---\n# A').body === '# A' &&
+    Object.keys(parser.extract('---\n\n---\n# A').frontMatter?.extra ?? {}).length === 0);
+  const bare = parser.extract('---\n---\n# Hi\n\n---\n\nMore');
+  check('block without lines stripped', bare.body === '# Hi\n\n---\n\nMore' && bare.raw === '' &&
+    parser.extract('\uFEFF---\r\n...\r\n# Hi').body === '# Hi');
+  const malformed = '---\ntitle: [unclosed\n---\n# A';
+  check('malformed YAML left in the body', parser.extract(malformed).frontMatter === null && parser.extract(malformed).body === malformed);
+  const logged: unknown[] = [];
+  const log = console.error;
+  console.error = (...args: unknown[]) => logged.push(args);
+  const { warning } = parser.extract(malformed);
+  console.error = log;
+  check('malformed YAML reported to the caller, not stderr', warning?.startsWith('Ignoring malformed front matter: ') === true &&
+    logged.length === 0 && parser.extract(source).warning === undefined);
+  check('only at the very start', parser.extract('# A\n\n---\ntitle: B\n---\n').frontMatter === null);
+
+  // Test 2: Meta mapping
+  console.log('\nTest 2: Meta mapping');
+  check('keys are case-insensitive', frontMatter?.title === 'Research Notes' && frontMatter?.description === 'Notes on models');
+  check('author lists joined', frontMatter?.author === 'Jane Doe, John Roe');
+  check('unknown keys kept verbatim', frontMatter?.extra.status === 'draft');
+  const meta: NM3Document['meta'] = { title: 'Generated', created: 'now', author: 'Engine', tags: 'generated' };
+  parser.applyToMeta(meta, frontMatter);
+  check('front matter overwrites meta', meta.title === 'Research Notes' && meta.tags === 'machine learning,ai' &&
+    meta.description === 'Notes on models');
+  const partial: NM3Document['meta'] = { title: 'Generated', created: 'now', author: 'Engine' };
+  parser.applyToMeta(partial, parser.extract('---\ntags: x\n---\n').frontMatter);
+  check('missing keys leave meta alone', partial.title === 'Generated' && partial.author === 'Engine' && partial.tags === 'x');
+
+  // Test 3: Dates
+  console.log('\nTest 3: Dates');
+  check('dates kept as written', frontMatter?.created === '2025-01-15' && meta.created === '2025-01-15');
+  check('other values kept as text', frontMatter?.modified === 'last spring' &&
+    parser.extract('---\nmodified: 2025\n---\n').frontMatter?.modified === '2025');
+  check('lastmod is modified', parser.extract('---\nlastmod: "2025-02-01"\n---\n').frontMatter?.modified === '2025-02-01');
+
+  // Test 4: Tags
+  console.log('\nTest 4: Tags');
+  const tags = (yaml: string) => parser.extract(`---\n${yaml}\n---\n`).frontMatter?.tags;
+  check('YAML lists', tags('tags: [ai, research]') === 'ai,research' && tags('tags:\n  - deep learning\n  - ai') === 'deep learning,ai');
+  check('comma-separated strings keep spaces inside tags', tags('tags: "machine learning, ai"') === 'machine learning,ai');
+  check('a single tag', tags('tags: research') === 'research' && tags('tags: machine learning') === 'machine learning');
+  check('empty tags ignored', tags('tags: ""') === undefined && tags('tags: []') === undefined && tags('tags: " , "') === undefined);
+
+  // Test 5: Transform
+  console.log('\nTest 5: Transform');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source);
+  check('meta from front matter', doc.meta.title === 'Research Notes' && doc.meta.tags === 'machine learning,ai' &&
+    doc.meta.created === '2025-01-15');
+  check('no front matter in node content', doc.nodes.every(node => !node.content.includes('keywords')));
+  check('available after transform', transformer.getFrontMatter()?.extra.status === 'draft');
+  await transformer.transform(malformed);
+  const warnings = transformer.getFrontMatterWarnings();
+  await transformer.transform(source);
+  check('warnings available after transform', warnings.length === 1 && warnings[0] === warning &&
+    transformer.getFrontMatterWarnings().length === 0);
+}
+
+runChecks('front matter', testFrontMatter);
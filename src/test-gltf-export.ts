@@ -0,0 +1,138 @@
+// glTF Export Test
+// Parses the GLB container back and checks the scene it describes
+
+import { DEFAULT_FOV } from './constants/validation.js';
+import { NM3GLTFExporter, GLTFAsset } from './core/gltf-exporter.js';
+import { ShapeGeometry } from './core/shape-geometry.js';
+import { NM3Document, NM3Node } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const document: NM3Document = {
+  version: '1.0',
+  meta: { title: 'glTF Test', created: '2025-01-01T00:00:00Z' },
+  camera: {
+    'position-x': 0, 'position-y': 10, 'position-z': 25,
+    'look-at-x': 0, 'look-at-y': 0, 'look-at-z': 0,
+    fov: 45,
+  },
+  nodes: [
+    { id: 'a', type: 'sphere', x: 0, y: 0, z: 0, color: 'pastel-blue', title: 'A', content: 'Alpha', tags: 'one, two' },
+    { id: 'b', type: 'cube', x: 5, y: 0, z: 0, color: 'pastel-blue', scale: 2, 'rotation-y': Math.PI / 2, content: 'Beta' },
+    { id: 'c', type: 'cylinder', x: 0, y: 5, z: 0, color: 'pastel-pink', content: '' },
+    { id: 'd', type: 'pyramid', x: 0, y: 0, z: 5, color: 'pastel-mint', content: '' },
+    { id: 'e', type: 'torus', x: -5, y: 0, z: 0, color: 'pastel-blue', content: '' },
+    { id: 'f', type: 'sphere', x: 0, y: -5, z: 0, color: 'pastel-blue', content: '' },
+  ],
+  links: [
+    { from: 'a', to: 'b', type: 'leads-to', thickness: 2 },
+    { from: 'a', to: 'c', curve: 0.3, color: 'pastel-coral' },
+    { from: 'a', to: 'missing' },
+  ],
+};
+
+function readGLB(glb: Buffer): { gltf: GLTFAsset; bin: Buffer; valid: boolean } {
+  const valid = glb.readUInt32LE(0) === 0x46546c67
+    && glb.readUInt32LE(4) === 2
+    && glb.readUInt32LE(8) === glb.length;
+  const jsonLength = glb.readUInt32LE(12);
+  const gltf = JSON.parse(glb.subarray(20, 20 + jsonLength).toString('utf-8'));
+  const binStart = 20 + jsonLength;
+  const binLength = glb.readUInt32LE(binStart);
+  const bin = glb.subarray(binStart + 8, binStart + 8 + binLength);
+  return { gltf, bin, valid: valid && jsonLength % 4 === 0 && binStart + 8 + binLength === glb.length };
+}
+
+async function testGLTFExport(check: Check) {
+  console.log('🧊 Testing glTF export...\n');
+
+  const exporter = new NM3GLTFExporter();
+
+  // Test 1: GLB container
+  console.log('Test 1: GLB container');
+  const { gltf, bin, valid } = readGLB(exporter.exportGLB(document));
+  check('header and chunk lengths are consistent', valid);
+  check('BIN chunk holds the whole buffer', bin.length >= gltf.buffers[0].byteLength);
+  check('buffer views are 4-byte aligned', gltf.bufferViews.every(view => view.byteOffset % 4 === 0));
+
+  // Test 2: Meshes and materials
+  console.log('\nTest 2: Meshes and materials');
+  check('one mesh per shape/color pair plus one per drawn link', gltf.meshes.length === 5 + 2);
+  check('one material per color', gltf.materials.map(m => m.name).sort().join() ===
+    'pastel-blue,pastel-coral,pastel-gray,pastel-mint,pastel-pink');
+  check('every POSITION accessor has bounds', gltf.meshes.every(mesh => {
+    const accessor = gltf.accessors[mesh.primitives[0].attributes.POSITION];
+    return accessor.min?.length === 3 && accessor.max?.length === 3;
+  }));
+  check('all indices reference existing vertices', gltf.meshes.every(mesh => {
+    const primitive = mesh.primitives[0];
+    const vertexCount = gltf.accessors[primitive.attributes.POSITION].count;
+    const accessor = gltf.accessors[primitive.indices];
+    const view = gltf.bufferViews[accessor.bufferView];
+    for (let i = 0; i < accessor.count; i++) {
+      const index = accessor.componentType === 5123
+        ? bin.readUInt16LE(view.byteOffset + i * 2)
+        : bin.readUInt32LE(view.byteOffset + i * 4);
+      if (index >= vertexCount) return false;
+    }
+    return true;
+  }));
+
+  // Test 3: Nodes
+  console.log('\nTest 3: Nodes');
+  const nodeA = gltf.nodes.find(node => node.name === 'a')!;
+  const nodeB = gltf.nodes.find(node => node.name === 'b')!;
+  check('node extras keep title, content and tags',
+    nodeA.extras?.title === 'A' && nodeA.extras?.content === 'Alpha' && nodeA.extras?.tags === 'one, two');
+  check('nodes of the same shape and color share a mesh', nodeA.mesh === gltf.nodes.find(node => node.name === 'f')!.mesh);
+  check('scale and translation applied', nodeB.scale?.join() === '2,2,2' && nodeB.translation?.join() === '5,0,0');
+  check('rotation-y becomes a quaternion about Y',
+    Math.abs(nodeB.rotation![1] - Math.SQRT1_2) < 1e-9 && Math.abs(nodeB.rotation![3] - Math.SQRT1_2) < 1e-9);
+  check('links to missing nodes are skipped', !gltf.nodes.some(node => node.name.includes('missing')));
+  check('link extras keep the link type', gltf.nodes.find(node => node.name === 'link:a->b')?.extras?.type === 'leads-to');
+  check('document meta on the scene', gltf.scenes[0].extras?.title === 'glTF Test');
+
+  // Test 4: Camera
+  console.log('\nTest 4: Camera');
+  const cameraNode = gltf.nodes.find(node => node.camera === 0)!;
+  const [qx, qy, qz, qw] = cameraNode.rotation!;
+  // Local -Z rotated by the quaternion must point from the camera to the look-at point
+  const forward = [
+    -(2 * (qx * qz + qw * qy)),
+    -(2 * (qy * qz - qw * qx)),
+    -(1 - 2 * (qx * qx + qy * qy)),
+  ];
+  const expected = [0, -10, -25].map(v => v / Math.hypot(10, 25));
+  check('camera fov exported in radians', Math.abs(gltf.cameras[0].perspective.yfov - Math.PI / 4) < 1e-9);
+  const { fov: _fov, ...cameraWithoutFov } = document.camera;
+  const defaulted = readGLB(exporter.exportGLB({ ...document, camera: cameraWithoutFov })).gltf;
+  check('missing fov uses the default', Math.abs(defaulted.cameras[0].perspective.yfov - DEFAULT_FOV * Math.PI / 180) < 1e-9);
+  check('camera looks at the look-at point', forward.every((v, i) => Math.abs(v - expected[i]) < 1e-6));
+
+  // Test 5: Geometry faces outwards
+  console.log('\nTest 5: Winding');
+  const geometry = new ShapeGeometry();
+  for (const shape of ['sphere', 'cube', 'cylinder', 'pyramid', 'torus'] as NM3Node['type'][]) {
+    const { positions, normals, indices } = geometry.create(shape);
+    let outward = true;
+    for (let i = 0; i < indices.length; i += 3) {
+      const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]].map(v => v * 3);
+      const ab = [0, 1, 2].map(k => positions[b + k] - positions[a + k]);
+      const ac = [0, 1, 2].map(k => positions[c + k] - positions[a + k]);
+      const face = [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]];
+      const normal = [0, 1, 2].map(k => normals[a + k] + normals[b + k] + normals[c + k]);
+      // Degenerate triangles at the sphere poles have no face normal
+      if (face[0] * normal[0] + face[1] * normal[1] + face[2] * normal[2] < -1e-9) outward = false;
+    }
+    check(`${shape} triangles wind counter-clockwise`, outward);
+  }
+
+  // Test 6: Text glTF
+  console.log('\nTest 6: Text glTF');
+  const text = JSON.parse(exporter.exportGLTF(document)) as GLTFAsset;
+  const uri = text.buffers[0].uri ?? '';
+  check('buffer embedded as data URI', uri.startsWith('data:application/octet-stream;base64,'));
+  check('embedded buffer has the declared length',
+    Buffer.from(uri.split(',')[1], 'base64').length === text.buffers[0].byteLength);
+}
+
+runChecks('glTF export', testGLTFExport);
@@ -0,0 +1,115 @@
+// Granularity Test
+// Lists, list items, code blocks, tables and blockquotes as nodes of their own
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3MarkdownExporter } from './core/markdown-exporter.js';
+import { MarkdownParser } from './core/parser.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `Before any heading.
+
+- loose idea
+
+# Setup
+
+Install the tools first.
+
+1. Download the installer
+   from the website
+2. Run the installer
+   - accept the license
+   - pick a folder
+3. Restart
+
+\`\`\`ts
+const answer = 42;
+\`\`\`
+
+> Keep your receipts. They matter.
+
+| Tool | Version |
+|------|---------|
+| node | 20 |
+
+Text after the blocks.
+
+## Details
+
+Small print.
+`;
+
+async function testGranularity(check: Check) {
+  console.log('🧱 Testing node granularity...\n');
+
+  // Test 1: Block mode
+  console.log('Test 1: Blocks');
+  const parser = new MarkdownParser();
+  const plain = parser.parse(source);
+  const blocks = parser.parse(source, { granularity: 'block' });
+  const byId = new Map(blocks.map(section => [section.id, section]));
+  const setup = byId.get('setup')!;
+  check('section mode is unchanged', plain.map(section => section.id).join() === 'preamble,setup,details' &&
+    plain.every(section => !section.block));
+  check('every block becomes a child of its section', blocks.map(section => section.id).join() ===
+    'preamble,preamble-list,setup,setup-list,setup-code,setup-quote,setup-table,details');
+  check('blocks come before subsections', setup.children.join() === 'setup-list,setup-code,setup-quote,setup-table,details');
+  check('section keeps only its text', setup.content === 'Install the tools first.\nText after the blocks.' &&
+    setup.originalMarkdown.startsWith('# Setup') && !setup.originalMarkdown.includes('```'));
+  check('blocks keep their markdown', byId.get('setup-code')?.originalMarkdown === '```ts\nconst answer = 42;\n```' &&
+    byId.get('setup-quote')?.originalMarkdown === '> Keep your receipts. They matter.');
+  check('blocks are titled', byId.get('setup-code')?.title === 'Code (ts)' && byId.get('setup-table')?.title === 'Table: Tool, Version' &&
+    byId.get('setup-quote')?.title === 'Keep your receipts.' && byId.get('setup-list')?.title === 'Download the installer');
+  check('block kinds recorded', byId.get('setup-list')?.block?.ordered === true &&
+    byId.get('setup-code')?.block?.language === 'ts' && byId.get('setup-table')?.metadata.hasTable === true);
+
+  // Test 2: List item mode
+  console.log('\nTest 2: List items');
+  const items = new Map(parser.parse(source, { granularity: 'list-item' }).map(section => [section.id, section]));
+  check('one node per item, named after its text', ['download-the-installer', 'run-the-installer', 'restart']
+    .every(id => items.get(id)?.parent === 'setup' && items.get(id)?.block?.kind === 'list-item'));
+  check('nested items belong to their item', items.get('run-the-installer')?.children.join() === 'accept-the-license,pick-a-folder' &&
+    items.get('pick-a-folder')?.level === 3);
+  check('items keep their own lines only', items.get('download-the-installer')?.originalMarkdown === '1. Download the installer\n   from the website' &&
+    items.get('run-the-installer')?.originalMarkdown === '2. Run the installer');
+  check('other blocks still split out', items.has('setup-code') && !items.has('setup-list'));
+  check('heading ids do not depend on granularity', ['preamble', 'setup', 'details'].every(id => items.has(id)));
+
+  // Test 3: Transform
+  console.log('\nTest 3: Transform');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source, { granularity: 'block' });
+  const node = (id: string) => doc.nodes.find(n => n.id === id);
+  check('code blocks and tables are cubes', node('setup-code')?.type === 'cube' && node('setup-table')?.type === 'cube');
+  check('numbered lists are cylinders', node('setup-list')?.type === 'cylinder');
+  check('blocks are tagged', node('setup-code')?.tags?.split(',').includes('block-code') === true);
+  check('contained by their section', doc.links.some(link => link.from === 'setup' && link.to === 'setup-code' && link.type === 'contains'));
+  const steps = await transformer.transform(source, { granularity: 'list-item' });
+  check('numbered steps are cylinders', ['download-the-installer', 'run-the-installer', 'restart']
+    .every(id => steps.nodes.find(n => n.id === id)?.type === 'cylinder'));
+
+  let rejected = false;
+  try {
+    parser.parse(source, { granularity: 'word' as any });
+  } catch {
+    rejected = true;
+  }
+  check('unknown granularity rejected', rejected);
+
+  // Test 4: Markdown export
+  console.log('\nTest 4: Markdown export');
+  const exporter = new NM3MarkdownExporter();
+  for (const granularity of ['block', 'list-item'] as const) {
+    const scene = await transformer.transform(source, { granularity });
+    const markdown = exporter.exportMarkdown(scene, { frontMatter: false });
+    const again = await transformer.transform(markdown, { granularity });
+    check(`${granularity}: blocks go back into their section`, !/^#+ (Code|Table)/m.test(markdown) &&
+      markdown.includes('Text after the blocks.\n\n1. Download the installer'));
+    check(`${granularity}: round trip keeps nodes and links`, again.nodes.map(n => n.id).join() === scene.nodes.map(n => n.id).join() &&
+      again.links.filter(link => link.type === 'contains').length === scene.links.filter(link => link.type === 'contains').length);
+  }
+  const flat = await transformer.transform('No heading here.\n\n```\ncode\n```', { granularity: 'block' });
+  check('heading-less documents export without a heading', exporter.exportMarkdown(flat, { frontMatter: false }) ===
+    'No heading here.\n\n```\ncode\n```\n');
+}
+
+runChecks('granularity', testGranularity);
@@ -0,0 +1,90 @@
+// Graph Export Test
+// Reads each interchange format back and checks nodes, links and attributes survive
+
+import { XMLParser } from 'fast-xml-parser';
+import { NM3GraphExporter } from './core/graph-exporter.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const document: NM3Document = {
+  version: '1.0',
+  meta: { title: 'Graph "Export" Test', created: '2025-01-01T00:00:00Z' },
+  camera: {
+    'position-x': 0, 'position-y': 10, 'position-z': 25,
+    'look-at-x': 0, 'look-at-y': 0, 'look-at-z': 0,
+  },
+  nodes: [
+    { id: 'intro', type: 'sphere', x: 0, y: 1.5, z: -2, scale: 1.5, color: 'pastel-blue', title: 'Intro & <Overview>', content: 'Hello', tags: 'a, b' },
+    { id: 'setup', type: 'cube', x: 4, y: 0, z: 1, color: 'pastel-mint', title: 'Setup "steps"', content: 'Line 1\nLine 2' },
+    { id: 'faq', type: 'pyramid', x: -4, y: 0, z: 0, content: '' },
+  ],
+  links: [
+    { from: 'intro', to: 'setup', type: 'leads-to', thickness: 2, color: 'pastel-coral' },
+    { from: 'intro', to: 'faq' },
+    { from: 'faq', to: 'gone', type: 'relates' },
+  ],
+};
+
+const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', isArray: name => ['node', 'edge', 'data', 'key', 'attvalue'].includes(name) });
+
+async function testGraphExport(check: Check) {
+  console.log('🕸️ Testing graph export...\n');
+
+  const exporter = new NM3GraphExporter();
+
+  // Test 1: GraphML
+  console.log('Test 1: GraphML');
+  const graphml = parser.parse(exporter.export(document, 'graphml')).graphml;
+  const graph = graphml.graph;
+  const dataOf = (element: any) => Object.fromEntries(element.data.map((d: any) => [d['@_key'], String(d['#text'] ?? '')]));
+  const intro = dataOf(graph.node[0]);
+  check('nodes and resolvable edges exported', graph.node.length === 3 && graph.edge.length === 2);
+  check('every data key is declared', graph.node.concat(graph.edge).every((element: any) =>
+    element.data.every((d: any) => graphml.key.some((key: any) => key['@_id'] === d['@_key']))));
+  check('node attributes kept', intro.n_title === 'Intro & <Overview>' && intro.n_shape === 'sphere' &&
+    intro.n_color === 'pastel-blue' && intro.n_scale === '1.5' && intro.n_tags === 'a, b');
+  check('link attributes kept', dataOf(graph.edge[0]).e_type === 'leads-to' &&
+    dataOf(graph.edge[0]).e_thickness === '2' && dataOf(graph.edge[0]).e_color === 'pastel-coral');
+
+  // Test 2: GEXF
+  console.log('\nTest 2: GEXF');
+  const gexf = parser.parse(exporter.export(document, 'gexf')).gexf;
+  const gexfNode = gexf.graph.nodes.node[0];
+  check('GEXF 1.3 with viz namespace', gexf['@_version'] === '1.3' && gexf['@_xmlns:viz'] === 'http://gexf.net/1.3/viz');
+  check('3D viz:position', gexfNode['viz:position']['@_z'] === '-80');
+  check('viz:color from the palette', gexfNode['viz:color']['@_r'] === '167' &&
+    gexfNode['viz:color']['@_g'] === '199' && gexfNode['viz:color']['@_b'] === '231');
+  check('label is the node title', gexfNode['@_label'] === 'Intro & <Overview>');
+  check('link thickness as viz:thickness', gexf.graph.edges.edge[0]['viz:thickness']['@_value'] === '2');
+
+  // Test 3: Cytoscape.js
+  console.log('\nTest 3: Cytoscape.js');
+  const cy = JSON.parse(exporter.export(document, 'cytoscape'));
+  const setup = cy.elements.nodes[1];
+  check('elements split into nodes and edges', cy.elements.nodes.length === 3 && cy.elements.edges.length === 2);
+  check('node data carries NM3 attributes', setup.data.shape === 'cube' && setup.data.color === 'pastel-mint' && setup.data.z === 1);
+  check('edges reference node ids', cy.elements.edges.every((edge: any) =>
+    cy.elements.nodes.some((node: any) => node.data.id === edge.data.source)));
+  check('untyped link has an empty type', cy.elements.edges[1].data.type === '');
+
+  // Test 4: DOT
+  console.log('\nTest 4: Graphviz DOT');
+  const dot = exporter.export(document, 'dot');
+  check('graph name escaped', dot.startsWith('digraph "Graph \\"Export\\" Test" {'));
+  check('labels escaped', dot.includes('label="Setup \\"steps\\""'));
+  check('shape mapped and NM3 shape kept', dot.includes('shape="box"') && dot.includes('nm3_shape="cube"'));
+  check('link attributes as penwidth and color', dot.includes('"intro" -> "setup" [label="leads-to", penwidth=2, color="#F8B195"'));
+  check('dangling link skipped', !dot.includes('"gone"'));
+
+  // Test 5: Unknown format
+  console.log('\nTest 5: Unknown format');
+  let rejected = false;
+  try {
+    exporter.export(document, 'csv' as any);
+  } catch {
+    rejected = true;
+  }
+  check('unknown format rejected', rejected);
+}
+
+runChecks('graph export', testGraphExport);
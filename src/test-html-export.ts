@@ -0,0 +1,80 @@
+// HTML Export Test
+// Snapshots the scene JSON embedded in the standalone viewer page
+
+import { DEFAULT_FOV } from './constants/validation.js';
+import { NM3HTMLExporter } from './core/html-exporter.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const document: NM3Document = {
+  version: '1.0',
+  meta: { title: 'Viewer <Test> & Co', created: '2025-01-01T00:00:00Z' },
+  camera: {
+    'position-x': 0, 'position-y': 10, 'position-z': 25,
+    'look-at-x': 0, 'look-at-y': 0, 'look-at-z': 0,
+  },
+  nodes: [
+    {
+      id: 'intro', type: 'sphere', x: 0, y: 2.34567, z: -0.0001, scale: 1.5, color: 'pastel-blue',
+      title: 'Intro', content: 'Ends the script early? </script><script>alert(1)</script>', tags: 'overview',
+    },
+    {
+      id: 'loop', type: 'torus', x: 4, y: 0, z: 1, color: 'pastel-mint', 'rotation-y': 1.2,
+      content: '- step\n- repeat',
+    },
+    {
+      id: 'odd', type: 'hexagon' as any, x: -4, y: 0, z: 0, color: 'neon', content: '',
+    },
+  ],
+  links: [
+    { from: 'intro', to: 'loop', type: 'leads-to', thickness: 2, curve: 0.3, color: 'pastel-coral' },
+    { from: 'intro', to: 'odd' },
+  ],
+};
+
+const expectedScene = {
+  title: 'Viewer <Test> & Co',
+  camera: { position: [0, 10, 25], lookAt: [0, 0, 0], fov: DEFAULT_FOV },
+  nodes: [
+    {
+      id: 'intro', title: 'Intro', type: 'sphere', position: [0, 2.346, 0], rotation: [0, 0, 0],
+      scale: 1.5, color: '#A7C7E7', tags: 'overview',
+      content: 'Ends the script early? </script><script>alert(1)</script>',
+    },
+    {
+      id: 'loop', title: 'loop', type: 'torus', position: [4, 0, 1], rotation: [0, 1.2, 0],
+      scale: 1, color: '#AAF0D1', content: '- step\n- repeat',
+    },
+    {
+      id: 'odd', title: 'odd', type: 'sphere', position: [-4, 0, 0], rotation: [0, 0, 0],
+      scale: 1, color: '#A7C7E7', content: '',
+    },
+  ],
+  links: [
+    { from: 'intro', to: 'loop', type: 'leads-to', color: '#F8B195', thickness: 2, curve: 0.3 },
+    { from: 'intro', to: 'odd', color: '#CFCFC4', thickness: 1, curve: 0 },
+  ],
+};
+
+async function testHTMLExport(check: Check) {
+  console.log('🌐 Testing HTML export...\n');
+
+  const exporter = new NM3HTMLExporter();
+
+  const html = exporter.exportHTML(document);
+
+  // Test 1: Embedded scene snapshot
+  console.log('Test 1: Scene snapshot');
+  const scene = exporter.extractScene(html);
+  check('embedded scene matches snapshot', JSON.stringify(scene) === JSON.stringify(expectedScene));
+
+  // Test 2: Page is self-contained and safe
+  console.log('\nTest 2: Page structure');
+  check('no external scripts or stylesheets', !/<script[^>]+src=|<link[^>]+href=|https?:\/\//.test(html));
+  check('content cannot close the scene script', html.split('</script>').length - 1 === 2);
+  check('title is escaped', html.includes('<title>Viewer &lt;Test&gt; &amp; Co</title>'));
+  check('all five shapes have geometry', ['sphere', 'cube', 'cylinder', 'pyramid', 'torus']
+    .every(shape => html.includes(`function ${shape}()`)));
+}
+
+runChecks('HTML export', testHTMLExport);
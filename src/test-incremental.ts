@@ -0,0 +1,82 @@
+// Incremental Layout Test
+// Editing a document and re-transforming it with the previous revision should keep the scene stable
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { NM3XMLParser } from './core/xml-parser.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const revision1 = `# Handbook
+
+Welcome to the team handbook.
+
+## Onboarding
+
+First week checklist.
+
+## Tooling
+
+Editors and linters we use.
+
+## Release Process
+
+How we ship.
+`;
+
+// Edited one section and added a child section under Tooling
+const revision2 = revision1
+  .replace('Editors and linters we use.', 'Editors, linters and formatters we use.')
+  .replace('## Release Process', '### Debugging\n\nBreakpoints and logging.\n\n## Release Process');
+
+function positionsOf(doc: NM3Document): Map<string, { x: number; y: number; z: number }> {
+  return new Map(doc.nodes.map(n => [n.id, { x: n.x, y: n.y, z: n.z }]));
+}
+
+async function testIncremental(check: Check) {
+  console.log('🧭 Testing incremental layout...\n');
+
+  // Previous revision goes through XML, as it would when read from an .nm3 file
+  const transformer = new EnhancedTransformer();
+  const first = await transformer.transform(revision1);
+  const previous = new NM3XMLParser().parse(new NM3XMLBuilder().buildXML(first));
+  const before = positionsOf(previous);
+
+  // Test 1: Edited document
+  console.log('Test 1: Edit + new section');
+  const second = await transformer.transform(revision2, { previous });
+  const decision = transformer.getLayoutDecision();
+  const stats = decision?.incremental;
+
+  check('incremental layout used', decision?.layout === 'incremental');
+  check('one node added', stats?.added === 1);
+  check('all previous nodes accounted for', (stats?.kept ?? 0) + (stats?.moved ?? 0) === previous.nodes.length);
+  check('most previous nodes kept', (stats?.kept ?? 0) >= previous.nodes.length - 1);
+
+  const maxShift = Math.max(...second.nodes
+    .filter(n => before.has(n.id))
+    .map(n => {
+      const p = before.get(n.id)!;
+      return Math.hypot(n.x - p.x, n.y - p.y, n.z - p.z);
+    }));
+  console.log(`    Largest shift of an existing node: ${maxShift.toFixed(3)}`);
+  check('existing nodes barely move', maxShift < 2);
+
+  const added = second.nodes.find(n => !before.has(n.id))!;
+  const parent = second.nodes.find(n => n.id === 'tooling')!;
+  const distance = Math.hypot(added.x - parent.x, added.y - parent.y, added.z - parent.z);
+  check('new node placed near its parent', distance < 10);
+
+  // Test 2: Unchanged document
+  console.log('\nTest 2: Unchanged document');
+  await transformer.transform(revision1, { previous });
+  const unchanged = transformer.getLayoutDecision()?.incremental;
+  check('every node kept', unchanged?.kept === previous.nodes.length && unchanged?.moved === 0);
+
+  // Test 3: Removed section
+  console.log('\nTest 3: Removed section');
+  await transformer.transform(revision1.replace(/## Tooling[\s\S]*?(?=## Release)/, ''), { previous });
+  check('removal reported', transformer.getLayoutDecision()?.incremental?.removed === 1);
+}
+
+runChecks('incremental layout', testIncremental);
@@ -0,0 +1,127 @@
+// Layout Selection Test
+// `auto` picks a template from the section titles, explicit layouts and force parameters reach the simulation,
+// and the reported decision says what was done
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CollisionDetector } from './core/collision-detector.js';
+import { EnhancedTransformer, LayoutOptions } from './core/enhanced-transformer.js';
+import { ForceDirected3D } from './core/force-directed-3d.js';
+import { OptimizedTransformer } from './core/optimized-transformer.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { Markdown3DServer } from './server.js';
+import { Check, runChecks } from './test-checks.js';
+
+const documentWith = (...titles: string[]) =>
+  titles.map((title, i) => `${i === 0 ? '#' : '##'} ${title}\n\nSome text about ${title.toLowerCase()}.\n`).join('\n');
+
+const plain = documentWith('Overview', 'Background', 'Details', 'Summary');
+const nested = ['# Root', ...Array.from({ length: 12 }, (_, i) => `${'#'.repeat(2 + (i % 3))} Part ${i}\n\nText ${i}.`)].join('\n\n');
+
+async function testLayoutSelection(check: Check) {
+  console.log('📐 Testing layout selection...\n');
+
+  const transformer = new EnhancedTransformer();
+  const decide = async (markdown: string, options: LayoutOptions = {}) => {
+    await transformer.transform(markdown, options);
+    return transformer.getLayoutDecision()!;
+  };
+
+  // Test 1: auto
+  console.log('Test 1: auto');
+  const research = await decide(documentWith('Paper', 'Abstract', 'Methods', 'Results'));
+  check('research titles select research-paper', research.requested === 'auto' && research.layout === 'research-paper' &&
+    research.reason.includes('"Abstract"'));
+  check('API titles select documentation', (await decide(documentWith('Guide', 'API Reference'))).layout === 'documentation');
+  check('milestone titles select project-planning', (await decide(documentWith('Plan', 'Milestones'))).layout === 'project-planning');
+  check('step titles select tutorial', (await decide(documentWith('Setup', 'Step 1', 'Step 2'))).layout === 'tutorial');
+  check('deeply nested documents select hierarchical', (await decide(nested)).layout === 'hierarchical');
+  const fallback = await decide(plain);
+  check('no keywords fall back to force-only', fallback.layout === 'force-only' && fallback.forceDirected &&
+    fallback.reason.includes('no template keywords'));
+
+  // Test 2: Explicit layouts
+  console.log('\nTest 2: Explicit layouts');
+  const template = await decide(documentWith('Paper', 'Abstract', 'Methods'), { layout: 'timeline' });
+  check('a requested template wins over detection', template.requested === 'timeline' && template.layout === 'timeline' &&
+    template.reason === 'timeline template requested');
+  const forceOnly = await decide(documentWith('Paper', 'Abstract', 'Methods'), { layout: 'force-only' });
+  check('force-only skips templates', forceOnly.layout === 'force-only' && forceOnly.forceDirected);
+  const alias = await decide(documentWith('Paper', 'Abstract', 'Methods'), { layout: 'force-directed' });
+  check('force-directed is an alias of force-only', alias.requested === 'force-directed' && alias.layout === 'force-only' &&
+    alias.forceDirected);
+
+  // Test 3: Parameters reach the simulation
+  console.log('\nTest 3: Parameters');
+  const simulations: Array<{ iterations: number; config: any }> = [];
+  const simulate = ForceDirected3D.prototype.simulate;
+  ForceDirected3D.prototype.simulate = function (this: any, nodes, links, iterations, ...rest) {
+    simulations.push({ iterations: iterations!, config: this.config });
+    return simulate.call(this, nodes, links, iterations, ...rest);
+  };
+  const separations: number[] = [];
+  const resolve = CollisionDetector.prototype.resolveCollisions;
+  CollisionDetector.prototype.resolveCollisions = function (this: any, ...args) {
+    separations.push(this.minSeparation);
+    return resolve.apply(this, args);
+  };
+
+  const tuned = await decide(plain, { maxIterations: 7, minSeparation: 4.5, forceConfig: { repulsionStrength: 5 } });
+  const run = simulations[simulations.length - 1];
+  check('maxIterations sets the iteration count', run.iterations === 7 && tuned.maxIterations === 7);
+  check('a partial forceConfig keeps the other size defaults', run.config.repulsionStrength === 5 &&
+    run.config.attractionStrength === 0.15 && tuned.forceConfig?.repulsionStrength === 5);
+  check('minSeparation sets the collision distance', separations[separations.length - 1] === 4.5 && tuned.minSeparation === 4.5);
+  await decide(plain);
+  check('defaults come back without parameters', simulations[simulations.length - 1].iterations === 100 &&
+    simulations[simulations.length - 1].config.repulsionStrength === 40);
+
+  ForceDirected3D.prototype.simulate = simulate;
+  CollisionDetector.prototype.resolveCollisions = resolve;
+
+  // Transforms are seeded by the document, so only the parameter differs between these runs
+  const positions = async (options: LayoutOptions = {}) =>
+    JSON.stringify((await transformer.transform(plain, options)).nodes.map(({ x, y, z }) => [x, y, z]));
+  const untuned = await positions();
+  check('maxIterations changes the result', await positions({ maxIterations: 5 }) !== untuned);
+  check('minSeparation changes the result', await positions({ minSeparation: 20 }) !== untuned);
+  check('forceConfig changes the result', await positions({ forceConfig: { repulsionStrength: 5 } }) !== untuned);
+  check('the same parameters give the same result', await positions({ maxIterations: 5 }) === await positions({ maxIterations: 5 }) &&
+    await positions() === untuned);
+
+  // Test 4: Reported decision
+  console.log('\nTest 4: Reported decision');
+  check('the decision lists every setting', ['requested', 'layout', 'reason', 'forceDirected', 'maxIterations', 'minSeparation',
+    'forceConfig'].every(key => (tuned as any)[key] !== undefined));
+  const optimized = new OptimizedTransformer();
+  await optimized.transformWithOptimizations(plain, { layout: 'tutorial' });
+  await optimized.transformWithOptimizations(plain, { layout: 'tutorial' });
+  check('cache hits still report the decision', optimized.getLayoutDecision()?.layout === 'tutorial');
+  await optimized.transformWithOptimizations(plain, { layout: 'concept-map' });
+  check('other layout options miss the cache', optimized.getLayoutDecision()?.layout === 'concept-map');
+
+  // Test 5: Server
+  console.log('\nTest 5: Server');
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await (new Markdown3DServer() as any).server.connect(serverTransport);
+  const client = new Client({ name: 'test-layout-selection', version: '1.0.0' });
+  await client.connect(clientTransport);
+  const call = async (args: Record<string, unknown>, name = 'transform_to_nm3') => {
+    const result: any = await client.callTool({ name, arguments: name === 'transform_to_nm3' ? { markdown: plain, ...args } : args });
+    return result.content.map((part: any) => part.text).join('\n');
+  };
+  const rejected = await call({ layout: 'spiral' });
+  check('unknown layouts are rejected', rejected.startsWith('Error: Unknown layout "spiral"') && rejected.includes('force-only') &&
+    rejected.includes('force-directed'));
+  check('the response reports the layout', (await call({ layout: 'tutorial' })).includes('📐 Layout: tutorial (requested: tutorial)'));
+  check('transform accepts force-directed', (await call({ layout: 'force-directed' })).includes('📐 Layout: force-only (requested: force-directed)'));
+  const xml = new NM3XMLBuilder().buildXML(await transformer.transform(plain));
+  const relayout = (layout: string) => call({ xml, layout, seed: 3 }, 'relayout_nm3');
+  const relaidOut = await relayout('force-only');
+  check('relayout accepts force-only as force-directed', relaidOut.startsWith('<?xml') && relaidOut === await relayout('force-directed'));
+  check('relayout rejects auto', (await relayout('auto')).startsWith('Error: Unknown layout "auto"'));
+  await client.close();
+}
+
+// The server's memory and metrics timers would keep the process alive
+runChecks('layout selection', testLayoutSelection).then(() => process.exit());
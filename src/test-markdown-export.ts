@@ -0,0 +1,126 @@
+// Markdown Export Test
+// transform -> export markdown -> transform should give back the same scene
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3MarkdownExporter } from './core/markdown-exporter.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `---
+title: Field Guide
+tags: [guide, onboarding]
+---
+# Field Guide
+
+Start here. The next step is [[setup|leads to setup]].
+
+## Setup ##
+
+Install the tools:
+
+\`\`\`bash
+npm install
+
+
+npm run build
+\`\`\`
+
+### Troubleshooting
+
+When the build fails, check the logs first.
+
+## FAQ {.torus color=pastel-mint}
+
+Why pastel? Readability. Requires [[setup]].
+
+Glossary
+--------
+
+- node: one section
+- link: a relationship
+
+# Appendix
+
+Extra material.
+`;
+
+const linkSet = (doc: NM3Document) => doc.links.map(l => `${l.from}>${l.to}:${l.type}`).sort().join('\n');
+
+async function testMarkdownExport(check: Check) {
+  console.log('📝 Testing markdown export...\n');
+
+  const transformer = new EnhancedTransformer();
+  const exporter = new NM3MarkdownExporter();
+
+  const original = await transformer.transform(source);
+
+  // Test 1: Plain round trip
+  console.log('Test 1: transform -> export -> transform');
+  const markdown = exporter.exportMarkdown(original);
+  const again = await transformer.transform(markdown);
+  const authored = new Set(['faq']); // visuals come from a directive, which plain export drops
+
+  check('same node ids in the same order', again.nodes.map(n => n.id).join() === original.nodes.map(n => n.id).join());
+  check('same titles and content', again.nodes.every((n, i) =>
+    n.title === original.nodes[i].title && (authored.has(n.id) || n.content === original.nodes[i].content)));
+  check('same links and link types', linkSet(again) === linkSet(original));
+  check('same shapes and colors for heuristic nodes', again.nodes.every((n, i) =>
+    authored.has(n.id) || (n.type === original.nodes[i].type && n.color === original.nodes[i].color)));
+  check('front matter carries meta', again.meta.title === 'Field Guide' && again.meta.tags === original.meta.tags &&
+    again.meta.created === original.meta.created);
+  check('heading styles kept', markdown.includes('## Setup ##') && markdown.includes('Glossary\n--------'));
+  check('code block blank lines kept', markdown.includes('npm install\n\n\nnpm run build'));
+  check('export is idempotent', exporter.exportMarkdown(again) === markdown);
+
+  // Test 2: Visual directives
+  console.log('\nTest 2: Visual directives');
+  const withVisuals = await transformer.transform(exporter.exportMarkdown(original, { visualDirectives: true }));
+  check('shapes, colors and scales restored', withVisuals.nodes.every((n, i) => {
+    const o = original.nodes[i];
+    return n.type === o.type && n.color === o.color && n.scale === o.scale;
+  }));
+  check('positions restored', withVisuals.nodes.every((n, i) => {
+    const o = original.nodes[i];
+    return Math.hypot(n.x - o.x, n.y - o.y, n.z - o.z) < 0.01;
+  }));
+
+  // Test 3: Edits made in a viewer
+  console.log('\nTest 3: Viewer edits');
+  const edited: NM3Document = JSON.parse(JSON.stringify(original));
+  edited.links = edited.links.filter(l => !(l.type === 'contains' && l.to === 'troubleshooting'));
+  edited.links.push(
+    { from: 'faq', to: 'troubleshooting', type: 'contains' },
+    { from: 'appendix', to: 'glossary', type: 'supports' },
+  );
+  edited.nodes.find(n => n.id === 'appendix')!.content += '\n\nAdded in the viewer.';
+  const editedMarkdown = exporter.exportMarkdown(edited);
+  const reloaded = await transformer.transform(editedMarkdown);
+  const link = (from: string, to: string) => reloaded.links.find(l => l.from === from && l.to === to);
+
+  check('re-parented node moves under its new heading', link('faq', 'troubleshooting')?.type === 'contains' &&
+    !link('setup', 'troubleshooting'));
+  check('heading level follows the new parent', editedMarkdown.includes('## FAQ\n\nWhy pastel?') &&
+    editedMarkdown.includes('### Troubleshooting'));
+  check('new link written as a typed reference', editedMarkdown.includes('Links: [[glossary|supports]]'));
+  check('typed reference keeps the link type', link('appendix', 'glossary')?.type === 'supports');
+  check('edited content kept', reloaded.nodes.find(n => n.id === 'appendix')!.content.includes('Added in the viewer.'));
+
+  // Test 4: No hierarchy at all
+  console.log('\nTest 4: Spatial fallback');
+  const flat: NM3Document = {
+    version: '1.0',
+    meta: { title: 'Flat', created: '2025-01-01T00:00:00Z' },
+    camera: original.camera,
+    nodes: [
+      { id: 'low', type: 'sphere', x: 0, y: -5, z: 0, title: 'Low', content: 'Bottom.' },
+      { id: 'top-right', type: 'cube', x: 5, y: 5, z: 0, title: 'Top Right', content: 'Right.' },
+      { id: 'top-left', type: 'cube', x: -5, y: 5, z: 0, title: 'Top Left', content: 'Left.' },
+    ],
+    links: [{ from: 'low', to: 'top-left', type: 'precedes' }],
+  };
+  const flatMarkdown = exporter.exportMarkdown(flat, { frontMatter: false });
+  check('ordered top to bottom, then left to right', flatMarkdown ===
+    '# Top Left\n\nLeft.\n\n# Top Right\n\nRight.\n\n# Low\n\nBottom.\n\nLinks: [[top-left|precedes]]\n');
+}
+
+runChecks('markdown export', testMarkdownExport);
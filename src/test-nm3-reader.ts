@@ -0,0 +1,104 @@
+// NM3 Reader Round-Trip Test
+// Verifies that NM3XMLParser restores documents written by NM3XMLBuilder
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { NM3XMLParser } from './core/xml-parser.js';
+import { NM3Document } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const testMarkdown = `---
+title: Round "Trip" & Friends
+author: Tester
+---
+# Overview
+
+Intro with <angle brackets>, ampersands & a CDATA terminator ]]> inside.
+
+## Details {.cube color=pastel-mint}
+
+\`\`\`ts
+const nested = "<![CDATA[ ]]>";
+\`\`\`
+
+## Next Steps
+
+What comes next? See [[overview]].
+`;
+
+function normalize(doc: NM3Document): any {
+  // Builder output precision: 3 decimals for coordinates/rotations, 2 for scale and curve
+  const round = (value: number | undefined, digits: number) =>
+    value === undefined ? undefined : Number(value.toFixed(digits));
+
+  return {
+    meta: doc.meta,
+    camera: Object.fromEntries(
+      Object.entries(doc.camera).map(([key, value]) => [key, key === 'fov' ? value : round(value, 3)])
+    ),
+    nodes: doc.nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      x: round(node.x, 3),
+      y: round(node.y, 3),
+      z: round(node.z, 3),
+      scale: round(node.scale, 2),
+      color: node.color,
+      title: node.title,
+      content: node.content,
+      tags: node.tags,
+      'rotation-y': round(node['rotation-y'], 3),
+    })),
+    links: doc.links.map(link => ({
+      from: link.from,
+      to: link.to,
+      type: link.type,
+      color: link.color,
+      thickness: link.thickness,
+      curve: round(link.curve, 2),
+    })),
+  };
+}
+
+async function testReader(check: Check) {
+  console.log('📖 Testing NM3 XML Reader...\n');
+
+  const builder = new NM3XMLBuilder();
+  const parser = new NM3XMLParser();
+
+  const transformer = new EnhancedTransformer();
+  const original = await transformer.transform(testMarkdown);
+  const xml = builder.buildXML(original);
+
+  // Test 1: parse(buildXML(doc)) restores the document
+  console.log('Test 1: Document round-trip');
+  const parsed = parser.parse(xml);
+  check('node count preserved', parsed.nodes.length === original.nodes.length);
+  check('link count preserved', parsed.links.length === original.links.length);
+  check('numbers restored as numbers', parsed.nodes.every(n => typeof n.x === 'number' && typeof n.scale === 'number'));
+  check('CDATA content with ]]> preserved', parsed.nodes[0].content === original.nodes[0].content);
+  check('meta with quotes and ampersands preserved', parsed.meta.title === original.meta.title);
+  check('document equal at builder precision',
+    JSON.stringify(normalize(parsed)) === JSON.stringify(normalize(original)));
+
+  // Test 2: buildXML(parse(xml)) reproduces the XML byte for byte
+  console.log('\nTest 2: XML round-trip');
+  const rebuilt = builder.buildXML(parser.parse(xml));
+  check('rebuilt XML identical', rebuilt === xml);
+
+  // Test 3: Errors
+  console.log('\nTest 3: Error handling');
+  const throws = (input: string) => {
+    try {
+      parser.parse(input);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  check('malformed XML throws', throws('<nm3><nodes></nm3>'));
+  check('non-NM3 root throws', throws('<scene></scene>'));
+  check('non-numeric coordinate throws', throws(xml.replace(/ x="[^"]+"/, ' x="left"')));
+}
+
+runChecks('reader', testReader);
@@ -0,0 +1,84 @@
+// Preamble Test
+// Content before the first heading becomes a root node instead of being dropped
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3MarkdownExporter } from './core/markdown-exporter.js';
+import { MarkdownParser } from './core/parser.js';
+import { ChunkedProcessor } from './core/stream-processor.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `---
+title: Field Notes
+---
+Welcome to **the** [field guide](https://example.com). It starts before any heading.
+
+- a list in the preamble
+
+# Setup
+
+Install the tools.
+
+Then configure them.
+
+Then run them.
+
+## Details
+
+Small print.
+
+# Preamble
+
+A heading that happens to be called Preamble.
+`;
+
+async function testPreamble(check: Check) {
+  console.log('📜 Testing preamble sections...\n');
+
+  // Test 1: Parser
+  console.log('Test 1: MarkdownParser');
+  const sections = new MarkdownParser().parse(source);
+  const [preamble] = sections;
+  check('leading content becomes the first section', preamble.id === 'preamble' && preamble.level === 0 &&
+    preamble.content.includes('It starts before any heading.') && preamble.metadata.hasList);
+  check('titled from front matter', preamble.title === 'Field Notes');
+  check('contains the top-level sections', preamble.children.join() === 'setup,preamble-1' &&
+    sections.filter(section => section.level === 1).every(section => section.parent === 'preamble'));
+  check('nested sections keep their parent', sections.find(section => section.id === 'details')?.parent === 'setup');
+
+  const untitled = new MarkdownParser().parse(source.replace(/^---[\s\S]*?---\n/, ''))[0];
+  check('titled from the first sentence without front matter', untitled.title === 'Welcome to the field guide.');
+  check('no preamble for blank lines and directives', new MarkdownParser()
+    .parse('\n<!-- nm3: color=pastel-mint -->\n\n# Only\n\nText.').map(section => section.id).join() === 'only');
+
+  // Test 2: Transform
+  console.log('\nTest 2: Transform');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source);
+  const contains = doc.links.filter(link => link.from === 'preamble' && link.type === 'contains').map(link => link.to);
+  check('preamble node in the scene', doc.nodes[0]?.id === 'preamble' && doc.nodes[0].title === 'Field Notes');
+  check('linked to the top-level sections', contains.sort().join() === 'preamble-1,setup');
+
+  // Test 3: Streaming parser
+  console.log('\nTest 3: Streaming parser');
+  const body = source.replace(/^---[\s\S]*?---\n/, '');
+  const streamed = await new ChunkedProcessor().processLargeMarkdown(body, 3, 'Field Notes');
+  check('same sections as the standard parser', streamed.map(section => `${section.id}:${section.level}`).join() ===
+    sections.map(section => `${section.id}:${section.level}`).join());
+  check('preamble titled and kept', streamed[0].title === 'Field Notes' && streamed[0].content.startsWith('Welcome'));
+  check('sections running across chunks keep their content',
+    streamed.find(section => section.id === 'setup')?.content.endsWith('Then run them.') === true);
+  const flat = await new ChunkedProcessor().processLargeMarkdown('No headings at all.\n\nJust text?', 1);
+  check('no headings gives one main section', flat.length === 1 && flat[0].id === 'main' &&
+    flat[0].level === 1 && flat[0].metadata.isQuestion);
+
+  // Test 4: Markdown export
+  console.log('\nTest 4: Markdown export');
+  const markdown = new NM3MarkdownExporter().exportMarkdown(doc);
+  const again = await transformer.transform(markdown);
+  check('preamble written before the first heading', /---\n\nWelcome to \*\*the\*\*/.test(markdown) &&
+    markdown.includes('\n# Setup'));
+  check('round trip keeps ids and links', again.nodes.map(node => node.id).join() === doc.nodes.map(node => node.id).join() &&
+    again.links.filter(link => link.type === 'contains').length === doc.links.filter(link => link.type === 'contains').length);
+}
+
+runChecks('preamble', testPreamble);
@@ -0,0 +1,94 @@
+// Relayout Test
+// Relayout moves nodes and the camera only, the result is still a valid NM3 document,
+// and the same document and seed give the same XML
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3Validator } from './core/nm3-validator.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { NM3XMLParser } from './core/xml-parser.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `---
+modified: 2025-01-20
+---
+# Roadmap
+
+Where we are going.
+
+## Research
+
+- [x] Survey the field
+- [ ] Write the summary
+
+## Build
+
+Ship the prototype.
+
+## Launch
+
+Tell everyone.
+`;
+
+async function testRelayout(check: Check) {
+  console.log('🔀 Testing relayout...\n');
+
+  const transformer = new EnhancedTransformer();
+  const builder = new NM3XMLBuilder();
+  const parser = new NM3XMLParser();
+  const xml = builder.buildXML(await transformer.transform(source, { seed: 1 }));
+  const original = parser.parse(xml);
+
+  // Test 1: Only positions and camera change
+  console.log('Test 1: Untouched attributes');
+  const moved = transformer.relayout(parser.parse(xml), { layout: 'hierarchical', seed: 5 });
+  const attributes = (doc: typeof original) => JSON.stringify({
+    meta: doc.meta,
+    links: doc.links,
+    nodes: doc.nodes.map(({ x, y, z, ...rest }) => rest),
+  });
+  check('ids, shapes, colors, content, links and meta kept', attributes(moved) === attributes(original));
+  check('meta.modified left as it was', moved.meta.modified === '2025-01-20');
+  check('positions recomputed', moved.nodes.some((node, i) => node.x !== original.nodes[i].x || node.y !== original.nodes[i].y));
+  check('camera recomputed', JSON.stringify(moved.camera) !== JSON.stringify(original.camera));
+  check('layout decision reported', transformer.getLayoutDecision()?.layout === 'hierarchical' &&
+    transformer.getLayoutDecision()?.seed === 5);
+
+  // Test 2: Layouts
+  console.log('\nTest 2: Layouts');
+  const forced = transformer.relayout(parser.parse(xml));
+  check('force-directed by default', forced.nodes.length === original.nodes.length &&
+    forced.nodes.every(node => Number.isFinite(node.x) && Number.isFinite(node.y) && Number.isFinite(node.z)));
+  const separated = transformer.relayout(parser.parse(xml), { layout: 'concept-map', useForceDirected: false, minSeparation: 4 });
+  const closest = Math.min(...separated.nodes.flatMap((a, i) => separated.nodes.slice(i + 1)
+    .map(b => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z))));
+  check('templates without force simulation keep the requested separation', closest >= 4);
+  check('relayout output validates', new NM3Validator().validate(builder.buildXML(moved)).valid);
+
+  // Test 3: Determinism
+  console.log('\nTest 3: Determinism');
+  const again = builder.buildXML(transformer.relayout(parser.parse(xml), { layout: 'hierarchical', seed: 5 }));
+  check('same document and seed give identical XML', again === builder.buildXML(moved));
+  const defaultSeed = () => builder.buildXML(transformer.relayout(parser.parse(xml)));
+  check('default seed is stable too', defaultSeed() === defaultSeed());
+  const reseeded = transformer.relayout(parser.parse(xml), { seed: 6 });
+  check('another seed gives another layout', builder.buildXML(reseeded) !== defaultSeed());
+
+  // Test 4: Invalid documents
+  console.log('\nTest 4: Invalid shapes and colors');
+  const refused = (mutate: (doc: typeof original) => void) => {
+    const doc = parser.parse(xml);
+    mutate(doc);
+    const before = JSON.stringify(doc);
+    try {
+      transformer.relayout(doc);
+      return false;
+    } catch (error: any) {
+      return /invalid shapes or colors/.test(error.message) && JSON.stringify(doc) === before;
+    }
+  };
+  check('invalid shapes refused, document unchanged', refused(doc => { doc.nodes[1].type = 'hexagon' as any; }));
+  check('invalid node colors refused', refused(doc => { doc.nodes[0].color = 'red'; }));
+  check('invalid link colors refused', refused(doc => { doc.links[0].color = 'crimson'; }));
+}
+
+runChecks('relayout', testRelayout);
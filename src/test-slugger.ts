@@ -0,0 +1,122 @@
+// Slugger Test
+// Headings in any script get readable, unique ids that [[...]] references resolve to
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { MarkdownParser } from './core/parser.js';
+import { Slugger, slugOptionsFromEnvironment } from './core/slugger.js';
+import { ChunkedProcessor } from './core/stream-processor.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `# 日本語の見出し
+
+最初のセクション。[[Привет мир]] と [[快速入门]] を参照。
+
+## Привет мир
+
+Русский текст. Back to [[日本語の見出し]].
+
+## 快速入门
+
+中文内容。See [[Café Crème]] and [[नमस्ते दुनिया]].
+
+## Café Crème
+
+Accents fold: [[cafe creme]] is the same section.
+
+## नमस्ते दुनिया
+
+हिन्दी पाठ।
+
+## ＡＰＩ ２
+
+Full-width letters and digits.
+
+## 🚀
+
+Only an emoji.
+
+## 概要
+
+One.
+
+## 概要
+
+Two.
+
+## 概要
+
+Three.
+`;
+
+// The ids ASCII headings got before the slugger, which must not change
+const legacyId = (title: string) => title.toLowerCase()
+  .replace(/[^a-z0-9\s-]/g, '')
+  .replace(/\s+/g, '-')
+  .substring(0, 30);
+
+async function testSlugger(check: Check) {
+  console.log('🔤 Testing Unicode slugs...\n');
+
+  // Test 1: Section ids
+  console.log('Test 1: Multilingual headings');
+  const sections = new MarkdownParser().parse(source);
+  const ids = sections.map(section => section.id);
+  check('Japanese, Cyrillic and Chinese kept', ids.slice(0, 3).join() === '日本語の見出し,привет-мир,快速入门');
+  check('Latin accents folded', ids[3] === 'cafe-creme');
+  check('Devanagari vowel signs kept', ids[4] === 'नमस्ते-दुनिया');
+  check('full-width forms folded', ids[5] === 'api-2');
+  check('heading without letters falls back to section-N', ids[6] === 'section-6');
+  check('duplicates numbered in order', ids.slice(7).join() === '概要,概要-1,概要-2');
+  check('same document, same ids', new MarkdownParser().parse(source).map(section => section.id).join() === ids.join());
+
+  // Test 2: References
+  console.log('\nTest 2: References');
+  const doc = await new EnhancedTransformer().transform(source);
+  const linked = (from: string, to: string) => doc.links.some(link =>
+    (link.from === from && link.to === to) || (link.from === to && link.to === from));
+  check('[[Привет мир]] resolves', linked('日本語の見出し', 'привет-мир'));
+  check('[[快速入门]] resolves', linked('日本語の見出し', '快速入门'));
+  check('[[日本語の見出し]] resolves', linked('привет-мир', '日本語の見出し'));
+  check('[[Café Crème]] and [[नमस्ते दुनिया]] resolve', linked('快速入门', 'cafe-creme') && linked('快速入门', 'नमस्ते-दुनिया'));
+  check('node ids are unique', new Set(doc.nodes.map(node => node.id)).size === doc.nodes.length);
+
+  // Test 3: Streaming parser
+  console.log('\nTest 3: Streaming parser');
+  const streamed = await new ChunkedProcessor().processLargeMarkdown(source, 12);
+  check('same ids as the standard parser, across parts', streamed.map(section => section.id).join() === ids.join());
+
+  // Test 4: Styles and options
+  console.log('\nTest 4: Options');
+  const ascii = ['Getting Started!', 'API v2.0 (beta)', 'Step 1 - Install', 'A very long heading that goes on and on'];
+  check('ASCII slugs unchanged', ascii.every(title => new Slugger().slug(title) === legacyId(title)));
+
+  const github = new Slugger({ style: 'github' });
+  check('GitHub anchors keep accents and underscores', github.slug('Café & Crème') === 'café--crème' &&
+    github.slug('snake_case_name') === 'snake_case_name' && github.slug("What's new?") === 'whats-new');
+  check('GitHub anchors are not shortened', github.slug('A very long heading that goes on and on') ===
+    'a-very-long-heading-that-goes-on-and-on');
+
+  const transliterated = new Slugger({ transliterate: true });
+  check('transliteration to ASCII', transliterated.slug('Привет мир') === 'privet-mir' &&
+    transliterated.slug('Straße') === 'strasse' && transliterated.slug('Ελληνικά') === 'ellinika');
+  check('scripts without a table stay as they are', transliterated.slug('快速入门') === '快速入门');
+
+  const slugger = new Slugger();
+  const taken = ['Intro', 'Intro', 'Intro 1', 'Intro'].map(title => slugger.unique(title));
+  check('suffixes skip ids already taken', taken.join() === 'intro,intro-1,intro-1-1,intro-2');
+  check('cuts never split a character', Array.from(new Slugger({ maxLength: 3 }).slug('𠀀𠀁𠀂𠀃')).length === 3);
+
+  // Test 5: Server settings
+  console.log('\nTest 5: Environment');
+  const fromEnv = (env: NodeJS.ProcessEnv) => JSON.stringify(slugOptionsFromEnvironment(env));
+  check('style and transliteration read', fromEnv({ MARKDOWN3D_SLUG_STYLE: 'GitHub', MARKDOWN3D_SLUG_TRANSLITERATE: '1' }) ===
+    '{"style":"github","transliterate":true}' && fromEnv({ MARKDOWN3D_SLUG_TRANSLITERATE: 'false' }) === '{"transliterate":false}');
+  check('unset and invalid values keep the defaults', fromEnv({}) === '{}' &&
+    fromEnv({ MARKDOWN3D_SLUG_STYLE: 'kebab', MARKDOWN3D_SLUG_TRANSLITERATE: 'maybe' }) === '{}');
+  const githubDoc = await new EnhancedTransformer(slugOptionsFromEnvironment({ MARKDOWN3D_SLUG_STYLE: 'github' }))
+    .transform('# Café & Crème\n\nText.\n\n## Next\n\nSee [[Café & Crème]].');
+  check('transformer ids follow the setting', githubDoc.nodes[0].id === 'café--crème' &&
+    githubDoc.links.some(link => link.from === 'next' && link.to === 'café--crème'));
+}
+
+runChecks('slugger', testSlugger);
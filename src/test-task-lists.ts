@@ -0,0 +1,106 @@
+// Task Lists Test
+// Checked state, assignees, due dates and blockers drive colors and the project-planning layout
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { LayoutTemplates } from './core/layout-templates.js';
+import { MarkdownParser } from './core/parser.js';
+import { NM3Node } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const source = `# Launch
+
+## Backend
+
+- [x] Set up the database @alice due:2025-03-01
+- [x] Write migrations
+- [ ] Deploy the API @bob 📅 2025-04-02
+  - [ ] Configure TLS
+
+## Frontend
+
+- [ ] Build the login page @carol
+- [ ] Waiting on design, blocked by @dave.
+
+## Docs
+
+- [x] README
+- [x] Changelog ⛔ until the release
+
+## Notes
+
+Mail someone@example.com about the @due(2025-05-05) date.
+
+- plain item
+`;
+
+async function testTaskLists(check: Check) {
+  console.log('☑️  Testing task lists...\n');
+
+  // Test 1: Parsing
+  console.log('Test 1: Task items');
+  const parser = new MarkdownParser();
+  const sections = new Map(parser.parse(source).map(section => [section.id, section]));
+  const backend = sections.get('backend')!;
+  const [database, , deploy, tls] = backend.tasks ?? [];
+  check('checked state, nested items included', backend.tasks?.map(task => task.checked).join() === 'true,true,false,false');
+  check('text without checkbox', database.text === 'Set up the database @alice due:2025-03-01' && tls.text === 'Configure TLS');
+  check('assignees from @mentions', database.assignees.join() === 'alice' && deploy.assignees.join() === 'bob' &&
+    sections.get('frontend')!.tasks![1].assignees.join() === 'dave');
+  check('due dates in both notations', database.due === '2025-03-01' && deploy.due === '2025-04-02' && tls.due === undefined);
+  check('blockers recognized', sections.get('frontend')!.tasks!.map(task => task.blocker).join() === 'false,true' &&
+    sections.get('docs')!.tasks![1].blocker);
+  check('completion ratios', JSON.stringify(backend.completion) === '{"done":2,"total":4,"ratio":0.5}' &&
+    sections.get('docs')!.completion?.ratio === 1 && sections.get('frontend')!.completion?.ratio === 0);
+  check('no tasks, no completion', !sections.get('notes')!.tasks && !sections.get('notes')!.completion &&
+    !sections.get('launch')!.completion);
+  check('checkboxes kept in content', backend.content.includes('- [x] Set up the database') &&
+    backend.content.includes('- [ ] Deploy the API'));
+
+  const items = new Map(parser.parse(source, { granularity: 'list-item' }).map(section => [section.id, section]));
+  check('list items carry their own task', items.get('configure-tls')?.completion?.total === 1 &&
+    items.get('write-migrations')?.completion?.ratio === 1);
+  check('items fold in their subtasks', items.get('deploy-the-api-bob-2025-04-02')?.completion?.total === 2);
+  const blocks = new Map(parser.parse(source, { granularity: 'block' }).map(section => [section.id, section]));
+  check('sections keep the completion of split lists', JSON.stringify(items.get('backend')?.completion) ===
+    JSON.stringify(backend.completion) && JSON.stringify(blocks.get('backend')?.completion) === JSON.stringify(backend.completion) &&
+    blocks.get('backend-list')?.completion?.total === 4);
+
+  const nested = '# Release\n\n- [x] Ship v1\n  - [ ] Announce it\n  - [x] Tag it\n';
+  const ship = parser.parse(nested, { granularity: 'list-item' }).find(section => section.id === 'ship-v1');
+  check('a checked item with open subtasks is not complete', JSON.stringify(ship?.completion) ===
+    JSON.stringify({ done: 2, total: 3, ratio: 2 / 3 }));
+
+  // Test 2: Transform
+  console.log('\nTest 2: Transform');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform(source);
+  const node = (id: string) => doc.nodes.find(n => n.id === id)!;
+  check('open blockers are pastel-pink', node('frontend').color === 'pastel-pink');
+  check('checked blockers do not count, completed work is pastel-gray', node('docs').color === 'pastel-gray');
+  check('progress tags', node('backend').tags?.split(',').includes('progress-50') === true &&
+    node('docs').tags?.split(',').includes('complete') === true && node('frontend').tags?.split(',').includes('blocked') === true);
+  check('task lists select the project-planning layout', transformer.getLayoutDecision()?.layout === 'project-planning');
+  const itemDoc = await transformer.transform(nested, { granularity: 'list-item' });
+  check('open subtasks keep an item out of completed work', itemDoc.nodes.find(n => n.id === 'ship-v1')?.color !== 'pastel-gray' &&
+    itemDoc.nodes.find(n => n.id === 'tag-it')?.color === 'pastel-gray');
+
+  // Test 3: Project-planning template
+  console.log('\nTest 3: Completion axis');
+  const at = (id: string, title: string, tags: string): NM3Node =>
+    ({ id, title, tags, type: 'sphere', x: 0, y: 0, z: 0, content: '' });
+  const nodes = [
+    at('a', 'Alpha', 'descriptive,progress-0'),
+    at('b', 'Beta', 'descriptive,progress-50'),
+    at('c', 'Done and dusted', 'descriptive,progress-75'),
+    at('d', 'Gamma', 'descriptive,progress-100,complete'),
+    at('e', 'Delta', 'descriptive,progress-20,blocked'),
+    at('f', 'Done', 'descriptive'),
+  ];
+  new LayoutTemplates().applyTemplate(nodes, 'project-planning');
+  const [a, b, c, d, e, f] = nodes;
+  check('open work sinks as it progresses', a.y === 0 && b.y < a.y && c.y < b.y && c.y > d.y);
+  check('tags beat titles', c.z === 0 && c.y > f.y);
+  check('completed work on the bottom row, blockers in front', d.y === f.y && e.z > a.z && e.z > d.z);
+}
+
+runChecks('task list', testTaskLists);
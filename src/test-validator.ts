@@ -0,0 +1,61 @@
+// NM3 Semantic Validator Test
+// Checks that generated output validates and that spec violations are reported with paths
+
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3XMLBuilder } from './core/xml-builder.js';
+import { NM3Validator } from './core/nm3-validator.js';
+import { Check, runChecks } from './test-checks.js';
+
+const invalidXML = `<?xml version="1.0" encoding="UTF-8"?>
+<nm3 version="1.0">
+  <meta title="Broken" created="2025-01-01T00:00:00Z"></meta>
+  <camera position-x="0" position-y="10" position-z="20" look-at-x="0" look-at-y="0" look-at-z="abc"></camera>
+  <nodes>
+    <node id="a" type="hexagon" x="0" y="0" z="0" color="neon-green">
+      <content><![CDATA[First]]></content>
+    </node>
+    <node id="a" type="sphere" x="1" y="0">
+      <content><![CDATA[Duplicate]]></content>
+    </node>
+  </nodes>
+  <links>
+    <link from="a" to="missing" type="teleports"></link>
+  </links>
+</nm3>`;
+
+async function testValidator(check: Check) {
+  console.log('🔍 Testing NM3 Semantic Validator...\n');
+
+  const validator = new NM3Validator();
+
+  // Test 1: Generated output is valid
+  console.log('Test 1: Generated document');
+  const transformer = new EnhancedTransformer();
+  const doc = await transformer.transform('# Root\n\nIntro text.\n\n## Child\n\nSee [[root]].');
+  const xml = new NM3XMLBuilder().buildXML(doc);
+  const valid = validator.validate(xml);
+  check('generated XML has no errors', valid.valid && valid.errors.length === 0);
+  check('node count reported', valid.stats.nodes === doc.nodes.length);
+
+  // Test 2: Spec violations
+  console.log('\nTest 2: Invalid document');
+  const result = validator.validate(invalidXML);
+  const messages = result.errors.map(e => `${e.path}: ${e.message}`);
+  messages.forEach(m => console.log(`    - ${m}`));
+
+  check('document is invalid', !result.valid);
+  check('unknown shape reported', messages.some(m => m.includes('node[1]') && m.includes('hexagon')));
+  check('invalid color reported', messages.some(m => m.includes('neon-green')));
+  check('duplicate id reported', messages.some(m => m.includes('node[2]') && m.includes('Duplicate node id')));
+  check('missing coordinate reported', messages.some(m => m.includes('node[2]') && m.includes('"z"')));
+  check('non-numeric camera attribute reported', messages.some(m => m.startsWith('/nm3/camera') && m.includes('look-at-z')));
+  check('dangling link target reported', messages.some(m => m.includes('link[1]') && m.includes('"missing"')));
+  check('invalid link type reported', messages.some(m => m.includes('teleports')));
+
+  // Test 3: Malformed XML and wrong root
+  console.log('\nTest 3: Malformed input');
+  check('malformed XML rejected', !validator.validate('<nm3><nodes></nm3>').valid);
+  check('wrong root rejected', !validator.validate('<scene version="1.0"></scene>').valid);
+}
+
+runChecks('validator', testValidator);
@@ -0,0 +1,124 @@
+// Vault Test
+// A directory of linked markdown files becomes one scene with a cluster per file
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { VaultReader } from './core/vault-reader.js';
+import { EnhancedTransformer } from './core/enhanced-transformer.js';
+import { NM3Node } from './models/types.js';
+import { Check, runChecks } from './test-checks.js';
+
+const vault: Record<string, string> = {
+  'index.md': `# Home
+
+Welcome. Start with [[Setup Guide]] and then [[Setup Guide#Install]].
+
+## Topics
+
+See [[glossary]] and [[#Home]] again.
+`,
+  'notes/Setup Guide.md': `# Setup Guide
+
+Read this first.
+
+## Install
+
+Run the installer.
+
+## Configure
+
+Edit the config, then go back to [[index#Topics]].
+`,
+  'notes/glossary.md': `---
+title: Glossary
+---
+Terms used across the notes. Back to [[index]].
+`,
+  '.obsidian/workspace.md': '# Workspace state',
+  'drafts/wip.md': '# Work in progress',
+  'notes/readme.txt': 'Not markdown',
+};
+
+async function testVault(check: Check) {
+  console.log('📚 Testing directory transform...\n');
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'nm3-vault-'));
+  const reader = new VaultReader();
+  const transformer = new EnhancedTransformer();
+
+  try {
+    for (const [file, markdown] of Object.entries(vault)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), markdown);
+    }
+
+    // Test 1: Globs
+    console.log('Test 1: Include and exclude globs');
+    const all = await reader.read(root);
+    check('markdown files found, hidden folders skipped', all.map(f => f.path).join() ===
+      'drafts/wip.md,index.md,notes/Setup Guide.md,notes/glossary.md');
+    const files = await reader.read(root, { exclude: ['drafts/**', '**/.*/**'] });
+    check('exclude prunes a folder', files.every(f => !f.path.startsWith('drafts/')) && files.length === 3);
+    const named = await reader.read(root, { include: ['glossary.*'] });
+    check('slash-less glob matches at any depth', named.length === 1 && named[0].path === 'notes/glossary.md');
+    check('slugs are id-safe', files.map(f => f.slug).join() === 'index,notes-setup-guide,notes-glossary');
+
+    // Test 2: Namespacing and cross-file links
+    console.log('\nTest 2: Namespaced ids and links');
+    const doc = await transformer.transformVault(files, { title: 'Notes' });
+    const ids = doc.nodes.map(n => n.id);
+    const link = (from: string, to: string) => doc.links.some(l => l.from === from && l.to === to);
+
+    check('ids prefixed with the file slug', ids.every(id => files.some(f => id.startsWith(`${f.slug}--`))));
+    check('ids unique', new Set(ids).size === ids.length);
+    check('heading-less file titled from front matter', doc.nodes.find(n => n.id === 'notes-glossary--main')?.title === 'Glossary');
+    check('[[file]] resolves to the first section', link('index--home', 'notes-setup-guide--setup-guide'));
+    check('[[file#heading]] resolves to the heading', link('index--home', 'notes-setup-guide--install') &&
+      link('notes-setup-guide--configure', 'index--topics'));
+    check('[[file]] without headings resolves', link('index--topics', 'notes-glossary--main') &&
+      link('notes-glossary--main', 'index--home'));
+    check('[[#heading]] stays in the same file, no self-links', link('index--topics', 'index--home') &&
+      doc.links.every(l => l.from !== l.to));
+
+    // Test 3: Clusters
+    console.log('\nTest 3: File clusters');
+    const clusters = files.map(f => doc.nodes.filter(n => n.id.startsWith(`${f.slug}--`)));
+    const centroid = (nodes: NM3Node[]) => ['x', 'y', 'z'].map(axis =>
+      nodes.reduce((sum, n) => sum + (n as any)[axis], 0) / nodes.length);
+    const radius = (nodes: NM3Node[]) => {
+      const c = centroid(nodes);
+      return Math.max(...nodes.map(n => Math.hypot(n.x - c[0], n.y - c[1], n.z - c[2]) + (n.scale ?? 1)));
+    };
+    let separated = true;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const [a, b] = [centroid(clusters[i]), centroid(clusters[j])];
+        if (Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]) < radius(clusters[i]) + radius(clusters[j])) {
+          separated = false;
+        }
+      }
+    }
+    check('clusters do not overlap', separated);
+    check('layout decision reports file clusters', transformer.getLayoutDecision()?.layout === 'file-clusters');
+
+    // Test 4: Determinism
+    console.log('\nTest 4: Determinism');
+    const again = await transformer.transformVault(await reader.read(root, { exclude: ['drafts/**', '**/.*/**'] }), { title: 'Notes' });
+    check('same directory gives the same scene', JSON.stringify(again.nodes) === JSON.stringify(doc.nodes));
+
+    // Test 5: Errors
+    console.log('\nTest 5: Errors');
+    let rejected = false;
+    try {
+      await reader.read(path.join(root, 'index.md'));
+    } catch {
+      rejected = true;
+    }
+    check('file path rejected as directory', rejected);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+runChecks('directory transform', testVault);